@@ -1,77 +1,347 @@
 
-import React, { useState } from 'react';
-import { AppState, RecordingData, CameraConfig, Language } from './types';
+import React, { useState, useEffect } from 'react';
+import { AppState, RecordingData, CameraConfig, Language, RecorderConfig, LibraryEntry, SessionManifest, TranscriptSegment, VideoMetadata, Annotation, ScreenViewport, ShortcutBindings, Marker, AudioMix, BrandProfile, BrandingOverlay } from './types';
 import { useRecorder } from './hooks/useRecorder';
+import { useMediaDevices } from './hooks/useMediaDevices';
 import LandingView from './components/LandingView';
 import RecordingOverlay from './components/RecordingOverlay';
 import ReviewView from './components/ReviewView';
+import LibraryView from './components/LibraryView';
+import { saveRecording, updateRecording } from './services/libraryStore';
+import { listUnfinishedSessions, loadSessionBlob, discardSession } from './services/sessionStore';
+import { captureThumbnail } from './services/videoExport';
+import { repairWebm } from './utils/webm';
+import { DEFAULT_VIEWPORT, FULL_REGION } from './utils/viewport';
+import { loadShortcuts, saveShortcuts } from './services/shortcutSettings';
+import { QUALITY_PRESETS } from './utils/recordingQuality';
+import { DEFAULT_SCENE_ID } from './utils/scenes';
+import { applyCameraStyle, loadCameraConfig, saveCameraConfig } from './services/cameraSettings';
+import { DEFAULT_BRAND_COLORS, loadBrandProfile, saveBrandProfile } from './services/brandProfile';
+import { loadOverlays, saveOverlays } from './services/overlaySettings';
+import { loadLanguage, saveLanguage } from './services/languageSettings';
+import { LanguageContext } from './hooks/useTranslation';
+import { describeError, translate } from './utils/i18n';
 
-const DEFAULT_CAMERA_CONFIG: CameraConfig = {
-  size: 0.2, // 20% of screen
-  borderColor: '#6366f1', // Indigo-500
-  borderWidth: 8,
-  shape: 'circle',
-  position: { x: 0.05, y: 0.7 } // Bottom-left area
+const DEFAULT_RECORDER_CONFIG: RecorderConfig = {
+  showCamera: true,
+  showScreen: true,
+  audioEnabled: true,
+  captureRegion: FULL_REGION,
+  audioPreset: 'raw',
+  quality: QUALITY_PRESETS.standard
 };
 
+const DEFAULT_AUDIO_MIX: AudioMix = {
+  microphone: { gain: 1, muted: false },
+  system: { gain: 1, muted: false }
+};
+
+// Dragging the bubble or an overlay changes the state on every pointer move; store it once it settles
+const SAVE_DELAY_MS = 500;
+
+// Starting from the keyboard leaves time to switch to the window being recorded
+const START_COUNTDOWN_SECONDS = 3;
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [recordingData, setRecordingData] = useState<RecordingData | null>(null);
+  // Earlier versions of the current recording, most recent last, so edits can be undone
+  const [editHistory, setEditHistory] = useState<RecordingData[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [cameraConfig, setCameraConfig] = useState<CameraConfig>(DEFAULT_CAMERA_CONFIG);
-  const [language, setLanguage] = useState<Language>('it');
+  const [cameraConfig, setCameraConfig] = useState<CameraConfig>(loadCameraConfig);
+  const [recorderConfig, setRecorderConfig] = useState<RecorderConfig>(DEFAULT_RECORDER_CONFIG);
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  // Live drawings burned into the recording; they never outlive the session
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [viewport, setViewport] = useState<ScreenViewport>(DEFAULT_VIEWPORT);
+  const [sceneId, setSceneId] = useState(DEFAULT_SCENE_ID);
+  const [audioMix, setAudioMix] = useState<AudioMix>(DEFAULT_AUDIO_MIX);
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(loadShortcuts);
+  const [overlays, setOverlays] = useState<BrandingOverlay[]>(loadOverlays);
+  const [brandProfile, setBrandProfile] = useState<BrandProfile | null>(loadBrandProfile);
+  const colors = brandProfile?.colors ?? DEFAULT_BRAND_COLORS;
+  const startSceneId = brandProfile?.layout.sceneId ?? DEFAULT_SCENE_ID;
 
-  const handleRecordingStop = (data: RecordingData) => {
-    setRecordingData(data);
+  const [recoverableSessions, setRecoverableSessions] = useState<SessionManifest[]>([]);
+  const mediaDevices = useMediaDevices();
+
+  // Sessions still on disk at launch were interrupted by a crash or reload
+  useEffect(() => {
+    listUnfinishedSessions()
+      .then(setRecoverableSessions)
+      .catch(err => console.error("Could not check for unfinished recordings:", err));
+  }, []);
+
+  // Settings that don't fit in storage still apply; the user just hears they won't survive a reload
+  const reportSaved = (saved: boolean) => {
+    if (!saved) setErrorMessage(translate(language, 'error.saveSettings'));
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => reportSaved(saveCameraConfig(cameraConfig)), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [cameraConfig]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => reportSaved(saveOverlays(overlays)), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [overlays]);
+
+  useEffect(() => {
+    saveLanguage(language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const finishRecording = (data: RecordingData, createdAt: number) => {
+    // Every recording lands in the library straight away; AI metadata is filled in later.
+    // A recording that came from a crash-safe session keeps that id, and the session is dropped once saved.
+    const sessionId = data.id;
+    const saved: RecordingData = { ...data, id: sessionId ?? crypto.randomUUID(), createdAt };
+    saveRecording({
+      id: saved.id!,
+      blob: saved.blob,
+      thumbnail: saved.thumbnail,
+      title: '',
+      description: '',
+      duration: saved.duration,
+      createdAt,
+      markers: saved.markers
+    })
+      .then(() => sessionId ? discardSession(sessionId) : undefined)
+      .catch(err => console.error("Could not save recording to library:", err));
+
+    setRecordingData(saved);
     setAppState(AppState.REVIEW);
   };
 
+  const handleRecordingStop = (data: RecordingData) => {
+    finishRecording(data, Date.now());
+  };
+
+  const handleRecoverSession = async (session: SessionManifest) => {
+    try {
+      let blob = await loadSessionBlob(session);
+      if (session.mimeType.includes('webm')) {
+        // Also drops a half-written trailing block left by the crash
+        blob = await repairWebm(blob, session.duration).catch(err => {
+          console.warn("Could not repair recovered WebM", err);
+          return blob;
+        });
+      }
+      const thumbnail = await captureThumbnail(blob, Math.max(0, session.duration - 0.5));
+      setRecoverableSessions(prev => prev.filter(s => s.id !== session.id));
+      setCameraConfig(session.cameraConfig);
+      finishRecording({
+        blob,
+        url: URL.createObjectURL(blob),
+        thumbnail,
+        duration: session.duration,
+        id: session.id
+      }, session.startedAt);
+    } catch (error: any) {
+      console.error("Recovery failed:", error);
+      setErrorMessage(error.message || translate(language, 'error.recover'));
+    }
+  };
+
+  const handleDiscardSession = (session: SessionManifest) => {
+    setRecoverableSessions(prev => prev.filter(s => s.id !== session.id));
+    discardSession(session.id)
+      .catch(err => console.error("Could not discard session:", err));
+  };
+
   const { 
     startRecording, 
     stopRecording, 
     togglePause,
+    switchCamera,
+    switchMicrophone,
+    addMarker,
+    renameMarker,
+    markers,
+    audioSources,
+    getAudioLevel,
     isPaused,
+    countdown,
     canvasRef, 
+    screenVideoRef,
     elapsedTime, 
+    frameStats,
     isRecording 
   } = useRecorder({
     onStop: handleRecordingStop,
-    cameraConfig: cameraConfig
+    cameraConfig: cameraConfig,
+    recorderConfig: recorderConfig,
+    deviceSelection: mediaDevices.selection,
+    annotations,
+    viewport,
+    audioMix,
+    sceneId,
+    overlays
   });
 
-  const handleStart = async () => {
+  const handleStart = async (withCountdown = false) => {
     setErrorMessage(null);
+    setAnnotations([]);
+    setViewport(DEFAULT_VIEWPORT);
+    setSceneId(startSceneId);
     setAppState(AppState.RECORDING);
     
     try {
-        await startRecording();
+        const started = await startRecording(withCountdown ? START_COUNTDOWN_SECONDS : 0);
+        if (!started) {
+            setAppState(AppState.IDLE);
+            return;
+        }
+        mediaDevices.refresh();
     } catch (error: any) {
         console.error("Recording failed:", error);
         setAppState(AppState.IDLE);
-        setErrorMessage(error.message || "Failed to start recording. Please check permissions.");
+        setErrorMessage(describeError(language, error, 'error.startRecording'));
     }
   };
 
+  const handleSaveShortcuts = (bindings: ShortcutBindings) => {
+    setShortcuts(bindings);
+    saveShortcuts(bindings);
+  };
+
+  // A profile brings its camera style along; the palette and starting scene follow from the state
+  const handleApplyBrandProfile = (profile: BrandProfile | null) => {
+    setBrandProfile(profile);
+    reportSaved(saveBrandProfile(profile));
+    if (profile) setCameraConfig(applyCameraStyle(cameraConfig, profile.layout.camera));
+  };
+
   const handleStop = () => {
     stopRecording();
+    setAnnotations([]);
   };
 
-  const handleReset = () => {
+  // Remember the choice and, while recording, swap the live input without stopping
+  const handleSelectCamera = (deviceId: string | null) => {
+    mediaDevices.setCameraId(deviceId);
+    if (appState === AppState.RECORDING) switchCamera(deviceId);
+  };
+
+  const handleSelectMicrophone = (deviceId: string | null) => {
+    mediaDevices.setMicrophoneId(deviceId);
+    if (appState === AppState.RECORDING) switchMicrophone(deviceId);
+  };
+
+  // Keeps the library copy in sync with whichever version is on screen
+  const persistVersion = (version: RecordingData) => {
+    if (!version.id) return;
+    updateRecording(version.id, {
+      blob: version.blob,
+      thumbnail: version.thumbnail,
+      duration: version.duration,
+      transcript: version.transcript,
+      markers: version.markers
+    }).catch(err => console.error("Could not update library entry:", err));
+  };
+
+  const handleApplyEdit = (edited: RecordingData) => {
+    if (!recordingData) return;
+    const version: RecordingData = { ...edited, id: recordingData.id, createdAt: recordingData.createdAt };
+    setEditHistory(prev => [...prev, recordingData]);
+    setRecordingData(version);
+    persistVersion(version);
+  };
+
+  const handleUndoEdit = () => {
+    const previous = editHistory[editHistory.length - 1];
+    if (!previous || !recordingData) return;
+    URL.revokeObjectURL(recordingData.url);
+    setEditHistory(editHistory.slice(0, -1));
+    setRecordingData(previous);
+    persistVersion(previous);
+  };
+
+  const handleMetaChange = (meta: VideoMetadata) => {
+    if (!recordingData?.id) return;
+    const { title, description, chapters, tags } = meta;
+    updateRecording(recordingData.id, { title, description, chapters, tags })
+      .catch(err => console.error("Could not update library entry:", err));
+  };
+
+  const handleTranscriptChange = (transcript: TranscriptSegment[]) => {
+    if (!recordingData) return;
+    setRecordingData({ ...recordingData, transcript });
+    if (!recordingData.id) return;
+    updateRecording(recordingData.id, { transcript })
+      .catch(err => console.error("Could not update library entry:", err));
+  };
+
+  const handleMarkersChange = (markers: Marker[]) => {
+    if (!recordingData) return;
+    setRecordingData({ ...recordingData, markers });
+    if (!recordingData.id) return;
+    updateRecording(recordingData.id, { markers })
+      .catch(err => console.error("Could not update library entry:", err));
+  };
+
+  const clearRecording = () => {
+    [recordingData, ...editHistory].forEach(version => version && URL.revokeObjectURL(version.url));
+    setEditHistory([]);
     setRecordingData(null);
+  };
+
+  const handleReset = () => {
+    clearRecording();
     setAppState(AppState.IDLE);
     setErrorMessage(null);
   };
 
+  const handleOpenLibrary = () => {
+    clearRecording();
+    setAppState(AppState.LIBRARY);
+  };
+
+  const handleOpenFromLibrary = (entry: LibraryEntry) => {
+    setRecordingData({
+      blob: entry.blob,
+      url: URL.createObjectURL(entry.blob),
+      thumbnail: entry.thumbnail,
+      duration: entry.duration,
+      id: entry.id,
+      createdAt: entry.createdAt,
+      title: entry.title,
+      description: entry.description,
+      transcript: entry.transcript,
+      chapters: entry.chapters,
+      tags: entry.tags,
+      markers: entry.markers
+    });
+    setAppState(AppState.REVIEW);
+  };
+
   return (
-    <>
+    <LanguageContext.Provider value={language}>
       {appState === AppState.IDLE && (
         <LandingView 
             onStart={handleStart} 
             error={errorMessage}
             cameraConfig={cameraConfig}
             onUpdateConfig={setCameraConfig}
-            language={language}
             onSetLanguage={setLanguage}
+            recorderConfig={recorderConfig}
+            onUpdateRecorderConfig={setRecorderConfig}
+            cameras={mediaDevices.cameras}
+            microphones={mediaDevices.microphones}
+            deviceSelection={mediaDevices.selection}
+            onSelectCamera={handleSelectCamera}
+            onSelectMicrophone={handleSelectMicrophone}
+            onDevicesRefresh={mediaDevices.refresh}
+            onOpenLibrary={handleOpenLibrary}
+            recoverableSessions={recoverableSessions}
+            onRecoverSession={handleRecoverSession}
+            onDiscardSession={handleDiscardSession}
+            shortcuts={shortcuts}
+            onSaveShortcuts={handleSaveShortcuts}
+            colors={colors}
+            brandProfile={brandProfile}
+            onApplyBrandProfile={handleApplyBrandProfile}
         />
       )}
       
@@ -85,6 +355,34 @@ const App: React.FC = () => {
           isInitializing={!isRecording}
           cameraConfig={cameraConfig}
           onUpdateConfig={setCameraConfig}
+          recorderConfig={recorderConfig}
+          cameras={mediaDevices.cameras}
+          microphones={mediaDevices.microphones}
+          deviceSelection={mediaDevices.selection}
+          onSelectCamera={handleSelectCamera}
+          onSelectMicrophone={handleSelectMicrophone}
+          annotations={annotations}
+          onChangeAnnotations={setAnnotations}
+          viewport={viewport}
+          onChangeViewport={setViewport}
+          screenVideoRef={screenVideoRef}
+          shortcuts={shortcuts}
+          onAddMarker={addMarker}
+          onRenameMarker={renameMarker}
+          markerCount={markers.length}
+          countdown={countdown}
+          audioSources={audioSources}
+          audioMix={audioMix}
+          onChangeAudioMix={setAudioMix}
+          getAudioLevel={getAudioLevel}
+          onChangeAudioPreset={(audioPreset) => setRecorderConfig({ ...recorderConfig, audioPreset })}
+          frameStats={frameStats}
+          sceneId={sceneId}
+          onChangeScene={setSceneId}
+          colors={colors}
+          overlays={overlays}
+          onChangeOverlays={setOverlays}
+          logo={brandProfile?.logo ?? null}
         />
       )}
 
@@ -92,10 +390,23 @@ const App: React.FC = () => {
         <ReviewView 
             data={recordingData} 
             onReset={handleReset} 
-            language={language}
+            onApplyEdit={handleApplyEdit}
+            onUndoEdit={handleUndoEdit}
+            canUndo={editHistory.length > 0}
+            onMetaChange={handleMetaChange}
+            onTranscriptChange={handleTranscriptChange}
+            onMarkersChange={handleMarkersChange}
+            onOpenLibrary={handleOpenLibrary}
+        />
+      )}
+
+      {appState === AppState.LIBRARY && (
+        <LibraryView
+            onOpen={handleOpenFromLibrary}
+            onNewRecording={handleReset}
         />
       )}
-    </>
+    </LanguageContext.Provider>
   );
 };
 
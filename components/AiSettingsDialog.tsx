@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { XMarkIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { AiProviderConfig, AiProviderId, AiSettings } from '../types';
+import { AI_PROVIDER_IDS, loadAiSettings, saveAiSettings } from '../services/aiSettings';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../locales/en';
+
+interface AiSettingsDialogProps {
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<AiProviderId, { name: MessageKey; hint: MessageKey }> = {
+  gemini: { name: 'ai.provider.gemini', hint: 'ai.provider.geminiHint' },
+  openai: { name: 'ai.provider.openai', hint: 'ai.provider.openaiHint' },
+  local: { name: 'ai.provider.local', hint: 'ai.provider.localHint' },
+  mock: { name: 'ai.provider.mock', hint: 'ai.provider.mockHint' },
+};
+
+const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  const config = settings.providers[settings.provider];
+
+  const updateConfig = (patch: Partial<AiProviderConfig>) => {
+    setSettings(prev => ({
+      ...prev,
+      providers: { ...prev.providers, [prev.provider]: { ...prev.providers[prev.provider], ...patch } }
+    }));
+  };
+
+  const handleSave = () => {
+    saveAiSettings(settings);
+    onClose();
+  };
+
+  const inputClass = "w-full bg-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-600";
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+        <div className="w-full max-w-md bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-bold flex items-center gap-2 text-white">
+                    <Cog6ToothIcon className="w-5 h-5 text-indigo-400" />
+                    {t('ai.title')}
+                </h2>
+                <button onClick={onClose} className="p-1 text-slate-500 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {AI_PROVIDER_IDS.map(id => (
+                    <button
+                        key={id}
+                        onClick={() => setSettings(prev => ({ ...prev, provider: id }))}
+                        className={`px-3 py-2 rounded-xl text-sm font-bold border transition-colors ${settings.provider === id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                    >
+                        {t(PROVIDER_LABELS[id].name)}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-slate-500">{t(PROVIDER_LABELS[settings.provider].hint)}</p>
+
+            {settings.provider !== 'mock' && (
+                <div className="space-y-3">
+                    {settings.provider !== 'gemini' && (
+                        <label className="block space-y-1">
+                            <span className={labelClass}>{t('ai.serverUrl')}</span>
+                            <input value={config.baseUrl} onChange={(e) => updateConfig({ baseUrl: e.target.value })} className={inputClass} placeholder="https://…/v1" />
+                        </label>
+                    )}
+                    <label className="block space-y-1">
+                        <span className={labelClass}>{t('ai.apiKey')}</span>
+                        <input
+                            type="password"
+                            value={config.apiKey}
+                            onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                            className={inputClass}
+                            placeholder={settings.provider === 'local' ? t('ai.optional') : ''}
+                            autoComplete="off"
+                        />
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block space-y-1">
+                            <span className={labelClass}>{t('ai.model')}</span>
+                            <input value={config.model} onChange={(e) => updateConfig({ model: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="block space-y-1">
+                            <span className={labelClass}>{t('ai.transcriptionModel')}</span>
+                            <input value={config.transcriptionModel} onChange={(e) => updateConfig({ transcriptionModel: e.target.value })} className={inputClass} />
+                        </label>
+                    </div>
+                </div>
+            )}
+
+            <p className="text-[11px] text-slate-600">
+                {t('ai.keysNote')}
+            </p>
+
+            <div className="flex justify-end gap-2">
+                <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+                    {t('common.cancel')}
+                </button>
+                <button onClick={handleSave} className="px-4 py-2 rounded-xl text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors">
+                    {t('common.save')}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default AiSettingsDialog;
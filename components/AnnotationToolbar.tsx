@@ -0,0 +1,72 @@
+import React from 'react';
+import { PencilIcon, ArrowUpRightIcon, StopIcon, PaintBrushIcon, SunIcon, ArrowUturnLeftIcon, TrashIcon, CursorArrowRaysIcon } from '@heroicons/react/24/outline';
+import { AnnotationTool } from '../types';
+import { withShortcut } from '../utils/shortcuts';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../locales/en';
+
+interface AnnotationToolbarProps {
+  activeTool: AnnotationTool | null;
+  onSelectTool: (tool: AnnotationTool | null) => void;
+  color: string;
+  colors: string[];
+  onSelectColor: (color: string) => void;
+  canUndo: boolean;
+  onUndo: () => void;
+  onClear: () => void;
+  shortcut?: string; // Toggles the pen
+}
+
+const TOOLS: { id: AnnotationTool; label: MessageKey; icon: React.ComponentType<{ className?: string }> }[] = [
+  { id: 'pen', label: 'annotate.tool.pen', icon: PencilIcon },
+  { id: 'arrow', label: 'annotate.tool.arrow', icon: ArrowUpRightIcon },
+  { id: 'rect', label: 'annotate.tool.rect', icon: StopIcon },
+  { id: 'highlighter', label: 'annotate.tool.highlighter', icon: PaintBrushIcon },
+  { id: 'spotlight', label: 'annotate.tool.spotlight', icon: SunIcon },
+];
+
+const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({ activeTool, onSelectTool, color, colors, onSelectColor, canUndo, onUndo, onClear, shortcut = '' }) => {
+  const { t } = useTranslation();
+  const buttonClass = (active: boolean) =>
+    `p-2.5 rounded-xl transition-all hover:scale-105 active:scale-95 disabled:opacity-30 disabled:hover:scale-100 ${active ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`;
+
+  return (
+    <div className="flex flex-col items-center gap-1 bg-slate-900/90 backdrop-blur-xl border border-slate-700/50 p-1.5 rounded-2xl shadow-2xl ring-1 ring-white/10">
+        <button onClick={() => onSelectTool(null)} title={t('annotate.pointer')} className={buttonClass(activeTool === null)}>
+            <CursorArrowRaysIcon className="w-5 h-5" />
+        </button>
+        {TOOLS.map(tool => (
+            <button
+                key={tool.id}
+                onClick={() => onSelectTool(activeTool === tool.id ? null : tool.id)}
+                title={tool.id === 'pen' ? withShortcut(t(tool.label), shortcut) : t(tool.label)}
+                className={buttonClass(activeTool === tool.id)}
+            >
+                <tool.icon className="w-5 h-5" />
+            </button>
+        ))}
+
+        <div className="w-6 h-px bg-slate-700 my-1"></div>
+
+        {colors.map(swatch => (
+            <button
+                key={swatch}
+                onClick={() => onSelectColor(swatch)}
+                className={`w-5 h-5 my-0.5 rounded-full ring-2 ring-offset-2 ring-offset-slate-900 transition-all hover:scale-110 ${color === swatch ? 'ring-white scale-110' : 'ring-transparent opacity-60 hover:opacity-100'}`}
+                style={{ backgroundColor: swatch }}
+            />
+        ))}
+
+        <div className="w-6 h-px bg-slate-700 my-1"></div>
+
+        <button onClick={onUndo} disabled={!canUndo} title={t('annotate.undo')} className={buttonClass(false)}>
+            <ArrowUturnLeftIcon className="w-5 h-5" />
+        </button>
+        <button onClick={onClear} disabled={!canUndo} title={t('annotate.clear')} className={buttonClass(false)}>
+            <TrashIcon className="w-5 h-5" />
+        </button>
+    </div>
+  );
+};
+
+export default AnnotationToolbar;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef } from 'react';
+import { SpeakerWaveIcon, SpeakerXMarkIcon } from '@heroicons/react/24/solid';
+import { AudioMix, AudioPreset, AudioSource } from '../types';
+import { MAX_GAIN } from '../services/audioMixer';
+import { AUDIO_PRESETS, AUDIO_PRESET_IDS } from '../services/audioProcessing';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../locales/en';
+
+interface AudioMixerPanelProps {
+  sources: AudioSource[];
+  mix: AudioMix;
+  onChange: (mix: AudioMix) => void;
+  getLevel: (source: AudioSource) => number;
+  preset: AudioPreset; // Microphone processing
+  onChangePreset: (preset: AudioPreset) => void;
+}
+
+const SOURCE_LABELS: Record<AudioSource, MessageKey> = {
+  microphone: 'audio.source.microphone',
+  system: 'audio.source.system'
+};
+
+// Share of the previous reading kept each frame, so peaks fall back smoothly instead of flickering
+const METER_DECAY = 0.85;
+
+const AudioMixerPanel: React.FC<AudioMixerPanelProps> = ({ sources, mix, onChange, getLevel, preset, onChangePreset }) => {
+  const { t } = useTranslation();
+  // Meters are written straight to the DOM every frame; re-rendering at 60fps would be wasteful
+  const meterRefs = useRef<Partial<Record<AudioSource, HTMLDivElement | null>>>({});
+
+  useEffect(() => {
+    const shown: Partial<Record<AudioSource, number>> = {};
+    let frame: number;
+
+    const tick = () => {
+      sources.forEach(source => {
+        const level = Math.max(getLevel(source), (shown[source] ?? 0) * METER_DECAY);
+        shown[source] = level;
+        const meter = meterRefs.current[source];
+        if (meter) meter.style.width = `${level * 100}%`;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [sources, getLevel]);
+
+  const updateChannel = (source: AudioSource, changes: Partial<AudioMix[AudioSource]>) => {
+    onChange({ ...mix, [source]: { ...mix[source], ...changes } });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+        {sources.map(source => {
+            const channel = mix[source];
+            return (
+                <div key={source}>
+                    <div className="flex items-center justify-between text-[10px] font-bold text-slate-500 uppercase mb-1.5">
+                        <span>{t(SOURCE_LABELS[source])}</span>
+                        <span className={channel.muted ? 'text-red-400' : 'text-indigo-400'}>
+                            {channel.muted ? t('audio.muted') : `${Math.round(channel.gain * 100)}%`}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => updateChannel(source, { muted: !channel.muted })}
+                            title={channel.muted ? t('audio.unmute') : t('audio.mute')}
+                            className={`p-1.5 rounded-lg transition-colors ${channel.muted ? 'bg-red-500/20 text-red-400' : 'bg-slate-800 text-slate-300 hover:text-white'}`}
+                        >
+                            {channel.muted ? <SpeakerXMarkIcon className="w-4 h-4" /> : <SpeakerWaveIcon className="w-4 h-4" />}
+                        </button>
+                        <div className="flex-1 flex flex-col gap-1.5">
+                            {/* VU meter: green, then amber, then red near full scale */}
+                            <div className={`relative h-1.5 rounded-full bg-slate-800 overflow-hidden ${channel.muted ? 'opacity-40' : ''}`}>
+                                <div
+                                    ref={el => { meterRefs.current[source] = el; }}
+                                    className="absolute inset-y-0 left-0 bg-gradient-to-r from-emerald-500 via-amber-400 to-red-500"
+                                    style={{ width: 0, backgroundSize: '15rem 100%' }}
+                                />
+                            </div>
+                            <input
+                                type="range" min="0" max={MAX_GAIN} step="0.05"
+                                value={channel.gain}
+                                onChange={(e) => updateChannel(source, { gain: parseFloat(e.target.value) })}
+                                onDoubleClick={() => updateChannel(source, { gain: 1 })}
+                                title={t('audio.resetHint')}
+                                className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                            />
+                        </div>
+                    </div>
+                    {source === 'microphone' && (
+                        <div className="flex bg-slate-800/50 p-1 rounded-lg mt-2" title={t('audio.processing')}>
+                            {AUDIO_PRESET_IDS.map(id => (
+                                <button
+                                    key={id}
+                                    onClick={() => onChangePreset(id)}
+                                    className={`flex-1 py-1 rounded text-[10px] font-bold uppercase transition-all ${preset === id ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {t(AUDIO_PRESETS[id].label)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+  );
+};
+
+export default AudioMixerPanel;
@@ -0,0 +1,244 @@
+import React, { useRef, useState } from 'react';
+import { XMarkIcon, SwatchIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, PhotoIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { BrandProfile, CameraConfig } from '../types';
+import { BrandProfileError, DEFAULT_BRAND_COLORS, MAX_BRAND_COLORS, MAX_LOGO_LENGTH, parseBrandProfile, serializeBrandProfile } from '../services/brandProfile';
+import { applyCameraStyle, getCameraStyle } from '../services/cameraSettings';
+import { DEFAULT_SCENE_ID } from '../utils/scenes';
+import { readImageFile } from '../utils/imageFile';
+import { useTranslation } from '../hooks/useTranslation';
+import { describeError } from '../utils/i18n';
+import ScenePicker from './ScenePicker';
+
+interface BrandProfileDialogProps {
+  profile: BrandProfile | null;
+  cameraConfig: CameraConfig;
+  onApply: (profile: BrandProfile | null) => void;
+  onClose: () => void;
+}
+
+// Logos are drawn small
+const MAX_LOGO_SIZE = 512;
+
+const BrandProfileDialog: React.FC<BrandProfileDialogProps> = ({ profile, cameraConfig, onApply, onClose }) => {
+  const { t, language } = useTranslation();
+  const [draft, setDraft] = useState<BrandProfile>(() => profile ?? {
+    name: '',
+    colors: DEFAULT_BRAND_COLORS,
+    logo: null,
+    layout: { sceneId: DEFAULT_SCENE_ID, camera: getCameraStyle(cameraConfig) },
+  });
+  const [error, setError] = useState<{ message: string; issues: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<BrandProfile>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const showError = (err: unknown) => {
+    setError({
+      message: describeError(language, err, 'brand.invalidProfile'),
+      issues: err instanceof BrandProfileError ? err.issues : [],
+    });
+  };
+
+  // Goes through the same validation as an imported file, so an exported profile always imports cleanly
+  const validated = (): BrandProfile | null => {
+    try {
+      return parseBrandProfile(serializeBrandProfile(draft));
+    } catch (err) {
+      showError(err);
+      return null;
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraft(parseBrandProfile(await file.text()));
+      setError(null);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleExport = () => {
+    const checked = validated();
+    if (!checked) return;
+    const url = URL.createObjectURL(new Blob([serializeBrandProfile(checked)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${checked.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'brand'}.brand.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    readImageFile(file, MAX_LOGO_SIZE)
+      .then(({ dataUrl: logo }) => {
+        if (logo.length > MAX_LOGO_LENGTH) {
+          setError({ message: t('brand.logoTooLarge'), issues: [] });
+          return;
+        }
+        update({ logo });
+      })
+      .catch(showError);
+  };
+
+  const handleApply = () => {
+    const checked = validated();
+    if (!checked) return;
+    onApply(checked);
+    onClose();
+  };
+
+  const handleRemove = () => {
+    onApply(null);
+    onClose();
+  };
+
+  const labelClass = "text-xs font-bold text-slate-500 uppercase tracking-wider";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+        <div className="w-full max-w-md max-h-full overflow-y-auto bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-bold flex items-center gap-2 text-white">
+                    <SwatchIcon className="w-5 h-5 text-indigo-400" />
+                    {t('brand.title')}
+                </h2>
+                <button onClick={onClose} className="p-1 text-slate-500 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+            </div>
+
+            <div className="space-y-2">
+                <label className={labelClass}>{t('brand.name')}</label>
+                <input
+                    value={draft.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    placeholder={t('brand.namePlaceholder')}
+                    maxLength={80}
+                    className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                />
+            </div>
+
+            <div className="space-y-2">
+                <label className={labelClass}>{t('brand.colors')}</label>
+                <div className="flex flex-wrap items-center gap-2">
+                    {draft.colors.map((color, index) => (
+                        <div key={index} className="relative group">
+                            <input
+                                type="color"
+                                value={color}
+                                onChange={(e) => update({ colors: draft.colors.map((c, i) => i === index ? e.target.value : c) })}
+                                className="w-8 h-8 rounded-full cursor-pointer bg-transparent border-0 p-0"
+                            />
+                            {draft.colors.length > 1 && (
+                                <button
+                                    onClick={() => update({ colors: draft.colors.filter((_, i) => i !== index) })}
+                                    className="absolute -top-1 -right-1 p-0.5 rounded-full bg-slate-700 text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                                >
+                                    <XMarkIcon className="w-2.5 h-2.5" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {draft.colors.length < MAX_BRAND_COLORS && (
+                        <button
+                            onClick={() => update({ colors: [...draft.colors, '#ffffff'] })}
+                            title={t('brand.addColor')}
+                            className="w-8 h-8 rounded-full border border-dashed border-slate-600 text-slate-500 hover:text-white hover:border-slate-400 flex items-center justify-center"
+                        >
+                            <PlusIcon className="w-4 h-4" />
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <label className={labelClass}>{t('brand.logo')}</label>
+                <div className="flex items-center gap-3">
+                    <div className="w-16 h-10 rounded-lg bg-slate-800 flex items-center justify-center overflow-hidden">
+                        {draft.logo
+                            ? <img src={draft.logo} alt="" className="max-w-full max-h-full object-contain" />
+                            : <PhotoIcon className="w-5 h-5 text-slate-600" />}
+                    </div>
+                    <label className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors cursor-pointer">
+                        {t('brand.upload')}
+                        <input type="file" accept="image/*" onChange={handleLogo} className="hidden" />
+                    </label>
+                    {draft.logo && (
+                        <button onClick={() => update({ logo: null })} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:text-white transition-colors">
+                            {t('common.remove')}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className={labelClass}>{t('brand.defaultLayout')}</label>
+                    <button
+                        onClick={() => update({ layout: { ...draft.layout, camera: getCameraStyle(cameraConfig) } })}
+                        className="text-xs font-bold text-indigo-400 hover:text-indigo-300"
+                    >
+                        {t('brand.useCameraStyle')}
+                    </button>
+                </div>
+                <ScenePicker
+                    sceneId={draft.layout.sceneId}
+                    onChange={(sceneId) => update({ layout: { ...draft.layout, sceneId } })}
+                    cameraConfig={applyCameraStyle(cameraConfig, draft.layout.camera)}
+                />
+            </div>
+
+            {error && (
+                <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-xs text-red-300 space-y-1">
+                    <p className="font-bold">{error.message}</p>
+                    {error.issues.length > 0 && (
+                        <ul className="font-mono text-[11px] text-red-300/80 list-disc pl-4 max-h-24 overflow-y-auto">
+                            {error.issues.map(issue => <li key={issue}>{issue}</li>)}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                    >
+                        <ArrowUpTrayIcon className="w-4 h-4" />
+                        {t('brand.import')}
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                    <button
+                        onClick={handleExport}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                    >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        {t('brand.export')}
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    {profile && (
+                        <button onClick={handleRemove} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+                            {t('brand.turnOff')}
+                        </button>
+                    )}
+                    <button
+                        onClick={handleApply}
+                        className="px-4 py-2 rounded-xl text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+                    >
+                        {t('brand.apply')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default BrandProfileDialog;
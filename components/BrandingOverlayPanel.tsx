@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { EyeIcon, EyeSlashIcon, TrashIcon, PhotoIcon, IdentificationIcon, ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/solid';
+import { BrandingOverlay, BrandingOverlayKind } from '../types';
+import { createLowerThird, createTextOverlay, createWatermark, MAX_WATERMARK_SIZE } from '../services/overlaySettings';
+import { getImageSize, readImageFile } from '../utils/imageFile';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../locales/en';
+
+interface BrandingOverlayPanelProps {
+  overlays: BrandingOverlay[];
+  onChange: (overlays: BrandingOverlay[]) => void;
+  logo: string | null; // From the brand profile, offered before asking for a file
+  colors: string[];
+}
+
+const KIND_LABELS: Record<BrandingOverlayKind, MessageKey> = {
+  watermark: 'overlay.kind.watermark',
+  lowerThird: 'overlay.kind.lowerThird',
+  text: 'overlay.kind.text',
+};
+
+// Seconds a name card stays up; 0 keeps it until hidden
+const LOWER_THIRD_DURATIONS = [5, 8, 15, 30, 0];
+
+// What the user typed, if anything; the kind's name otherwise
+const overlayTitle = (overlay: BrandingOverlay) => {
+  switch (overlay.kind) {
+    case 'watermark': return null;
+    case 'lowerThird': return overlay.title || null;
+    case 'text': return overlay.text.split('\n')[0] || null;
+  }
+};
+
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase";
+const sliderClass = "w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500";
+const inputClass = "w-full bg-slate-800 rounded-lg px-2.5 py-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-500";
+
+// Logo watermark, name card and free text, each shown, hidden and restyled live
+const BrandingOverlayPanel: React.FC<BrandingOverlayPanelProps> = ({ overlays, onChange, logo, colors }) => {
+  const { t } = useTranslation();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const add = (overlay: BrandingOverlay) => {
+    onChange([...overlays, overlay]);
+    setExpandedId(overlay.id);
+  };
+
+  const update = (id: string, changes: Partial<BrandingOverlay>) => {
+    onChange(overlays.map(overlay => overlay.id === id ? { ...overlay, ...changes } as BrandingOverlay : overlay));
+  };
+
+  const handleAddLogo = () => {
+    if (!logo) return;
+    getImageSize(logo)
+      .then(({ width, height }) => add(createWatermark(logo, width / height)))
+      .catch(err => console.error("Could not load the brand logo:", err));
+  };
+
+  const handleUploadLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    readImageFile(file, MAX_WATERMARK_SIZE)
+      .then(({ dataUrl, width, height }) => add(createWatermark(dataUrl, width / height)))
+      .catch(err => console.error("Could not load watermark image:", err));
+  };
+
+  const renderSwatches = (value: string, onSelect: (color: string) => void) => (
+    <div className="flex gap-1.5">
+        {colors.map(color => (
+            <button
+                key={color}
+                onClick={() => onSelect(color)}
+                className={`w-5 h-5 rounded-full ring-2 ring-offset-1 ring-offset-slate-900 transition-all ${value === color ? 'ring-white' : 'ring-transparent opacity-60 hover:opacity-100'}`}
+                style={{ backgroundColor: color }}
+            />
+        ))}
+    </div>
+  );
+
+  const renderEditor = (overlay: BrandingOverlay) => {
+    switch (overlay.kind) {
+      case 'watermark':
+        return (
+          <>
+            <div>
+                <div className={`flex justify-between mb-1 ${labelClass}`}>
+                    <span>{t('overlay.size')}</span>
+                    <span className="text-indigo-400">{Math.round(overlay.size * 100)}%</span>
+                </div>
+                <input type="range" min="0.04" max="0.3" step="0.01" value={overlay.size} onChange={(e) => update(overlay.id, { size: parseFloat(e.target.value) })} className={sliderClass} />
+            </div>
+            <div>
+                <div className={`flex justify-between mb-1 ${labelClass}`}>
+                    <span>{t('overlay.opacity')}</span>
+                    <span className="text-indigo-400">{Math.round(overlay.opacity * 100)}%</span>
+                </div>
+                <input type="range" min="0.1" max="1" step="0.05" value={overlay.opacity} onChange={(e) => update(overlay.id, { opacity: parseFloat(e.target.value) })} className={sliderClass} />
+            </div>
+          </>
+        );
+      case 'lowerThird':
+        return (
+          <>
+            <input value={overlay.title} onChange={(e) => update(overlay.id, { title: e.target.value })} placeholder={t('overlay.name')} className={inputClass} />
+            <input value={overlay.subtitle} onChange={(e) => update(overlay.id, { subtitle: e.target.value })} placeholder={t('overlay.role')} className={inputClass} />
+            {renderSwatches(overlay.accentColor, (accentColor) => update(overlay.id, { accentColor }))}
+            <div>
+                <span className={`block mb-1 ${labelClass}`}>{t('overlay.onScreen')}</span>
+                <div className="flex bg-slate-800/50 p-1 rounded-lg">
+                    {LOWER_THIRD_DURATIONS.map(duration => (
+                        <button
+                            key={duration}
+                            onClick={() => update(overlay.id, { duration })}
+                            className={`flex-1 py-1 rounded text-[10px] font-bold transition-all ${overlay.duration === duration ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {duration ? t('overlay.seconds', { count: duration }) : '∞'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+          </>
+        );
+      case 'text':
+        return (
+          <>
+            <textarea
+                value={overlay.text}
+                onChange={(e) => update(overlay.id, { text: e.target.value })}
+                placeholder={t('overlay.kind.text')}
+                rows={2}
+                className={`${inputClass} resize-none`}
+            />
+            <div className="flex items-center justify-between gap-2">
+                {renderSwatches(overlay.color, (color) => update(overlay.id, { color }))}
+                <button
+                    onClick={() => update(overlay.id, { background: !overlay.background })}
+                    className={`px-2 py-1 rounded text-[10px] font-bold transition-colors ${overlay.background ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                    {t('overlay.plate')}
+                </button>
+            </div>
+            <div>
+                <div className={`flex justify-between mb-1 ${labelClass}`}>
+                    <span>{t('overlay.size')}</span>
+                    <span className="text-indigo-400">{Math.round(overlay.size * 100)}%</span>
+                </div>
+                <input type="range" min="0.02" max="0.12" step="0.005" value={overlay.size} onChange={(e) => update(overlay.id, { size: parseFloat(e.target.value) })} className={sliderClass} />
+            </div>
+          </>
+        );
+    }
+  };
+
+  const addButtonClass = "flex-1 flex flex-col items-center gap-1 py-2 rounded-lg bg-slate-800 text-[10px] font-bold text-slate-300 hover:bg-slate-700 hover:text-white transition-colors cursor-pointer";
+
+  return (
+    <div className="flex flex-col gap-3">
+        {overlays.length === 0 && (
+            <p className="text-xs text-slate-500">{t('overlay.empty')}</p>
+        )}
+
+        {overlays.map(overlay => {
+            const isExpanded = expandedId === overlay.id;
+            return (
+                <div key={overlay.id} className={`rounded-xl ${isExpanded ? 'bg-slate-800/50' : ''}`}>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => update(overlay.id, { visible: !overlay.visible })}
+                            className={`p-1.5 rounded-lg transition-colors ${overlay.visible ? 'text-indigo-400 hover:text-indigo-300' : 'text-slate-500 hover:text-white'}`}
+                            title={overlay.visible ? t('common.hide') : t('common.show')}
+                        >
+                            {overlay.visible ? <EyeIcon className="w-4 h-4" /> : <EyeSlashIcon className="w-4 h-4" />}
+                        </button>
+                        <button
+                            onClick={() => setExpandedId(isExpanded ? null : overlay.id)}
+                            className={`flex-1 min-w-0 text-left text-xs font-bold truncate ${overlay.visible ? 'text-slate-200' : 'text-slate-500'}`}
+                        >
+                            {overlayTitle(overlay) ?? t(KIND_LABELS[overlay.kind])}
+                        </button>
+                        <button
+                            onClick={() => onChange(overlays.filter(o => o.id !== overlay.id))}
+                            className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 transition-colors"
+                            title={t('common.remove')}
+                        >
+                            <TrashIcon className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                    {isExpanded && (
+                        <div className="flex flex-col gap-2.5 px-2 pb-2.5 pt-1">
+                            {renderEditor(overlay)}
+                        </div>
+                    )}
+                </div>
+            );
+        })}
+
+        <div className="flex gap-1.5">
+            {logo ? (
+                <button onClick={handleAddLogo} className={addButtonClass}>
+                    <PhotoIcon className="w-4 h-4" />
+                    {t(KIND_LABELS.watermark)}
+                </button>
+            ) : (
+                <label className={addButtonClass}>
+                    <PhotoIcon className="w-4 h-4" />
+                    {t(KIND_LABELS.watermark)}
+                    <input type="file" accept="image/*" onChange={handleUploadLogo} className="hidden" />
+                </label>
+            )}
+            <button onClick={() => add(createLowerThird(colors[0]))} className={addButtonClass}>
+                <IdentificationIcon className="w-4 h-4" />
+                {t(KIND_LABELS.lowerThird)}
+            </button>
+            <button onClick={() => add(createTextOverlay('#ffffff'))} className={addButtonClass}>
+                <ChatBubbleBottomCenterTextIcon className="w-4 h-4" />
+                {t(KIND_LABELS.text)}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default BrandingOverlayPanel;
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { PhotoIcon } from '@heroicons/react/24/solid';
+import { CameraBackground, CameraBackgroundMode } from '../types';
+import { checkSegmentationAssets, needsSegmentation, SegmentationStatus } from '../services/cameraBackground';
+import { useTranslation } from '../hooks/useTranslation';
+import { describeError, TranslatableError } from '../utils/i18n';
+import { MessageKey } from '../locales/en';
+
+interface CameraBackgroundPickerProps {
+  background: CameraBackground;
+  onChange: (background: CameraBackground) => void;
+  compact?: boolean;
+}
+
+const MODES: { id: CameraBackgroundMode; label: MessageKey }[] = [
+  { id: 'none', label: 'background.mode.none' },
+  { id: 'blur', label: 'background.mode.blur' },
+  { id: 'color', label: 'background.mode.color' },
+  { id: 'image', label: 'background.mode.image' },
+  { id: 'chroma', label: 'background.mode.chroma' },
+];
+
+// Backdrops are kept in the camera config, so they are shrunk before being stored
+const MAX_IMAGE_WIDTH = 1280;
+
+const readImage = (file: File) => new Promise<string>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    const scale = Math.min(1, MAX_IMAGE_WIDTH / image.naturalWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/jpeg', 0.85));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new TranslatableError('error.readImage'));
+  };
+  image.src = url;
+});
+
+const CameraBackgroundPicker: React.FC<CameraBackgroundPickerProps> = ({ background, onChange, compact = false }) => {
+  const { t, language } = useTranslation();
+  const [segmentation, setSegmentation] = useState<SegmentationStatus>('checking');
+  const [imageError, setImageError] = useState<string | null>(null);
+  const update = (patch: Partial<CameraBackground>) => onChange({ ...background, ...patch });
+
+  useEffect(() => {
+    let cancelled = false;
+    checkSegmentationAssets().then(status => {
+      if (!cancelled) setSegmentation(status);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const unavailableReason = segmentation === 'checking'
+    ? t('background.modelChecking')
+    : segmentation === 'missing' ? t('background.modelMissing') : null;
+
+  const handleImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImageError(null);
+    readImage(file)
+      .then(image => update({ mode: 'image', image }))
+      .catch(err => {
+        console.error("Could not load background image:", err);
+        setImageError(describeError(language, err, 'error.readImage'));
+      });
+  };
+
+  const labelClass = `font-bold text-slate-500 uppercase ${compact ? 'text-[10px]' : 'text-xs'}`;
+  const sliderClass = `w-full bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500 ${compact ? 'h-1.5' : 'h-2'}`;
+
+  return (
+    <div className={compact ? 'space-y-2' : 'space-y-3'}>
+        <div className={`grid grid-cols-5 gap-1 ${compact ? 'bg-slate-800/50 p-1 rounded-lg' : ''}`}>
+            {MODES.map(mode => {
+                const reason = needsSegmentation(mode.id) ? unavailableReason : null;
+                return (
+                    <button
+                        key={mode.id}
+                        onClick={() => update({ mode: mode.id })}
+                        disabled={reason !== null}
+                        title={reason ?? undefined}
+                        className={`rounded font-bold transition-all leading-tight disabled:opacity-40 disabled:cursor-not-allowed ${compact ? 'py-1.5 text-[9px]' : 'py-2 text-[10px] rounded-lg border'} ${
+                            background.mode === mode.id
+                            ? (compact ? 'bg-indigo-600 text-white shadow' : 'bg-indigo-500/20 border-indigo-500 text-indigo-300')
+                            : (compact ? 'text-slate-400 hover:text-white' : 'bg-slate-800 border-transparent text-slate-500 hover:bg-slate-800/80')
+                        }`}
+                    >
+                        {t(mode.label)}
+                    </button>
+                );
+            })}
+        </div>
+
+        {segmentation === 'missing' && (
+            <p className={`text-amber-400/80 ${compact ? 'text-[10px]' : 'text-xs'}`}>{t('background.modelMissing')}</p>
+        )}
+
+        {background.mode === 'color' && (
+            <label className="flex items-center justify-between gap-2">
+                <span className={labelClass}>{t('background.backgroundColor')}</span>
+                <input type="color" value={background.color} onChange={(e) => update({ color: e.target.value })} className="w-8 h-6 bg-transparent cursor-pointer" />
+            </label>
+        )}
+
+        {background.mode === 'image' && (
+            <label className={`flex items-center gap-2 bg-slate-800 rounded-lg cursor-pointer hover:bg-slate-700 transition-colors ${compact ? 'px-2 py-1.5' : 'px-3 py-2'}`}>
+                {background.image
+                    ? <img src={background.image} alt="" className="w-8 h-5 object-cover rounded" />
+                    : <PhotoIcon className="w-4 h-4 text-slate-500" />}
+                <span className={`text-slate-300 ${compact ? 'text-[11px]' : 'text-sm'}`}>
+                    {background.image
+                        ? t('background.changeImage')
+                        : t('background.chooseAnImage')}
+                </span>
+                <input type="file" accept="image/*" onChange={handleImage} className="hidden" />
+            </label>
+        )}
+
+        {background.mode === 'image' && imageError && (
+            <p className={`text-red-400 ${compact ? 'text-[10px]' : 'text-xs'}`}>{imageError}</p>
+        )}
+
+        {background.mode === 'chroma' && (
+            <div className="space-y-2">
+                <label className="flex items-center justify-between gap-2">
+                    <span className={labelClass}>{t('background.keyColor')}</span>
+                    <input type="color" value={background.keyColor} onChange={(e) => update({ keyColor: e.target.value })} className="w-8 h-6 bg-transparent cursor-pointer" />
+                </label>
+                <div>
+                    <div className={`flex justify-between mb-1 ${labelClass}`}>
+                        <span>{t('background.tolerance')}</span>
+                        <span className="text-indigo-400">{Math.round(background.tolerance * 100)}%</span>
+                    </div>
+                    <input
+                        type="range" min="0" max="1" step="0.01"
+                        value={background.tolerance}
+                        onChange={(e) => update({ tolerance: parseFloat(e.target.value) })}
+                        className={sliderClass}
+                    />
+                </div>
+                <div>
+                    <div className={`flex justify-between mb-1 ${labelClass}`}>
+                        <span>{t('background.spill')}</span>
+                        <span className="text-indigo-400">{Math.round(background.spill * 100)}%</span>
+                    </div>
+                    <input
+                        type="range" min="0" max="1" step="0.01"
+                        value={background.spill}
+                        onChange={(e) => update({ spill: parseFloat(e.target.value) })}
+                        className={sliderClass}
+                    />
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default CameraBackgroundPicker;
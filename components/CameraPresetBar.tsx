@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { BookmarkIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { CameraConfig, CameraPreset, CameraStyle } from '../types';
+import { getCameraStyle, loadCameraPresets, saveCameraPresets } from '../services/cameraSettings';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CameraPresetBarProps {
+  cameraConfig: CameraConfig;
+  onApply: (style: CameraStyle) => void;
+}
+
+const sameStyle = (a: CameraStyle, b: CameraStyle) => JSON.stringify(a) === JSON.stringify(b);
+
+// Named snapshots of the bubble's look: one click brings back shape, size, position and border
+const CameraPresetBar: React.FC<CameraPresetBarProps> = ({ cameraConfig, onApply }) => {
+  const { t } = useTranslation();
+  const [presets, setPresets] = useState<CameraPreset[]>(loadCameraPresets);
+  const [name, setName] = useState<string | null>(null);
+  const current = getCameraStyle(cameraConfig);
+
+  const update = (next: CameraPreset[]) => {
+    setPresets(next);
+    saveCameraPresets(next);
+  };
+
+  const handleSave = () => {
+    const trimmed = name?.trim();
+    if (!trimmed) return;
+    // Saving under an existing name replaces that preset
+    const existing = presets.find(preset => preset.name.toLowerCase() === trimmed.toLowerCase());
+    const preset: CameraPreset = { id: existing?.id ?? crypto.randomUUID(), name: trimmed, style: current };
+    update(existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset]);
+    setName(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+        {presets.map(preset => {
+            const isActive = sameStyle(preset.style, current);
+            return (
+                <div
+                    key={preset.id}
+                    className={`flex items-center rounded-lg text-xs font-bold transition-colors ${isActive ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                    <button onClick={() => onApply(preset.style)} className="flex items-center gap-1.5 pl-2.5 pr-1.5 py-1.5">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: preset.style.borderColor }} />
+                        {preset.name}
+                    </button>
+                    <button
+                        onClick={() => update(presets.filter(p => p.id !== preset.id))}
+                        title={t('presets.delete')}
+                        className="pr-2 py-1.5 opacity-50 hover:opacity-100"
+                    >
+                        <XMarkIcon className="w-3 h-3" />
+                    </button>
+                </div>
+            );
+        })}
+
+        {name === null ? (
+            <button
+                onClick={() => setName('')}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-bold text-slate-500 border border-dashed border-slate-700 hover:text-white hover:border-slate-500 transition-colors"
+            >
+                <BookmarkIcon className="w-3 h-3" />
+                {t('presets.saveCurrent')}
+            </button>
+        ) : (
+            <div className="flex items-center gap-1">
+                <input
+                    autoFocus
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSave();
+                        if (e.key === 'Escape') setName(null);
+                    }}
+                    placeholder={t('presets.name')}
+                    maxLength={40}
+                    className="w-36 bg-slate-950 border border-slate-700 rounded-lg px-2.5 py-1.5 text-xs text-white focus:outline-none focus:border-indigo-500"
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={!name.trim()}
+                    className="px-2.5 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 transition-colors"
+                >
+                    {t('common.save')}
+                </button>
+                <button onClick={() => setName(null)} className="p-1.5 text-slate-500 hover:text-white">
+                    <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default CameraPresetBar;
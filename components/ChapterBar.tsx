@@ -0,0 +1,43 @@
+import React from 'react';
+import { Chapter } from '../types';
+import { formatTimecode } from './TrimEditor';
+
+interface ChapterBarProps {
+  chapters: Chapter[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+// Strip under the player: one clickable block per chapter, the playing one highlighted
+const ChapterBar: React.FC<ChapterBarProps> = ({ chapters, duration, currentTime, onSeek }) => {
+  const toPct = (time: number) => `${(time / duration) * 100}%`;
+
+  return (
+    <div className="relative h-7 flex gap-0.5">
+        {chapters.map((chapter, index) => {
+            const end = chapters[index + 1]?.start ?? duration;
+            const isActive = currentTime >= chapter.start && currentTime < end;
+            return (
+                <button
+                    key={index}
+                    onClick={() => onSeek(chapter.start)}
+                    title={`${formatTimecode(chapter.start)} ${chapter.title}`}
+                    className={`relative h-full rounded-md overflow-hidden px-2 text-left text-[11px] font-medium truncate transition-colors ${isActive ? 'bg-indigo-500/30 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-slate-200'}`}
+                    style={{ width: toPct(end - chapter.start) }}
+                >
+                    {isActive && (
+                        <span
+                            className="absolute inset-y-0 left-0 bg-indigo-500/30 pointer-events-none"
+                            style={{ width: `${((currentTime - chapter.start) / (end - chapter.start)) * 100}%` }}
+                        />
+                    )}
+                    <span className="relative">{chapter.title}</span>
+                </button>
+            );
+        })}
+    </div>
+  );
+};
+
+export default ChapterBar;
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhotoIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ClipFormat, ClipOptions, TimeRange } from '../types';
+import { exportClip, estimateClipSize } from '../services/clipExport';
+import { formatBytes } from '../utils/format';
+import { formatTimecode } from './TrimEditor';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ClipExporterProps {
+  source: Blob;
+  duration: number;
+  currentTime: number;
+  trimRange: TimeRange; // In/out points from the trim editor
+  fileName: string; // Without extension
+}
+
+const FPS_OPTIONS = [5, 10, 15, 20];
+const WIDTH_OPTIONS = [320, 480, 640, 800];
+const COLOR_OPTIONS = [32, 64, 128, 256];
+
+// Clips are meant for short repros; past this the file sizes get silly
+const LONG_CLIP_SECONDS = 15;
+const ESTIMATE_DEBOUNCE_MS = 400;
+
+const ClipExporter: React.FC<ClipExporterProps> = ({ source, duration, currentTime, trimRange, fileName }) => {
+  const { t, language } = useTranslation();
+  const [format, setFormat] = useState<ClipFormat>('gif');
+  const [range, setRange] = useState<TimeRange>(() => ({ start: trimRange.start, end: Math.min(trimRange.end, trimRange.start + 5) }));
+  const [fps, setFps] = useState(10);
+  const [width, setWidth] = useState(480);
+  const [colors, setColors] = useState(128);
+  const [dither, setDither] = useState(true);
+
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  const options: ClipOptions = { format, range, fps, width, colors, dither };
+  const clipLength = range.end - range.start;
+
+  // Re-estimate whenever the options settle
+  useEffect(() => {
+    if (clipLength <= 0) {
+      setEstimate(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsEstimating(true);
+      estimateClipSize(source, options, controller.signal)
+        .then(setEstimate)
+        .catch(err => {
+          if (!controller.signal.aborted) {
+            console.warn("Could not estimate clip size", err);
+            setEstimate(null);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsEstimating(false);
+        });
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source, format, range.start, range.end, fps, width, colors, dither]);
+
+  // Stop any export still running when the panel goes away
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
+  const setStart = (time: number) => setRange(prev => ({ start: Math.min(time, prev.end - 0.1), end: prev.end }));
+  const setEnd = (time: number) => setRange(prev => ({ start: prev.start, end: Math.max(time, prev.start + 0.1) }));
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setIsExporting(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+        const blob = await exportClip(source, options, { onProgress: setProgress, signal: controller.signal });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${fileName}.${format}`;
+        a.click();
+        setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (err: any) {
+        if (controller.signal.aborted) return;
+        console.error("Clip export failed:", err);
+        setError(err.message || t('error.clip'));
+    } finally {
+        exportAbortRef.current = null;
+        setIsExporting(false);
+    }
+  };
+
+  const selectClass = "w-full bg-slate-800 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50";
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest";
+  const smallButtonClass = "px-2 py-1 rounded-md text-[11px] font-bold bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-40";
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 p-6 shadow-xl space-y-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-white">
+            <PhotoIcon className="w-5 h-5 text-indigo-400" />
+            {t('clip.title')}
+        </h2>
+
+        <div className="grid grid-cols-2 gap-1 p-1 bg-slate-800 rounded-xl">
+            {(['gif', 'webp'] as ClipFormat[]).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setFormat(option)}
+                    disabled={isExporting}
+                    className={`py-1.5 rounded-lg text-sm font-bold transition-colors ${format === option ? 'bg-slate-950 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                    {option === 'gif' ? 'GIF' : 'WebP'}
+                </button>
+            ))}
+        </div>
+
+        {/* Range */}
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+                <span className={labelClass}>{t('clip.range')}</span>
+                <span className="text-xs font-mono text-slate-400">
+                    {formatTimecode(range.start)} – {formatTimecode(range.end)}
+                </span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+                <button onClick={() => setStart(currentTime)} disabled={isExporting} className={smallButtonClass}>
+                    [ {t('clip.startHere')}
+                </button>
+                <button onClick={() => setEnd(Math.min(duration, currentTime))} disabled={isExporting} className={smallButtonClass}>
+                    {t('clip.endHere')} ]
+                </button>
+                <button onClick={() => setRange(trimRange)} disabled={isExporting} className={smallButtonClass}>
+                    {t('clip.useTrim')}
+                </button>
+            </div>
+        </div>
+
+        {/* Options */}
+        <div className="grid grid-cols-3 gap-2">
+            <label className="space-y-1">
+                <span className={labelClass}>FPS</span>
+                <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={isExporting} className={selectClass}>
+                    {FPS_OPTIONS.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+            </label>
+            <label className="space-y-1">
+                <span className={labelClass}>{t('clip.width')}</span>
+                <select value={width} onChange={(e) => setWidth(Number(e.target.value))} disabled={isExporting} className={selectClass}>
+                    {WIDTH_OPTIONS.map(value => <option key={value} value={value}>{value}px</option>)}
+                </select>
+            </label>
+            <label className="space-y-1">
+                <span className={labelClass}>{t('clip.colors')}</span>
+                <select value={colors} onChange={(e) => setColors(Number(e.target.value))} disabled={isExporting} className={selectClass}>
+                    {COLOR_OPTIONS.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+            </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={dither} onChange={(e) => setDither(e.target.checked)} disabled={isExporting} className="accent-indigo-500" />
+            {t('clip.dither')}
+        </label>
+
+        {/* Estimate */}
+        <div className="text-xs text-slate-500">
+            {isEstimating
+                ? t('clip.estimating')
+                : estimate !== null
+                    ? t('clip.estimate', { size: formatBytes(estimate, language), count: Math.max(1, Math.round(clipLength * fps)) })
+                    : null}
+            {clipLength > LONG_CLIP_SECONDS && (
+                <p className="text-amber-400 mt-1">
+                    {t('clip.longWarning')}
+                </p>
+            )}
+        </div>
+
+        {isExporting ? (
+            <div className="space-y-2">
+                <div className="flex items-center justify-between text-xs text-slate-400">
+                    <span>{t('clip.creating')} {Math.round(progress * 100)}%</span>
+                    <button
+                        onClick={() => exportAbortRef.current?.abort()}
+                        className="flex items-center gap-1 text-slate-400 hover:text-red-400 transition-colors"
+                    >
+                        <XMarkIcon className="w-3.5 h-3.5" />
+                        {t('common.cancel')}
+                    </button>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-[width]" style={{ width: `${progress * 100}%` }} />
+                </div>
+            </div>
+        ) : (
+            <button
+                onClick={handleExport}
+                disabled={clipLength <= 0}
+                className="w-full flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 text-white font-bold py-2.5 px-4 rounded-xl transition-colors disabled:opacity-40"
+            >
+                <PhotoIcon className="w-4 h-4" />
+                {t('clip.export', { format: format.toUpperCase() })}
+            </button>
+        )}
+        {error && <p className="text-xs text-red-400 text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default ClipExporter;
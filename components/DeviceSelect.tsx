@@ -0,0 +1,37 @@
+import React from 'react';
+import { VideoCameraIcon, MicrophoneIcon } from '@heroicons/react/24/solid';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface DeviceSelectProps {
+  kind: 'camera' | 'microphone';
+  devices: MediaDeviceInfo[];
+  value: string | null;
+  onChange: (deviceId: string | null) => void;
+  defaultLabel: string;
+  compact?: boolean;
+}
+
+const DeviceSelect: React.FC<DeviceSelectProps> = ({ kind, devices, value, onChange, defaultLabel, compact = false }) => {
+  const { t } = useTranslation();
+  const Icon = kind === 'camera' ? VideoCameraIcon : MicrophoneIcon;
+
+  return (
+    <div className={`flex items-center gap-2 bg-slate-800 rounded-lg ${compact ? 'px-2 py-1' : 'px-3 py-2'}`}>
+        <Icon className={`flex-shrink-0 text-slate-500 ${compact ? 'w-3 h-3' : 'w-4 h-4'}`} />
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            className={`flex-1 min-w-0 bg-transparent text-slate-200 outline-none cursor-pointer truncate ${compact ? 'text-[11px]' : 'text-sm'}`}
+        >
+            <option value="" className="bg-slate-900">{defaultLabel}</option>
+            {devices.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId} className="bg-slate-900">
+                    {device.label || t(kind === 'camera' ? 'devices.camera' : 'devices.microphone', { index: index + 1 })}
+                </option>
+            ))}
+        </select>
+    </div>
+  );
+};
+
+export default DeviceSelect;
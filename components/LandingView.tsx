@@ -1,47 +1,77 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { VideoCameraIcon, ExclamationTriangleIcon, SparklesIcon } from '@heroicons/react/24/solid';
-import { CameraConfig, CameraShape, Language } from '../types';
+import { VideoCameraIcon, ExclamationTriangleIcon, SparklesIcon, MicrophoneIcon, ComputerDesktopIcon, SpeakerXMarkIcon, SpeakerWaveIcon, RectangleStackIcon, LifebuoyIcon, Cog6ToothIcon, CommandLineIcon, SwatchIcon, LanguageIcon } from '@heroicons/react/24/solid';
+import { CameraConfig, CameraShape, Language, RecorderConfig, DeviceSelection, SessionManifest, ShortcutBindings, AudioPreset, BrandProfile, CameraStyle } from '../types';
+import { buildCameraConstraints } from '../utils/mediaConstraints';
+import { formatDateTime, formatDuration } from '../utils/format';
+import { LANGUAGES } from '../utils/i18n';
+import DeviceSelect from './DeviceSelect';
+import AiSettingsDialog from './AiSettingsDialog';
+import RegionPicker from './RegionPicker';
+import QualityPicker from './QualityPicker';
+import CameraBackgroundPicker from './CameraBackgroundPicker';
+import ShortcutSettingsDialog from './ShortcutSettingsDialog';
+import BrandProfileDialog from './BrandProfileDialog';
+import CameraPresetBar from './CameraPresetBar';
+import { AUDIO_PRESETS, AUDIO_PRESET_IDS } from '../services/audioProcessing';
+import { applyCameraStyle, CAMERA_SHAPE_LABELS } from '../services/cameraSettings';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useTranslation } from '../hooks/useTranslation';
+import { withShortcut } from '../utils/shortcuts';
+import { MessageKey } from '../locales/en';
 
 interface LandingViewProps {
-  onStart: () => void;
+  onStart: (withCountdown?: boolean) => void;
   error?: string | null;
   cameraConfig: CameraConfig;
   onUpdateConfig: (config: CameraConfig) => void;
-  language: Language;
   onSetLanguage: (lang: Language) => void;
+  recorderConfig: RecorderConfig;
+  onUpdateRecorderConfig: (config: RecorderConfig) => void;
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  deviceSelection: DeviceSelection;
+  onSelectCamera: (deviceId: string | null) => void;
+  onSelectMicrophone: (deviceId: string | null) => void;
+  onDevicesRefresh: () => void;
+  onOpenLibrary: () => void;
+  recoverableSessions: SessionManifest[];
+  onRecoverSession: (session: SessionManifest) => void;
+  onDiscardSession: (session: SessionManifest) => void;
+  shortcuts: ShortcutBindings;
+  onSaveShortcuts: (bindings: ShortcutBindings) => void;
+  colors: string[]; // Border swatches, from the brand profile when one is active
+  brandProfile: BrandProfile | null;
+  onApplyBrandProfile: (profile: BrandProfile | null) => void;
 }
 
-const COLORS = [
-    '#6366f1', // Indigo
-    '#ec4899', // Pink
-    '#06b6d4', // Cyan
-    '#10b981', // Emerald
-    '#f59e0b', // Amber
-    '#ffffff', // White
+type RecordingModeId = 'screen-camera' | 'screen' | 'camera' | 'audio';
+
+const RECORDING_MODES: { id: RecordingModeId; showScreen: boolean; showCamera: boolean; label: MessageKey }[] = [
+    { id: 'screen-camera', showScreen: true, showCamera: true, label: 'landing.mode.screenCamera' },
+    { id: 'screen', showScreen: true, showCamera: false, label: 'landing.mode.screen' },
+    { id: 'camera', showScreen: false, showCamera: true, label: 'landing.mode.camera' },
+    { id: 'audio', showScreen: false, showCamera: false, label: 'landing.mode.audio' },
 ];
 
-const FlagIcon: React.FC<{ lang: Language }> = ({ lang }) => {
-    if (lang === 'it') {
-        return (
-            <svg className="w-6 h-6 rounded-full object-cover shadow-sm border border-white/10" viewBox="0 0 640 480">
-                <g fillRule="evenodd" strokeWidth="1pt">
-                    <path fill="#fff" d="M0 0h640v480H0z"/>
-                    <path fill="#009246" d="M0 0h213.3v480H0z"/>
-                    <path fill="#ce2b37" d="M426.7 0H640v480H426.7z"/>
-                </g>
-            </svg>
-        );
+const getModeId = (config: RecorderConfig): RecordingModeId => {
+    const mode = RECORDING_MODES.find(m => m.showScreen === config.showScreen && m.showCamera === config.showCamera);
+    return mode ? mode.id : 'screen-camera';
+};
+
+const ModeIcon: React.FC<{ mode: RecordingModeId }> = ({ mode }) => {
+    switch (mode) {
+        case 'screen-camera': return <div className="flex -space-x-1"><ComputerDesktopIcon className="w-5 h-5" /><VideoCameraIcon className="w-4 h-4 mt-2" /></div>;
+        case 'screen': return <ComputerDesktopIcon className="w-5 h-5" />;
+        case 'camera': return <VideoCameraIcon className="w-5 h-5" />;
+        case 'audio': return <MicrophoneIcon className="w-5 h-5" />;
     }
-    return (
-        <svg className="w-6 h-6 rounded-full object-cover shadow-sm border border-white/10" viewBox="0 0 640 480">
-            <path fill="#012169" d="M0 0h640v480H0z"/>
-            <path fill="#FFF" d="M75 0l244 181L562 0h78v62L400 241l240 178v61h-80L320 301 81 480H0v-60l239-178L0 64V0h75z"/>
-            <path fill="#C8102E" d="M424 294l216 163v23H506L312 336 120 480H0v-23l213-163h211zm-114-85L551 0h89L393 183l-83 26zm-94 62L0 429v-86l122-90 94 18zM328 0l-92 69-115-88 109-18 98 37zM102 226L0 150V64l184 138-82 24z"/>
-            <path fill="#FFF" d="M250 0h140v480H250zM0 170h640v140H0z"/>
-            <path fill="#C8102E" d="M280 0h80v480h-80zM0 200h640v80H0z"/>
-        </svg>
-    );
+};
+
+const PRESET_HINTS: Record<AudioPreset, MessageKey> = {
+    voice: 'landing.presetHint.voice',
+    podcast: 'landing.presetHint.podcast',
+    raw: 'landing.presetHint.raw',
 };
 
 const LandingView: React.FC<LandingViewProps> = ({ 
@@ -49,13 +79,34 @@ const LandingView: React.FC<LandingViewProps> = ({
     error, 
     cameraConfig, 
     onUpdateConfig,
-    language,
-    onSetLanguage
+    onSetLanguage,
+    recorderConfig,
+    onUpdateRecorderConfig,
+    cameras,
+    microphones,
+    deviceSelection,
+    onSelectCamera,
+    onSelectMicrophone,
+    onDevicesRefresh,
+    onOpenLibrary,
+    recoverableSessions,
+    onRecoverSession,
+    onDiscardSession,
+    shortcuts,
+    onSaveShortcuts,
+    colors,
+    brandProfile,
+    onApplyBrandProfile
 }) => {
+  const { t, language } = useTranslation();
   const videoPreviewRef = useRef<HTMLVideoElement>(null);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [previewBounds, setPreviewBounds] = useState({ width: 0, height: 0 });
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [showShortcutSettings, setShowShortcutSettings] = useState(false);
+  const [showBrandProfile, setShowBrandProfile] = useState(false);
 
   // Track container size to render preview exactly like the real recorder
   useEffect(() => {
@@ -73,19 +124,30 @@ const LandingView: React.FC<LandingViewProps> = ({
       return () => observer.disconnect();
   }, []);
 
+  const modeId = getModeId(recorderConfig);
+  const { showCamera, showScreen, audioEnabled } = recorderConfig;
+  // An audio-only recording with the microphone muted would record nothing
+  const canStart = (showScreen || showCamera || audioEnabled) && !(showCamera && hasPermission === false);
+
+  // The settings dialog captures keys itself while open, and the brand dialog has text fields
+  useShortcuts(shortcuts, { start: () => onStart(true) }, canStart && !showShortcutSettings && !showBrandProfile);
+
+  // Only ask for the camera when the selected mode actually uses it
   useEffect(() => {
+    if (!showCamera) return;
+
     let stream: MediaStream | null = null;
 
     const initCamera = async () => {
         try {
             stream = await navigator.mediaDevices.getUserMedia({ 
-                video: { width: 640, height: 480, facingMode: 'user' },
+                video: buildCameraConstraints(deviceSelection.cameraId),
                 audio: false
             });
-            if (videoPreviewRef.current) {
-                videoPreviewRef.current.srcObject = stream;
-            }
+            setPreviewStream(stream);
             setHasPermission(true);
+            // Device labels are only exposed once a permission has been granted
+            onDevicesRefresh();
         } catch (err) {
             console.error("Camera permission denied for preview", err);
             setHasPermission(false);
@@ -98,13 +160,26 @@ const LandingView: React.FC<LandingViewProps> = ({
         if (stream) {
             stream.getTracks().forEach(track => track.stop());
         }
+        setPreviewStream(null);
     };
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showCamera, deviceSelection.cameraId]);
+
+  // The preview <video> moves between the bubble and the full frame when the mode changes
+  useEffect(() => {
+    if (videoPreviewRef.current) {
+        videoPreviewRef.current.srcObject = previewStream;
+    }
+  }, [previewStream, showScreen]);
 
   const updateConfig = (key: keyof CameraConfig, value: any) => {
     onUpdateConfig({ ...cameraConfig, [key]: value });
   };
 
+  const applyStyle = (style: CameraStyle) => {
+    onUpdateConfig(applyCameraStyle(cameraConfig, style));
+  };
+
   // Calculate Pixel Size based on Min Dimension (same logic as recorder)
   const minDim = Math.min(previewBounds.width || 100, previewBounds.height || 100);
   const cameraPixelSize = minDim * cameraConfig.size;
@@ -121,24 +196,72 @@ const LandingView: React.FC<LandingViewProps> = ({
   return (
     <div className="min-h-screen bg-slate-950 text-white flex items-center justify-center p-6 relative">
       
-      {/* Language Selector (Top Right) */}
-      <div className="absolute top-6 right-6 z-20 flex items-center gap-2 bg-slate-900/50 backdrop-blur-md p-1.5 rounded-full border border-slate-800 shadow-lg">
-        <button 
-            onClick={() => onSetLanguage('it')}
-            className={`flex items-center gap-2 px-3 py-1.5 rounded-full transition-all text-sm font-medium ${language === 'it' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+      {/* Library (Top Left) */}
+      <button
+        onClick={onOpenLibrary}
+        className="absolute top-6 left-6 z-20 flex items-center gap-2 px-4 py-2.5 bg-slate-900/50 backdrop-blur-md rounded-full border border-slate-800 shadow-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800 transition-all"
+      >
+        <RectangleStackIcon className="w-4 h-4" />
+        {t('library.title')}
+      </button>
+
+      {/* Brand + Shortcuts + AI Settings + Language Selector (Top Right) */}
+      <div className="absolute top-6 right-6 z-20 flex items-center gap-2">
+        <button
+          onClick={() => setShowBrandProfile(true)}
+          title={brandProfile ? brandProfile.name : t('brand.title')}
+          className={`p-3 bg-slate-900/50 backdrop-blur-md rounded-full border shadow-lg hover:text-white hover:bg-slate-800 transition-all ${brandProfile ? 'border-indigo-500/50 text-indigo-300' : 'border-slate-800 text-slate-400'}`}
+        >
+          <SwatchIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setShowShortcutSettings(true)}
+          title={t('shortcuts.title')}
+          className="p-3 bg-slate-900/50 backdrop-blur-md rounded-full border border-slate-800 shadow-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-all"
         >
-            <FlagIcon lang="it" />
-            <span>ITA</span>
+          <CommandLineIcon className="w-4 h-4" />
         </button>
-        <button 
-            onClick={() => onSetLanguage('en')}
-            className={`flex items-center gap-2 px-3 py-1.5 rounded-full transition-all text-sm font-medium ${language === 'en' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+        <button
+          onClick={() => setShowAiSettings(true)}
+          title={t('ai.title')}
+          className="p-3 bg-slate-900/50 backdrop-blur-md rounded-full border border-slate-800 shadow-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-all"
         >
-            <FlagIcon lang="en" />
-            <span>ENG</span>
+          <Cog6ToothIcon className="w-4 h-4" />
         </button>
+        <label
+          title={t('landing.language')}
+          className="flex items-center gap-2 pl-3 pr-2 bg-slate-900/50 backdrop-blur-md rounded-full border border-slate-800 shadow-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-all"
+        >
+          <LanguageIcon className="w-4 h-4" />
+          <select
+              value={language}
+              onChange={(e) => onSetLanguage(e.target.value as Language)}
+              className="py-2.5 bg-transparent text-sm font-medium outline-none cursor-pointer"
+          >
+              {LANGUAGES.map(({ id, name }) => (
+                  <option key={id} value={id} className="bg-slate-900">{name}</option>
+              ))}
+          </select>
+        </label>
       </div>
 
+      {showAiSettings && <AiSettingsDialog onClose={() => setShowAiSettings(false)} />}
+      {showShortcutSettings && (
+        <ShortcutSettingsDialog
+            bindings={shortcuts}
+            onSave={onSaveShortcuts}
+            onClose={() => setShowShortcutSettings(false)}
+        />
+      )}
+      {showBrandProfile && (
+        <BrandProfileDialog
+            profile={brandProfile}
+            cameraConfig={cameraConfig}
+            onApply={onApplyBrandProfile}
+            onClose={() => setShowBrandProfile(false)}
+        />
+      )}
+
       <div className="max-w-5xl w-full grid grid-cols-1 lg:grid-cols-2 gap-12 items-center">
         
         {/* Left Side: Intro & Controls */}
@@ -148,9 +271,7 @@ const LandingView: React.FC<LandingViewProps> = ({
                     LoomClone AI
                 </h1>
                 <p className="text-slate-400 text-lg">
-                    {language === 'it' 
-                        ? "Configura il tuo studio. Quando sei pronto, inizia a condividere lo schermo." 
-                        : "Configure your recording studio. When you're ready, start sharing your screen."}
+                    {t('landing.intro')}
                 </p>
             </div>
 
@@ -158,19 +279,184 @@ const LandingView: React.FC<LandingViewProps> = ({
                 <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3 text-red-200">
                     <ExclamationTriangleIcon className="w-6 h-6 flex-shrink-0 text-red-500" />
                     <div>
-                        <p className="font-bold text-red-400">{language === 'it' ? "Registrazione Fallita" : "Recording Failed"}</p>
+                        <p className="font-bold text-red-400">{t('landing.failed')}</p>
                         <p className="text-sm opacity-80">{error}</p>
                     </div>
                 </div>
             )}
 
+            {/* Unfinished recordings from a crash or reload */}
+            {recoverableSessions.map(session => (
+                <div key={session.id} className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 flex items-center gap-3 text-amber-100">
+                    <LifebuoyIcon className="w-6 h-6 flex-shrink-0 text-amber-400" />
+                    <div className="flex-1 min-w-0">
+                        <p className="font-bold text-amber-300">{t('landing.unfinished')}</p>
+                        <p className="text-sm opacity-80">
+                            {formatDateTime(session.startedAt, language)} • {formatDuration(session.duration)}
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => onDiscardSession(session)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold text-amber-200/70 hover:text-white hover:bg-white/5 transition-colors"
+                    >
+                        {t('landing.discard')}
+                    </button>
+                    <button
+                        onClick={() => onRecoverSession(session)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-amber-500 text-slate-900 hover:bg-amber-400 transition-colors"
+                    >
+                        {t('landing.recover')}
+                    </button>
+                </div>
+            ))}
+
             {/* Configuration Controls */}
             <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 space-y-6 backdrop-blur-sm">
-                
+
+                {/* Recording Mode */}
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                            {t('landing.mode')}
+                        </label>
+                        <button
+                            onClick={() => onUpdateRecorderConfig({ ...recorderConfig, audioEnabled: !audioEnabled })}
+                            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-bold transition-all ${audioEnabled ? 'text-slate-400 hover:text-white hover:bg-slate-800' : 'bg-amber-500/20 text-amber-300'}`}
+                        >
+                            {audioEnabled ? <SpeakerWaveIcon className="w-4 h-4" /> : <SpeakerXMarkIcon className="w-4 h-4" />}
+                            {audioEnabled
+                                ? t('landing.audioOn')
+                                : t('landing.muted')}
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                        {RECORDING_MODES.map(mode => (
+                            <button
+                                key={mode.id}
+                                onClick={() => onUpdateRecorderConfig({ ...recorderConfig, showScreen: mode.showScreen, showCamera: mode.showCamera })}
+                                className={`py-3 px-1 rounded-xl border transition-all flex flex-col items-center gap-2 ${
+                                    modeId === mode.id
+                                    ? 'bg-indigo-500/20 border-indigo-500 text-indigo-300'
+                                    : 'bg-slate-800 border-transparent text-slate-500 hover:bg-slate-800/80'
+                                }`}
+                            >
+                                <ModeIcon mode={mode.id} />
+                                <span className="text-[10px] font-bold text-center leading-tight">{t(mode.label)}</span>
+                            </button>
+                        ))}
+                    </div>
+                    {modeId === 'audio' && !audioEnabled && (
+                        <p className="text-xs text-amber-400">
+                            {t('landing.audioOnlyHint')}
+                        </p>
+                    )}
+                </div>
+
+                {/* Device Pickers */}
+                {(showCamera || audioEnabled) && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                            {t('landing.devices')}
+                        </label>
+                        <div className={`grid gap-3 ${showCamera && audioEnabled ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                            {showCamera && (
+                                <DeviceSelect
+                                    kind="camera"
+                                    devices={cameras}
+                                    value={deviceSelection.cameraId}
+                                    onChange={onSelectCamera}
+                                    defaultLabel={t('landing.defaultCamera')}
+                                />
+                            )}
+                            {audioEnabled && (
+                                <DeviceSelect
+                                    kind="microphone"
+                                    devices={microphones}
+                                    value={deviceSelection.microphoneId}
+                                    onChange={onSelectMicrophone}
+                                    defaultLabel={t('landing.defaultMicrophone')}
+                                />
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {/* Microphone Processing */}
+                {audioEnabled && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                            {t('landing.micProcessing')}
+                        </label>
+                        <div className="grid grid-cols-3 gap-1 p-1 bg-slate-900 rounded-xl border border-slate-800">
+                            {AUDIO_PRESET_IDS.map(preset => (
+                                <button
+                                    key={preset}
+                                    onClick={() => onUpdateRecorderConfig({ ...recorderConfig, audioPreset: preset })}
+                                    className={`py-2 rounded-lg text-sm font-bold transition-colors ${recorderConfig.audioPreset === preset ? 'bg-slate-800 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {t(AUDIO_PRESETS[preset].label)}
+                                    <span className="block text-[10px] font-medium text-slate-500">{t(PRESET_HINTS[preset])}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Camera Background */}
+                {showCamera && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                            {t('landing.cameraBackground')}
+                        </label>
+                        <CameraBackgroundPicker
+                            background={cameraConfig.background}
+                            onChange={(background) => updateConfig('background', background)}
+                        />
+                    </div>
+                )}
+
+                {/* Recording Quality (the audio-only placeholder frame does not need it) */}
+                {(showScreen || showCamera) && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                            {t('landing.quality')}
+                        </label>
+                        <QualityPicker
+                            quality={recorderConfig.quality}
+                            onChange={(quality) => onUpdateRecorderConfig({ ...recorderConfig, quality })}
+                            hasAudio={audioEnabled}
+                        />
+                    </div>
+                )}
+
+                {/* Capture Region */}
+                {showScreen && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                            {t('landing.captureArea')}
+                        </label>
+                        <RegionPicker
+                            region={recorderConfig.captureRegion}
+                            onChange={(captureRegion) => onUpdateRecorderConfig({ ...recorderConfig, captureRegion })}
+                        />
+                    </div>
+                )}
+
+                {/* Camera styling only applies to the bubble drawn over the screen */}
+                {showScreen && showCamera && (
+                <>
+                {/* Saved Styles */}
+                <div className="space-y-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                        {t('landing.savedStyles')}
+                    </label>
+                    <CameraPresetBar cameraConfig={cameraConfig} onApply={applyStyle} />
+                </div>
+
                 {/* Shape Selector */}
                 <div className="space-y-2">
                     <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
-                        {language === 'it' ? "Forma Fotocamera" : "Camera Shape"}
+                        {t('landing.cameraShape')}
                     </label>
                     <div className="flex gap-3">
                         {(['circle', 'square', 'rect'] as CameraShape[]).map(shape => (
@@ -184,7 +470,7 @@ const LandingView: React.FC<LandingViewProps> = ({
                                 }`}
                             >
                                 <div className={`w-6 h-6 border-2 ${cameraConfig.shape === shape ? 'border-indigo-400' : 'border-slate-500'} ${shape === 'circle' ? 'rounded-full' : shape === 'square' ? 'rounded-sm' : 'rounded-lg'}`} />
-                                <span className="text-xs font-bold capitalize">{shape}</span>
+                                <span className="text-xs font-bold">{t(CAMERA_SHAPE_LABELS[shape])}</span>
                             </button>
                         ))}
                     </div>
@@ -194,7 +480,7 @@ const LandingView: React.FC<LandingViewProps> = ({
                 <div className="grid grid-cols-2 gap-6">
                     <div className="space-y-2">
                         <div className="flex justify-between text-xs">
-                            <span className="font-bold text-slate-500 uppercase">{language === 'it' ? "Dimensione" : "Size"}</span>
+                            <span className="font-bold text-slate-500 uppercase">{t('overlay.size')}</span>
                             <span className="text-indigo-400">{Math.round(cameraConfig.size * 100)}%</span>
                         </div>
                         <input 
@@ -206,7 +492,7 @@ const LandingView: React.FC<LandingViewProps> = ({
                     </div>
                     <div className="space-y-2">
                         <div className="flex justify-between text-xs">
-                            <span className="font-bold text-slate-500 uppercase">{language === 'it' ? "Bordo" : "Border"}</span>
+                            <span className="font-bold text-slate-500 uppercase">{t('landing.border')}</span>
                             <span className="text-indigo-400">{cameraConfig.borderWidth}px</span>
                         </div>
                         <input 
@@ -221,10 +507,10 @@ const LandingView: React.FC<LandingViewProps> = ({
                 {/* Color Picker */}
                 <div className="space-y-2">
                     <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
-                        {language === 'it' ? "Colore Bordo" : "Border Color"}
+                        {t('landing.borderColor')}
                     </label>
                     <div className="flex gap-3">
-                        {COLORS.map(color => (
+                        {colors.map(color => (
                             <button
                                 key={color}
                                 onClick={() => updateConfig('borderColor', color)}
@@ -236,16 +522,25 @@ const LandingView: React.FC<LandingViewProps> = ({
                         ))}
                     </div>
                 </div>
+                </>
+                )}
             </div>
 
             <button
-                onClick={onStart}
-                disabled={hasPermission === false}
+                onClick={() => onStart()}
+                disabled={!canStart}
+                title={withShortcut(t('landing.start'), shortcuts.start)}
                 className="w-full py-4 bg-gradient-to-r from-indigo-600 to-indigo-500 hover:from-indigo-500 hover:to-indigo-400 text-white font-bold rounded-2xl text-lg shadow-xl shadow-indigo-500/20 hover:shadow-indigo-500/30 transform transition-all hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
             >
                 <VideoCameraIcon className="w-6 h-6" />
-                {language === 'it' ? "Avvia Registrazione" : "Start Recording"}
+                {t('landing.start')}
             </button>
+            {shortcuts.start && (
+                <p className="text-center text-xs text-slate-500">
+                    <kbd className="font-mono font-bold text-slate-400">{shortcuts.start}</kbd>
+                    {' '}{t('landing.countdownHint')}
+                </p>
+            )}
         </div>
 
         {/* Right Side: Live Preview */}
@@ -273,8 +568,36 @@ const LandingView: React.FC<LandingViewProps> = ({
                 </div>
             </div>
 
+            {/* Camera-only and audio-only modes cover the mock screen entirely */}
+            {!showScreen && (
+                <div className="absolute inset-0 z-10 bg-slate-950 flex items-center justify-center">
+                    {showCamera ? (
+                        hasPermission === false ? (
+                            <VideoCameraIcon className="w-12 h-12 text-slate-600" />
+                        ) : (
+                            <video
+                                ref={videoPreviewRef}
+                                autoPlay
+                                muted
+                                playsInline
+                                className="w-full h-full object-cover"
+                            />
+                        )
+                    ) : (
+                        <div className="flex flex-col items-center gap-4 text-slate-500">
+                            <MicrophoneIcon className="w-12 h-12" style={{ color: cameraConfig.borderColor }} />
+                            <div className="flex items-end gap-1 h-8">
+                                {[0.4, 0.8, 0.5, 1, 0.6, 0.9, 0.3].map((h, i) => (
+                                    <div key={i} className="w-1.5 rounded-full animate-pulse" style={{ height: `${h * 100}%`, backgroundColor: cameraConfig.borderColor, animationDelay: `${i * 120}ms` }} />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* The Camera Bubble Preview */}
-            {previewBounds.width > 0 && (
+            {previewBounds.width > 0 && showScreen && showCamera && (
                 <div 
                     className="absolute z-10 overflow-hidden transition-all duration-300 ease-out shadow-2xl"
                     style={{
@@ -307,7 +630,7 @@ const LandingView: React.FC<LandingViewProps> = ({
             {/* Instructions overlay */}
             <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
                 <span className="bg-black/50 backdrop-blur px-4 py-2 rounded-full text-sm font-medium border border-white/10 flex items-center gap-2">
-                    <SparklesIcon className="w-4 h-4 text-indigo-400" /> {language === 'it' ? "Anteprima" : "Preview Mode"}
+                    <SparklesIcon className="w-4 h-4 text-indigo-400" /> {t('landing.preview')}
                 </span>
             </div>
         </div>
@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VideoCameraIcon, MagnifyingGlassIcon, TrashIcon, PencilSquareIcon, PlusIcon, FilmIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { LibraryEntry } from '../types';
+import { listRecordings, updateRecording, deleteRecording, getStorageEstimate } from '../services/libraryStore';
+import { formatBytes, formatDateTime, formatDuration } from '../utils/format';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface LibraryViewProps {
+  onOpen: (entry: LibraryEntry) => void;
+  onNewRecording: () => void;
+}
+
+const LibraryView: React.FC<LibraryViewProps> = ({ onOpen, onNewRecording }) => {
+  const { t, language } = useTranslation();
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+        const [list, estimate] = await Promise.all([listRecordings(), getStorageEstimate()]);
+        setEntries(list);
+        setStorage(estimate);
+    } catch (err: any) {
+        console.error("Could not load library:", err);
+        setLoadError(err.message || t('error.library'));
+        setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const filtered = useMemo(() => {
+    if (!entries) return [];
+    const needle = query.trim().toLowerCase();
+    if (!needle) return entries;
+    return entries.filter(entry =>
+        entry.title.toLowerCase().includes(needle)
+        || entry.description.toLowerCase().includes(needle)
+        || !!entry.tags?.some(tag => tag.toLowerCase().includes(needle))
+    );
+  }, [entries, query]);
+
+  const startRename = (entry: LibraryEntry) => {
+    setRenamingId(entry.id);
+    setRenameValue(entry.title);
+  };
+
+  const setTitle = (id: string, title: string) => {
+    setEntries(prev => prev && prev.map(entry => entry.id === id ? { ...entry, title } : entry));
+  };
+
+  // Both show the change straight away and put the entry back if the write fails
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const id = renamingId;
+    const title = renameValue.trim();
+    const previous = entries?.find(entry => entry.id === id)?.title;
+    setRenamingId(null);
+    if (!title || previous === undefined || title === previous) return;
+    setTitle(id, title);
+    setLoadError(null);
+    try {
+        await updateRecording(id, { title });
+    } catch (err: any) {
+        console.error("Could not rename recording:", err);
+        setTitle(id, previous);
+        setLoadError(err.message || t('error.rename'));
+    }
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    const confirmed = window.confirm(t('library.deleteConfirm', { title: entry.title || t('common.newRecording') }));
+    if (!confirmed) return;
+    const previous = entries;
+    setEntries(prev => prev && prev.filter(e => e.id !== entry.id));
+    setLoadError(null);
+    try {
+        await deleteRecording(entry.id);
+    } catch (err: any) {
+        console.error("Could not delete recording:", err);
+        setEntries(previous);
+        setLoadError(err.message || t('error.delete'));
+        return;
+    }
+    refresh();
+  };
+
+  const usagePct = storage && storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <div className="h-screen bg-slate-950 text-white flex flex-col">
+      {/* Header */}
+      <header className="border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between gap-6">
+            <div className="flex items-center gap-2 text-indigo-400">
+                <VideoCameraIcon className="w-6 h-6" />
+                <span className="font-bold tracking-tight">LoomClone AI</span>
+            </div>
+            <button
+                onClick={onNewRecording}
+                className="text-slate-400 hover:text-white text-sm font-medium flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-white/5 transition-colors"
+             >
+                <PlusIcon className="w-4 h-4" />
+                {t('common.newRecording')}
+             </button>
+        </div>
+      </header>
+
+      <div className="flex-1 p-6 md:p-10 flex flex-col items-center overflow-y-auto">
+        <div className="w-full max-w-6xl space-y-8">
+
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-6">
+                <div>
+                    <h1 className="text-3xl font-extrabold">{t('library.title')}</h1>
+                    {storage && (
+                        <div className="mt-3 w-64 space-y-1">
+                            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-indigo-500" style={{ width: `${usagePct}%` }} />
+                            </div>
+                            <p className="text-xs text-slate-500">
+                                {t('library.storage', { used: formatBytes(storage.usage, language), quota: formatBytes(storage.quota, language) })}
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 md:w-80">
+                    <MagnifyingGlassIcon className="w-4 h-4 text-slate-500" />
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder={t('library.search')}
+                        className="flex-1 bg-transparent text-sm outline-none placeholder:text-slate-600"
+                    />
+                </div>
+            </div>
+
+            {loadError && <p className="text-sm text-red-400">{loadError}</p>}
+
+            {entries === null ? (
+                <div className="flex justify-center py-20">
+                    <div className="w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+            ) : filtered.length === 0 ? (
+                <div className="text-center py-20 text-slate-600 space-y-3">
+                    <FilmIcon className="w-12 h-12 mx-auto" />
+                    <p className="text-sm">
+                        {entries.length === 0
+                            ? t('library.empty')
+                            : t('library.noMatches')}
+                    </p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {filtered.map(entry => (
+                        <div key={entry.id} className="group bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden shadow-xl hover:border-slate-700 transition-colors">
+                            <button onClick={() => onOpen(entry)} className="relative block w-full aspect-video bg-black">
+                                {entry.thumbnail ? (
+                                    <img src={entry.thumbnail} alt="" className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity" />
+                                ) : (
+                                    <FilmIcon className="w-10 h-10 text-slate-700 mx-auto" />
+                                )}
+                                <span className="absolute bottom-2 right-2 text-[11px] font-mono bg-black/70 px-1.5 py-0.5 rounded">
+                                    {formatDuration(entry.duration)}
+                                </span>
+                            </button>
+
+                            <div className="p-4 space-y-2">
+                                {renamingId === entry.id ? (
+                                    <div className="flex items-center gap-1">
+                                        <input
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename();
+                                                if (e.key === 'Escape') setRenamingId(null);
+                                            }}
+                                            className="flex-1 min-w-0 bg-slate-800 rounded-lg px-2 py-1 text-sm outline-none ring-1 ring-indigo-500"
+                                        />
+                                        <button onClick={commitRename} className="p-1 text-indigo-400 hover:text-white"><CheckIcon className="w-4 h-4" /></button>
+                                        <button onClick={() => setRenamingId(null)} className="p-1 text-slate-500 hover:text-white"><XMarkIcon className="w-4 h-4" /></button>
+                                    </div>
+                                ) : (
+                                    <h3 className="font-semibold leading-snug truncate" title={entry.title || undefined}>
+                                        {entry.title || <span className="text-slate-500">{t('common.newRecording')}</span>}
+                                    </h3>
+                                )}
+                                <p className="text-xs text-slate-500 line-clamp-2">{entry.description}</p>
+                                <div className="flex items-center justify-between pt-1">
+                                    <span className="text-[11px] text-slate-600">
+                                        {formatDateTime(entry.createdAt, language)} • {formatBytes(entry.blob.size, language)}
+                                    </span>
+                                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                        <button
+                                            onClick={() => startRename(entry)}
+                                            title={t('library.rename')}
+                                            className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-slate-800"
+                                        >
+                                            <PencilSquareIcon className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(entry)}
+                                            title={t('common.delete')}
+                                            className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10"
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryView;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { BookmarkIcon, ArrowDownTrayIcon, ClipboardDocumentIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Marker } from '../types';
+import { markersToChapters, toChapterTimestamps, toChapterVtt } from '../utils/captions';
+import { formatTimecode } from './TrimEditor';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface MarkerPanelProps {
+  markers: Marker[];
+  duration: number;
+  currentTime: number;
+  onChange: (markers: Marker[]) => void;
+  onSeek: (time: number) => void;
+  fileName: string; // Without extension
+}
+
+// Markers dropped while recording: jump to them, rename them, hand them over as chapters or ticket notes
+const MarkerPanel: React.FC<MarkerPanelProps> = ({ markers, duration, currentTime, onChange, onSeek, fileName }) => {
+  const { t } = useTranslation();
+  const sorted = [...markers].sort((a, b) => a.time - b.time);
+  // The marker the playhead has most recently passed
+  const activeId = [...sorted].reverse().find(marker => currentTime >= marker.time)?.id;
+
+  const download = (content: string, ext: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}.${ext}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const rename = (id: string, label: string) => {
+    onChange(markers.map(marker => marker.id === id ? { ...marker, label } : marker));
+  };
+
+  const buttonClass = "px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-1.5";
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 p-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-bold flex items-center gap-2 text-white">
+                <BookmarkIcon className="w-4 h-4 text-indigo-400" />
+                {t('markers.title')}
+            </h2>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => navigator.clipboard.writeText(toChapterTimestamps(markersToChapters(markers)))}
+                    title={t('markers.copyHint')}
+                    className={buttonClass}
+                >
+                    <ClipboardDocumentIcon className="w-3.5 h-3.5" />
+                    {t('markers.copy')}
+                </button>
+                <button
+                    onClick={() => download(toChapterVtt(markersToChapters(markers), duration), 'markers.vtt', 'text/vtt')}
+                    title={t('markers.vttHint')}
+                    className={buttonClass}
+                >
+                    <ArrowDownTrayIcon className="w-3.5 h-3.5" /> .vtt
+                </button>
+            </div>
+        </div>
+
+        <ul className="max-h-64 overflow-y-auto space-y-0.5 pr-1">
+            {sorted.map(marker => (
+                <li
+                    key={marker.id}
+                    className={`group flex items-center gap-2 px-2 py-1 rounded-lg transition-colors ${marker.id === activeId ? 'bg-indigo-500/15' : 'hover:bg-slate-800'}`}
+                >
+                    <button
+                        onClick={() => onSeek(marker.time)}
+                        title={t('markers.jump')}
+                        className="shrink-0 text-[11px] font-mono text-indigo-400 hover:text-indigo-300"
+                    >
+                        {formatTimecode(marker.time)}
+                    </button>
+                    {/* Saved on blur, not per keystroke: every change rewrites the library entry */}
+                    <input
+                        key={marker.label}
+                        defaultValue={marker.label}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        onBlur={(e) => {
+                            const label = e.target.value.trim();
+                            if (!label) e.target.value = marker.label;
+                            else if (label !== marker.label) rename(marker.id, label);
+                        }}
+                        className="flex-1 min-w-0 bg-transparent text-sm text-slate-300 outline-none focus:text-white rounded px-1 focus:bg-slate-800"
+                    />
+                    <button
+                        onClick={() => onChange(markers.filter(m => m.id !== marker.id))}
+                        title={t('common.delete')}
+                        className="p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                        <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                </li>
+            ))}
+        </ul>
+    </div>
+  );
+};
+
+export default MarkerPanel;
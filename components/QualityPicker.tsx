@@ -0,0 +1,136 @@
+import React from 'react';
+import { QualityPresetId, RecordingQuality, VideoCodec } from '../types';
+import { QUALITY_PRESETS, QUALITY_PRESET_IDS, VIDEO_CODECS, estimateMegabytesPerMinute, isCodecSupported } from '../utils/recordingQuality';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../locales/en';
+
+interface QualityPickerProps {
+  quality: RecordingQuality;
+  onChange: (quality: RecordingQuality) => void;
+  hasAudio: boolean;
+}
+
+const LABELS: Record<QualityPresetId, MessageKey> = {
+  draft: 'quality.preset.draft',
+  standard: 'quality.preset.standard',
+  crisp: 'quality.preset.crisp',
+  smooth: 'quality.preset.smooth',
+  custom: 'quality.preset.custom',
+};
+
+const CODEC_LABELS: Record<VideoCodec, string> = {
+  vp9: 'VP9',
+  vp8: 'VP8',
+  av1: 'AV1',
+  h264: 'H.264',
+};
+
+const RESOLUTIONS = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+];
+
+const FRAME_RATES = [24, 30, 60];
+
+const QualityPicker: React.FC<QualityPickerProps> = ({ quality, onChange, hasAudio }) => {
+  const { t, language } = useTranslation();
+
+  const formatEstimate = (megabytes: number) =>
+    t('quality.estimate', { size: new Intl.NumberFormat(language, { maximumFractionDigits: megabytes < 10 ? 1 : 0 }).format(megabytes) });
+
+  // Picking "custom" starts from the current values; any hand edit turns a preset into "custom"
+  const selectPreset = (id: QualityPresetId) => {
+    onChange(id === 'custom' ? { ...quality, preset: 'custom' } : QUALITY_PRESETS[id]);
+  };
+
+  const updateCustom = (changes: Partial<RecordingQuality>) => {
+    onChange({ ...quality, ...changes, preset: 'custom' });
+  };
+
+  const selectClass = "w-full bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none focus:ring-1 focus:ring-indigo-500";
+
+  return (
+    <div className="space-y-2">
+        <div className="grid grid-cols-5 gap-2">
+            {QUALITY_PRESET_IDS.map(id => {
+                const values = id === 'custom' ? quality : QUALITY_PRESETS[id];
+                return (
+                    <button
+                        key={id}
+                        onClick={() => selectPreset(id)}
+                        className={`py-2 px-1 rounded-lg text-[11px] font-bold transition-colors border ${quality.preset === id ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+                    >
+                        {t(LABELS[id])}
+                        <span className="block text-[10px] font-medium text-slate-500">
+                            {formatEstimate(estimateMegabytesPerMinute(values, hasAudio))}
+                        </span>
+                    </button>
+                );
+            })}
+        </div>
+
+        {quality.preset === 'custom' && (
+            <div className="grid grid-cols-4 gap-2 items-end">
+                <label className="text-[10px] font-bold text-slate-500 uppercase space-y-1">
+                    <span>{t('quality.resolution')}</span>
+                    <select
+                        value={RESOLUTIONS.find(r => r.width === quality.width && r.height === quality.height)?.label ?? ''}
+                        onChange={(e) => {
+                            const resolution = RESOLUTIONS.find(r => r.label === e.target.value);
+                            if (resolution) updateCustom({ width: resolution.width, height: resolution.height });
+                        }}
+                        className={selectClass}
+                    >
+                        {RESOLUTIONS.map(r => <option key={r.label} value={r.label}>{r.label}</option>)}
+                    </select>
+                </label>
+                <label className="text-[10px] font-bold text-slate-500 uppercase space-y-1">
+                    <span>{t('quality.frameRate')}</span>
+                    <select
+                        value={quality.frameRate}
+                        onChange={(e) => updateCustom({ frameRate: parseInt(e.target.value) })}
+                        className={selectClass}
+                    >
+                        {FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps}</option>)}
+                    </select>
+                </label>
+                <label className="text-[10px] font-bold text-slate-500 uppercase space-y-1">
+                    <span>{t('quality.codec')}</span>
+                    <select
+                        value={quality.codec}
+                        onChange={(e) => updateCustom({ codec: e.target.value as VideoCodec })}
+                        className={selectClass}
+                    >
+                        {VIDEO_CODECS.map(codec => (
+                            <option key={codec} value={codec}>
+                                {CODEC_LABELS[codec]}{isCodecSupported(codec, hasAudio) ? '' : t('quality.codecUnsupported')}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-[10px] font-bold text-slate-500 uppercase space-y-1">
+                    <span className="flex justify-between">
+                        <span>{t('quality.videoBitrate')}</span>
+                        <span className="text-indigo-400">{t('quality.bitrate', { rate: Math.round(quality.videoBitrate / 100000) / 10 })}</span>
+                    </span>
+                    <input
+                        type="range" min="0.5" max="20" step="0.5"
+                        value={quality.videoBitrate / 1000000}
+                        onChange={(e) => updateCustom({ videoBitrate: Math.round(parseFloat(e.target.value) * 1000000) })}
+                        className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                </label>
+            </div>
+        )}
+        {!isCodecSupported(quality.codec, hasAudio) && (
+            <p className="text-xs text-amber-400">
+                {t('quality.codecFallback', { codec: CODEC_LABELS[quality.codec] })}
+            </p>
+        )}
+    </div>
+  );
+};
+
+export default QualityPicker;
@@ -1,7 +1,23 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { StopIcon, Cog6ToothIcon, PauseIcon, PlayIcon, ArrowsPointingOutIcon, XMarkIcon } from '@heroicons/react/24/solid';
-import { CameraConfig, CameraShape } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { StopIcon, Cog6ToothIcon, PauseIcon, PlayIcon, ArrowsPointingOutIcon, XMarkIcon, VideoCameraIcon, VideoCameraSlashIcon, BookmarkIcon, AdjustmentsVerticalIcon, Squares2X2Icon, RectangleGroupIcon } from '@heroicons/react/24/solid';
+import { CameraConfig, CameraShape, RecorderConfig, DeviceSelection, Annotation, AnnotationTool, ScreenViewport, ShortcutBindings, Marker, AudioMix, AudioSource, AudioPreset, BrandingOverlay } from '../types';
+import { isAnnotationExpired } from '../utils/annotations';
+import { panViewport, zoomViewportAt } from '../utils/viewport';
+import DeviceSelect from './DeviceSelect';
+import AnnotationToolbar from './AnnotationToolbar';
+import ScreenMinimap from './ScreenMinimap';
+import CameraBackgroundPicker from './CameraBackgroundPicker';
+import AudioMixerPanel from './AudioMixerPanel';
+import ScenePicker from './ScenePicker';
+import BrandingOverlayPanel from './BrandingOverlayPanel';
+import { getScene } from '../utils/scenes';
+import { CAMERA_SHAPE_LABELS } from '../services/cameraSettings';
+import { getOverlayRect } from '../utils/brandingOverlays';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useTranslation } from '../hooks/useTranslation';
+import { FrameStats } from '../services/frameScheduler';
+import { withShortcut } from '../utils/shortcuts';
 
 interface RecordingOverlayProps {
   elapsedTime: number;
@@ -12,16 +28,40 @@ interface RecordingOverlayProps {
   isInitializing?: boolean;
   cameraConfig: CameraConfig;
   onUpdateConfig: (config: CameraConfig) => void;
+  recorderConfig: RecorderConfig;
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  deviceSelection: DeviceSelection;
+  onSelectCamera: (deviceId: string | null) => void;
+  onSelectMicrophone: (deviceId: string | null) => void;
+  annotations: Annotation[];
+  onChangeAnnotations: (annotations: Annotation[]) => void;
+  viewport: ScreenViewport;
+  onChangeViewport: (viewport: ScreenViewport) => void;
+  screenVideoRef: React.RefObject<HTMLVideoElement | null>;
+  shortcuts: ShortcutBindings;
+  onAddMarker: (label?: string) => Marker | null; // Without a label the marker gets a numbered default name
+  onRenameMarker: (id: string, label: string) => void;
+  markerCount: number;
+  countdown: number | null;
+  audioSources: AudioSource[];
+  audioMix: AudioMix;
+  onChangeAudioMix: (mix: AudioMix) => void;
+  getAudioLevel: (source: AudioSource) => number;
+  onChangeAudioPreset: (preset: AudioPreset) => void;
+  frameStats: FrameStats | null;
+  sceneId: string;
+  onChangeScene: (sceneId: string) => void;
+  colors: string[]; // Border and annotation swatches, from the brand profile when one is active
+  overlays: BrandingOverlay[];
+  onChangeOverlays: (overlays: BrandingOverlay[]) => void;
+  logo: string | null; // Brand profile logo, offered as a watermark
 }
 
-const COLORS = [
-    '#6366f1', // Indigo
-    '#ec4899', // Pink
-    '#06b6d4', // Cyan
-    '#10b981', // Emerald
-    '#f59e0b', // Amber
-    '#ffffff', // White
-];
+const SHAPES: CameraShape[] = ['circle', 'square', 'rect'];
+
+// Above this share of dropped frames the recording visibly stutters
+const DROPPED_WARNING_SHARE = 0.02;
 
 const RecordingOverlay: React.FC<RecordingOverlayProps> = ({ 
   elapsedTime, 
@@ -31,13 +71,58 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
   canvasRef,
   isInitializing = false,
   cameraConfig,
-  onUpdateConfig
+  onUpdateConfig,
+  recorderConfig,
+  cameras,
+  microphones,
+  deviceSelection,
+  onSelectCamera,
+  onSelectMicrophone,
+  annotations,
+  onChangeAnnotations,
+  viewport,
+  onChangeViewport,
+  screenVideoRef,
+  shortcuts,
+  onAddMarker,
+  onRenameMarker,
+  markerCount,
+  countdown,
+  audioSources,
+  audioMix,
+  onChangeAudioMix,
+  getAudioLevel,
+  onChangeAudioPreset,
+  frameStats,
+  sceneId,
+  onChangeScene,
+  colors,
+  overlays,
+  onChangeOverlays,
+  logo
 }) => {
+  const { t } = useTranslation();
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isDevicesOpen, setIsDevicesOpen] = useState(false);
+  const [isMixerOpen, setIsMixerOpen] = useState(false);
+  const [isScenesOpen, setIsScenesOpen] = useState(false);
+  const [isOverlaysOpen, setIsOverlaysOpen] = useState(false);
+  // Scenes rearrange screen and camera, so they only exist when both are recorded
+  const hasScenes = recorderConfig.showScreen && recorderConfig.showCamera;
+  const hasCameraBubble = hasScenes && getScene(sceneId).camera === 'bubble';
+  const hasDevices = recorderConfig.showCamera || recorderConfig.audioEnabled;
   const containerRef = useRef<HTMLDivElement>(null);
   const draggingRef = useRef<{ startX: number; startY: number; initialX: number; initialY: number } | null>(null);
   const resizingRef = useRef<{ startY: number; initialSize: number } | null>(null);
+  const overlayDragRef = useRef<{ id: string; startX: number; startY: number; initialX: number; initialY: number; width: number; height: number } | null>(null);
   const [containerBounds, setContainerBounds] = useState({ width: 0, height: 0 });
+  const [activeTool, setActiveTool] = useState<AnnotationTool | null>(null);
+  const [annotationColor, setAnnotationColor] = useState(colors[1] ?? colors[0]);
+  const drawingRef = useRef<Annotation | null>(null);
+  const isCameraVisible = cameraConfig.visible;
+  // The marker just dropped, offered for naming until Enter, Escape or a click elsewhere
+  const [namingMarker, setNamingMarker] = useState<Marker | null>(null);
+  const panningRef = useRef<{ startX: number; startY: number; initial: ScreenViewport } | null>(null);
 
   // 1. Measure Container for Pixel-Perfect Precision
   useEffect(() => {
@@ -56,6 +141,22 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
     observer.observe(containerRef.current);
     return () => observer.disconnect();
   }, []);
+
+  // Scroll to zoom around the cursor. React's onWheel is passive, so the page would scroll too.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !recorderConfig.showScreen) return;
+
+    const handleWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        const rect = container.getBoundingClientRect();
+        const anchor = { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+        onChangeViewport(zoomViewportAt(viewport, Math.exp(-e.deltaY * 0.002), anchor));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [viewport, onChangeViewport, recorderConfig.showScreen]);
   
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -82,6 +183,29 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
   const minDim = Math.min(containerBounds.width || 100, containerBounds.height || 100);
   const cameraPixelSize = minDim * cameraConfig.size;
 
+  // Overlay handles are sized with the same layout the recorder draws with, measured at the canvas' real resolution
+  const measureContext = useMemo(() => document.createElement('canvas').getContext('2d'), []);
+  const getOverlayBox = (overlay: BrandingOverlay) => {
+      const canvas = canvasRef.current;
+      if (!measureContext || !canvas?.width || !canvas.height) return null;
+      const rect = getOverlayRect(measureContext, overlay, canvas.width, canvas.height);
+      return { width: rect.width / canvas.width, height: rect.height / canvas.height };
+  };
+
+  const handleOverlayPointerDown = (e: React.PointerEvent, overlay: BrandingOverlay) => {
+    const box = getOverlayBox(overlay);
+    if (!box) return;
+    e.preventDefault();
+    overlayDragRef.current = {
+        id: overlay.id,
+        startX: e.clientX,
+        startY: e.clientY,
+        initialX: overlay.position.x,
+        initialY: overlay.position.y,
+        ...box
+    };
+  };
+
   // Dragging Logic
   const handlePointerDown = (e: React.PointerEvent) => {
     if (isSettingsOpen) return;
@@ -94,6 +218,14 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
     };
   };
 
+  // Alt + drag pans the zoomed view; it wins over the bubble and the annotation tools
+  const handlePanPointerDown = (e: React.PointerEvent) => {
+    if (!e.altKey || !recorderConfig.showScreen) return;
+    e.preventDefault();
+    e.stopPropagation();
+    panningRef.current = { startX: e.clientX, startY: e.clientY, initial: viewport };
+  };
+
   const handleResizePointerDown = (e: React.PointerEvent) => {
       e.stopPropagation(); 
       e.preventDefault();
@@ -135,11 +267,30 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
              const newSize = Math.max(0.1, Math.min(0.5, initialSize + delta));
              updateConfig('size', newSize);
         }
+
+        if (overlayDragRef.current && containerBounds.width > 0) {
+            const { id, startX, startY, initialX, initialY, width, height } = overlayDragRef.current;
+            const position = {
+                x: Math.max(0, Math.min(1 - width, initialX + (e.clientX - startX) / containerBounds.width)),
+                y: Math.max(0, Math.min(1 - height, initialY + (e.clientY - startY) / containerBounds.height))
+            };
+            onChangeOverlays(overlays.map(overlay => overlay.id === id ? { ...overlay, position } : overlay));
+        }
+
+        if (panningRef.current && containerBounds.width > 0) {
+            const { startX, startY, initial } = panningRef.current;
+            onChangeViewport(panViewport(initial, {
+                x: (e.clientX - startX) / containerBounds.width,
+                y: (e.clientY - startY) / containerBounds.height
+            }));
+        }
     };
 
     const handlePointerUp = () => {
         draggingRef.current = null;
         resizingRef.current = null;
+        overlayDragRef.current = null;
+        panningRef.current = null;
     };
 
     window.addEventListener('pointermove', handlePointerMove);
@@ -150,6 +301,111 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
     };
   });
 
+  const handleAddMarker = () => {
+    const marker = onAddMarker(t('recording.markerLabel', { index: markerCount + 1 }));
+    if (marker) setNamingMarker(marker);
+  };
+
+  const handleMarkerNameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!namingMarker) return;
+    if (e.key === 'Enter') {
+        const label = e.currentTarget.value.trim();
+        if (label) onRenameMarker(namingMarker.id, label);
+        setNamingMarker(null);
+    } else if (e.key === 'Escape') {
+        setNamingMarker(null);
+    }
+  };
+
+  // While the sources are still starting only Finish makes sense (it cancels a countdown)
+  useShortcuts(shortcuts, isInitializing ? { stop: onStop } : {
+    togglePause: onTogglePause,
+    stop: onStop,
+    toggleCamera: () => updateConfig('visible', !isCameraVisible),
+    cycleShape: () => updateConfig('shape', SHAPES[(SHAPES.indexOf(cameraConfig.shape) + 1) % SHAPES.length]),
+    addMarker: () => handleAddMarker(),
+    annotate: () => setActiveTool(activeTool ? null : 'pen'),
+  });
+
+  // Annotation Logic: points are stored normalized, the same space as cameraConfig.position
+  const getAnnotationPoint = (e: React.PointerEvent) => {
+      const rect = containerRef.current!.getBoundingClientRect();
+      return {
+          x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+          y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
+      };
+  };
+
+  const liveAnnotations = () => {
+      const now = performance.now();
+      return annotations.filter(annotation => !isAnnotationExpired(annotation, now));
+  };
+
+  const handleAnnotationPointerDown = (e: React.PointerEvent) => {
+      if (!activeTool) return;
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const point = getAnnotationPoint(e);
+      drawingRef.current = {
+          id: crypto.randomUUID(),
+          tool: activeTool,
+          color: annotationColor,
+          points: [point, point],
+          createdAt: performance.now()
+      };
+      onChangeAnnotations([...liveAnnotations(), drawingRef.current]);
+  };
+
+  const handleAnnotationPointerMove = (e: React.PointerEvent) => {
+      const current = drawingRef.current;
+      if (!current) return;
+      const point = getAnnotationPoint(e);
+      const freehand = current.tool === 'pen' || current.tool === 'highlighter';
+      const next: Annotation = {
+          ...current,
+          points: freehand ? [...current.points, point] : [current.points[0], point],
+          // The highlighter fade starts once the stroke is finished
+          createdAt: current.tool === 'highlighter' ? performance.now() : current.createdAt
+      };
+      drawingRef.current = next;
+      onChangeAnnotations(annotations.map(annotation => annotation.id === next.id ? next : annotation));
+  };
+
+  const handleAnnotationPointerUp = () => {
+      drawingRef.current = null;
+  };
+
+  const handleUndoAnnotation = () => {
+      onChangeAnnotations(liveAnnotations().slice(0, -1));
+  };
+
+  const renderDeviceSelects = () => (
+      <div className="flex flex-col gap-2">
+          {recorderConfig.showCamera && (
+              <DeviceSelect
+                  kind="camera"
+                  devices={cameras}
+                  value={deviceSelection.cameraId}
+                  onChange={onSelectCamera}
+                  defaultLabel={t('landing.defaultCamera')}
+                  compact
+              />
+          )}
+          {recorderConfig.audioEnabled && (
+              <DeviceSelect
+                  kind="microphone"
+                  devices={microphones}
+                  value={deviceSelection.microphoneId}
+                  onChange={onSelectMicrophone}
+                  defaultLabel={t('landing.defaultMicrophone')}
+                  compact
+              />
+          )}
+      </div>
+  );
+
+  const droppedShare = frameStats ? frameStats.dropped / Math.max(1, frameStats.rendered + frameStats.dropped) : 0;
+
   // Determine popover position based on camera position
   const popoverPositionClass = cameraConfig.position.x > 0.5 
     ? 'right-full mr-4 origin-top-right' 
@@ -158,11 +414,25 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
   return (
     <div className="relative w-full h-screen bg-slate-950 flex flex-col items-center justify-center overflow-hidden">
       
-      {isInitializing && (
+      {countdown !== null && (
+        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-slate-950/60 backdrop-blur-sm">
+            <span key={countdown} className="text-9xl font-black text-white tabular-nums animate-pulse">{countdown}</span>
+            <button
+                onClick={onStop}
+                className="mt-8 px-5 py-2 rounded-full bg-slate-800 text-sm font-bold text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+            >
+                {t('common.cancel')}
+            </button>
+        </div>
+      )}
+
+      {isInitializing && countdown === null && (
         <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-slate-900/80 backdrop-blur-md">
             <div className="animate-spin rounded-full h-12 w-12 border-4 border-indigo-500 border-t-transparent mb-4"></div>
-            <p className="text-lg font-medium text-white">Initializing Studio...</p>
-            <p className="text-sm text-slate-400 mt-2">Select your screen to begin</p>
+            <p className="text-lg font-medium text-white">{t('recording.initializing')}</p>
+            {recorderConfig.showScreen && (
+                <p className="text-sm text-slate-400 mt-2">{t('recording.selectScreen')}</p>
+            )}
         </div>
       )}
 
@@ -170,6 +440,7 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
       <div className="relative w-full h-full flex items-center justify-center p-4">
          <div 
             ref={containerRef}
+            onPointerDownCapture={handlePanPointerDown}
             className={`relative inline-block shadow-2xl rounded-xl overflow-hidden border border-slate-800 bg-black/50 backdrop-blur transition-opacity duration-300 ${isPaused ? 'opacity-50 grayscale' : 'opacity-100'}`}
          >
             {/* The Real Canvas (Recorded) */}
@@ -178,8 +449,44 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
                 className="max-w-full max-h-[90vh] object-contain block"
             />
 
+            {/* Annotation Layer: captures strokes while a tool is active, drawn into the canvas by the recorder */}
+            {!isInitializing && activeTool && (
+                <div
+                    onPointerDown={handleAnnotationPointerDown}
+                    onPointerMove={handleAnnotationPointerMove}
+                    onPointerUp={handleAnnotationPointerUp}
+                    onPointerCancel={handleAnnotationPointerUp}
+                    className="absolute inset-0 z-20 touch-none cursor-crosshair"
+                />
+            )}
+
+            {/* Overlay Handles: the overlays themselves are drawn into the canvas, these only move them */}
+            {!isInitializing && !activeTool && containerBounds.width > 0 && (
+                <div className="absolute inset-0 z-30 pointer-events-none">
+                    {overlays.filter(overlay => overlay.visible).map(overlay => {
+                        const box = getOverlayBox(overlay);
+                        if (!box) return null;
+                        return (
+                            <div
+                                key={overlay.id}
+                                onPointerDown={(e) => handleOverlayPointerDown(e, overlay)}
+                                className="absolute touch-none cursor-move rounded border-2 border-dashed border-transparent hover:border-white/30 transition-colors"
+                                style={{
+                                    left: `${overlay.position.x * 100}%`,
+                                    top: `${overlay.position.y * 100}%`,
+                                    width: `${box.width * 100}%`,
+                                    height: `${box.height * 100}%`,
+                                    pointerEvents: 'auto'
+                                }}
+                            />
+                        );
+                    })}
+                </div>
+            )}
+
             {/* Interactive Layer (Not Recorded, Visible to User) */}
-            {!isInitializing && containerBounds.width > 0 && (
+            {/* Only the bubble layout has a movable camera; the other modes fill the frame */}
+            {!isInitializing && containerBounds.width > 0 && hasCameraBubble && isCameraVisible && (
                 <div 
                     className="absolute inset-0 z-30 pointer-events-none"
                 >
@@ -229,15 +536,15 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
                             >
                                 {/* Shape */}
                                 <div>
-                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Shape</label>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('recording.shape')}</label>
                                     <div className="flex bg-slate-800/50 p-1 rounded-lg">
-                                        {(['circle', 'square', 'rect'] as CameraShape[]).map(shape => (
+                                        {SHAPES.map(shape => (
                                             <button
                                                 key={shape}
                                                 onClick={() => updateConfig('shape', shape)}
                                                 className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase transition-all ${cameraConfig.shape === shape ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
                                             >
-                                                {shape}
+                                                {t(CAMERA_SHAPE_LABELS[shape])}
                                             </button>
                                         ))}
                                     </div>
@@ -246,7 +553,7 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
                                 {/* Border Width */}
                                 <div>
                                     <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase mb-1">
-                                        <span>Border</span>
+                                        <span>{t('landing.border')}</span>
                                         <span className="text-indigo-400">{cameraConfig.borderWidth}px</span>
                                     </div>
                                     <input 
@@ -259,9 +566,9 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
 
                                 {/* Colors */}
                                 <div>
-                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">Color</label>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('recording.color')}</label>
                                     <div className="flex justify-between gap-1">
-                                        {COLORS.map(color => (
+                                        {colors.map(color => (
                                             <button
                                                 key={color}
                                                 onClick={() => updateConfig('borderColor', color)}
@@ -271,6 +578,22 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
                                         ))}
                                     </div>
                                 </div>
+
+                                {/* Background */}
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('recording.background')}</label>
+                                    <CameraBackgroundPicker
+                                        background={cameraConfig.background}
+                                        onChange={(background) => updateConfig('background', background)}
+                                        compact
+                                    />
+                                </div>
+
+                                {/* Devices */}
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('landing.devices')}</label>
+                                    {renderDeviceSelects()}
+                                </div>
                             </div>
 
                         </div>
@@ -281,13 +604,42 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
             {isPaused && (
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
                     <div className="bg-black/70 backdrop-blur-xl px-8 py-4 rounded-2xl border border-white/10 shadow-2xl animate-pulse-slow">
-                        <span className="text-2xl font-black tracking-widest text-amber-400">PAUSED</span>
+                        <span className="text-2xl font-black tracking-widest text-amber-400">{t('recording.paused')}</span>
                     </div>
                 </div>
             )}
          </div>
       </div>
 
+      {/* Annotation Tools (Floating) */}
+      {!isInitializing && (
+        <div className="absolute left-6 top-1/2 -translate-y-1/2 animate-fade-in-up z-40">
+            <AnnotationToolbar
+                activeTool={activeTool}
+                onSelectTool={setActiveTool}
+                color={annotationColor}
+                colors={colors}
+                onSelectColor={setAnnotationColor}
+                canUndo={annotations.length > 0}
+                onUndo={handleUndoAnnotation}
+                onClear={() => onChangeAnnotations([])}
+                shortcut={shortcuts.annotate}
+            />
+        </div>
+      )}
+
+      {/* Minimap of the whole shared screen (Floating) */}
+      {!isInitializing && recorderConfig.showScreen && (
+        <div className="absolute right-6 top-6 animate-fade-in-up z-40" title={t('recording.minimapHint')}>
+            <ScreenMinimap
+                videoRef={screenVideoRef}
+                region={recorderConfig.captureRegion}
+                viewport={viewport}
+                onChangeViewport={onChangeViewport}
+            />
+        </div>
+      )}
+
       {/* Bottom Controls (Floating) */}
       {!isInitializing && (
         <div className="absolute bottom-8 left-1/2 -translate-x-1/2 animate-fade-in-up z-40">
@@ -307,15 +659,170 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
                     <span className={`font-mono text-xl font-bold tabular-nums ${isPaused ? 'text-amber-400' : 'text-white'}`}>
                         {formatTime(elapsedTime)}
                     </span>
+                    {frameStats && (
+                        <span
+                            className={`font-mono text-[10px] leading-tight tabular-nums ${droppedShare > DROPPED_WARNING_SHARE ? 'text-amber-400' : 'text-slate-500'}`}
+                            title={t('recording.frameStats', { count: frameStats.rendered, dropped: frameStats.dropped })}
+                        >
+                            {t('recording.fps', { fps: Math.round(frameStats.fps), target: recorderConfig.quality.frameRate })}
+                            <span className="block">{t('recording.dropped', { count: frameStats.dropped })}</span>
+                        </span>
+                    )}
                 </div>
 
                 <div className="h-8 w-px bg-slate-700 mx-2"></div>
 
+                {/* Device Settings (the bubble popover covers this when there is a bubble) */}
+                {!hasCameraBubble && hasDevices && (
+                    <div className="relative">
+                        <button
+                            onClick={() => setIsDevicesOpen(!isDevicesOpen)}
+                            className={`p-3 rounded-full transition-all hover:scale-105 active:scale-95 ${isDevicesOpen ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-white hover:bg-slate-600'}`}
+                            title={t('landing.devices')}
+                        >
+                            <Cog6ToothIcon className="w-5 h-5" />
+                        </button>
+                        {isDevicesOpen && (
+                            <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-60 bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 shadow-2xl rounded-2xl p-4">
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('landing.devices')}</label>
+                                {renderDeviceSelects()}
+                                {recorderConfig.showCamera && (
+                                    <>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mt-4 mb-2 block">{t('recording.background')}</label>
+                                        <CameraBackgroundPicker
+                                            background={cameraConfig.background}
+                                            onChange={(background) => updateConfig('background', background)}
+                                            compact
+                                        />
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Audio Mixer */}
+                {audioSources.length > 0 && (
+                    <div className="relative">
+                        <button
+                            onClick={() => setIsMixerOpen(!isMixerOpen)}
+                            className={`p-3 rounded-full transition-all hover:scale-105 active:scale-95 ${isMixerOpen ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-white hover:bg-slate-600'}`}
+                            title={t('recording.audioMixer')}
+                        >
+                            <AdjustmentsVerticalIcon className="w-5 h-5" />
+                        </button>
+                        {isMixerOpen && (
+                            <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-60 bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 shadow-2xl rounded-2xl p-4">
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-3 block">{t('recording.audio')}</label>
+                                <AudioMixerPanel
+                                    sources={audioSources}
+                                    mix={audioMix}
+                                    onChange={onChangeAudioMix}
+                                    getLevel={getAudioLevel}
+                                    preset={recorderConfig.audioPreset}
+                                    onChangePreset={onChangeAudioPreset}
+                                />
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Scenes */}
+                {hasScenes && (
+                    <div className="relative">
+                        <button
+                            onClick={() => setIsScenesOpen(!isScenesOpen)}
+                            className={`p-3 rounded-full transition-all hover:scale-105 active:scale-95 ${isScenesOpen ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-white hover:bg-slate-600'}`}
+                            title={t('recording.scenes')}
+                        >
+                            <Squares2X2Icon className="w-5 h-5" />
+                        </button>
+                        {isScenesOpen && (
+                            <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-72 bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 shadow-2xl rounded-2xl p-3">
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('recording.scene')}</label>
+                                <ScenePicker
+                                    sceneId={sceneId}
+                                    onChange={onChangeScene}
+                                    cameraConfig={cameraConfig}
+                                />
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Branding Overlays */}
+                <div className="relative">
+                    <button
+                        onClick={() => setIsOverlaysOpen(!isOverlaysOpen)}
+                        className={`p-3 rounded-full transition-all hover:scale-105 active:scale-95 ${isOverlaysOpen ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-white hover:bg-slate-600'}`}
+                        title={t('recording.overlays')}
+                    >
+                        <RectangleGroupIcon className="w-5 h-5" />
+                    </button>
+                    {isOverlaysOpen && (
+                        <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-64 max-h-[70vh] overflow-y-auto bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 shadow-2xl rounded-2xl p-3">
+                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('recording.overlays')}</label>
+                            <BrandingOverlayPanel
+                                overlays={overlays}
+                                onChange={onChangeOverlays}
+                                logo={logo}
+                                colors={colors}
+                            />
+                        </div>
+                    )}
+                </div>
+
+                {/* Camera Visibility */}
+                {hasScenes && (
+                    <button
+                        onClick={() => updateConfig('visible', !isCameraVisible)}
+                        className={`p-3 rounded-full transition-all hover:scale-105 active:scale-95 ${isCameraVisible ? 'bg-slate-700 text-white hover:bg-slate-600' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                        title={withShortcut(isCameraVisible ? t('recording.hideCamera') : t('recording.showCamera'), shortcuts.toggleCamera)}
+                    >
+                        {isCameraVisible ? <VideoCameraIcon className="w-5 h-5" /> : <VideoCameraSlashIcon className="w-5 h-5" />}
+                    </button>
+                )}
+
+                {/* Marker */}
+                <div className="relative">
+                    <button
+                        onClick={handleAddMarker}
+                        className="relative p-3 rounded-full bg-slate-700 text-white hover:bg-slate-600 transition-all hover:scale-105 active:scale-95"
+                        title={withShortcut(t('recording.addMarker'), shortcuts.addMarker)}
+                    >
+                        <BookmarkIcon className="w-5 h-5" />
+                        {markerCount > 0 && (
+                            <span
+                                className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-indigo-500 text-[10px] font-bold leading-5 text-center"
+                                title={t('recording.markerCount', { count: markerCount })}
+                            >
+                                {markerCount}
+                            </span>
+                        )}
+                    </button>
+                    {namingMarker && (
+                        <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-64 bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 shadow-2xl rounded-2xl p-3">
+                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 block">
+                                {t('recording.markerAt', { time: formatTime(Math.floor(namingMarker.time)) })}
+                            </label>
+                            <input
+                                key={namingMarker.id}
+                                autoFocus
+                                placeholder={namingMarker.label}
+                                onKeyDown={handleMarkerNameKeyDown}
+                                onBlur={() => setNamingMarker(null)}
+                                className="w-full bg-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-500"
+                            />
+                            <p className="mt-1.5 text-[10px] text-slate-500">{t('recording.markerHint')}</p>
+                        </div>
+                    )}
+                </div>
+
                 {/* Pause Button */}
                 <button
                     onClick={onTogglePause}
                     className={`p-3 rounded-full transition-all hover:scale-105 active:scale-95 ${isPaused ? 'bg-amber-500 text-slate-900 hover:bg-amber-400' : 'bg-slate-700 text-white hover:bg-slate-600'}`}
-                    title={isPaused ? "Resume" : "Pause"}
+                    title={withShortcut(isPaused ? t('recording.resume') : t('recording.pause'), shortcuts.togglePause)}
                 >
                     {isPaused ? <PlayIcon className="w-5 h-5" /> : <PauseIcon className="w-5 h-5" />}
                 </button>
@@ -323,10 +830,11 @@ const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
                 {/* Stop Button */}
                 <button
                     onClick={onStop}
+                    title={withShortcut(t('recording.finish'), shortcuts.stop)}
                     className="group flex items-center gap-2 px-6 py-3 bg-red-500 hover:bg-red-600 text-white rounded-full font-bold transition-all hover:scale-105 active:scale-95 shadow-lg shadow-red-500/25"
                 >
                     <StopIcon className="w-5 h-5 group-hover:animate-pulse" />
-                    <span>Finish</span>
+                    <span>{t('recording.finish')}</span>
                 </button>
             </div>
         </div>
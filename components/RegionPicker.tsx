@@ -0,0 +1,95 @@
+import React, { useRef } from 'react';
+import { CaptureRegion } from '../types';
+import { FULL_REGION, MIN_REGION_SIZE, isFullRegion } from '../utils/viewport';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../locales/en';
+
+interface RegionPickerProps {
+  region: CaptureRegion;
+  onChange: (region: CaptureRegion) => void;
+}
+
+const PRESETS: { label: MessageKey; region: CaptureRegion }[] = [
+  { label: 'region.preset.full', region: FULL_REGION },
+  { label: 'region.preset.center', region: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } },
+  { label: 'region.preset.left', region: { x: 0, y: 0, width: 0.5, height: 1 } },
+  { label: 'region.preset.right', region: { x: 0.5, y: 0, width: 0.5, height: 1 } },
+];
+
+const sameRegion = (a: CaptureRegion, b: CaptureRegion) =>
+  a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+// The screen is not shared yet, so the region is drawn on a stand-in 16:9 frame
+const RegionPicker: React.FC<RegionPickerProps> = ({ region, onChange }) => {
+  const { t } = useTranslation();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = toPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toPoint(e);
+    const width = Math.abs(point.x - start.x);
+    const height = Math.abs(point.y - start.y);
+    // Ignore tiny drags (and plain clicks) instead of collapsing the region
+    if (width < MIN_REGION_SIZE || height < MIN_REGION_SIZE) return;
+    onChange({ x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width, height });
+  };
+
+  const handlePointerUp = () => {
+    startRef.current = null;
+  };
+
+  return (
+    <div className="space-y-2">
+        <div
+            ref={frameRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="relative w-full aspect-video rounded-xl bg-slate-800 border border-slate-700 overflow-hidden cursor-crosshair touch-none"
+        >
+            <div
+                className={`absolute rounded-md border-2 bg-indigo-500/20 pointer-events-none ${isFullRegion(region) ? 'border-transparent' : 'border-indigo-400'}`}
+                style={{
+                    left: `${region.x * 100}%`,
+                    top: `${region.y * 100}%`,
+                    width: `${region.width * 100}%`,
+                    height: `${region.height * 100}%`,
+                }}
+            />
+            <span className="absolute bottom-2 right-2 text-[10px] font-bold text-slate-500 pointer-events-none">
+                {t('region.dragHint')}
+            </span>
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+            {PRESETS.map(preset => (
+                <button
+                    key={preset.label}
+                    onClick={() => onChange(preset.region)}
+                    className={`py-1.5 rounded-lg text-[10px] font-bold transition-all ${sameRegion(region, preset.region) ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                    {t(preset.label)}
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default RegionPicker;
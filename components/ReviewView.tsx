@@ -1,45 +1,294 @@
 
-import React, { useState, useEffect } from 'react';
-import { RecordingData, Language } from '../types';
-import { ArrowDownTrayIcon, SparklesIcon, ArrowPathIcon, VideoCameraIcon } from '@heroicons/react/24/outline';
-import { generateVideoMetadata } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { RecordingData, EditDecision, ExportFormat, TranscriptSegment, VideoMetadata, Marker, AudioPreset } from '../types';
+import { ArrowDownTrayIcon, SparklesIcon, ArrowPathIcon, VideoCameraIcon, ScissorsIcon, ArrowUturnLeftIcon, RectangleStackIcon, XMarkIcon, ClipboardDocumentIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { generateVideoMetadata } from '../services/aiService';
+import { AiConfigurationError, AiResponseError } from '../services/aiErrors';
+import { getKeptSegments, mapTimeToSegments, probeDuration, renderSegments } from '../services/videoExport';
+import { AUDIO_PRESETS, AUDIO_PRESET_IDS } from '../services/audioProcessing';
+import TrimEditor, { formatTimecode } from './TrimEditor';
+import ClipExporter from './ClipExporter';
+import TranscriptPanel from './TranscriptPanel';
+import MarkerPanel from './MarkerPanel';
+import ChapterBar from './ChapterBar';
+import AiSettingsDialog from './AiSettingsDialog';
+import { sampleFrames } from '../services/frameSampler';
+import { transcribeRecording } from '../services/transcription';
+import { toWebVtt, toChapterVtt, toChapterTimestamps } from '../utils/captions';
+import { formatDate } from '../utils/format';
+import { useTranslation } from '../hooks/useTranslation';
+import { describeError } from '../utils/i18n';
+
+// Frames sampled across the recording for the AI summary
+const SUMMARY_FRAMES = 8;
+// Below this the summary is shown with a "may be inaccurate" note
+const LOW_CONFIDENCE = 0.5;
+
+// Downloading in the recording's own container, at its own loudness, needs no re-encode
+const containerOf = (blob: Blob): ExportFormat => blob.type.includes('mp4') ? 'mp4' : 'webm';
+
+// What the AI card shows; reopened library items have no confidence score
+type SummaryState = Pick<VideoMetadata, 'title' | 'description' | 'chapters' | 'tags'> & { confidence?: number };
 
 interface ReviewViewProps {
   data: RecordingData;
   onReset: () => void;
-  language: Language;
+  onApplyEdit: (data: RecordingData) => void;
+  onUndoEdit: () => void;
+  canUndo: boolean;
+  onMetaChange: (meta: VideoMetadata) => void;
+  onTranscriptChange: (transcript: TranscriptSegment[]) => void;
+  onMarkersChange: (markers: Marker[]) => void;
+  onOpenLibrary: () => void;
 }
 
-const ReviewView: React.FC<ReviewViewProps> = ({ data, onReset, language }) => {
-  const [meta, setMeta] = useState<{ title: string; description: string } | null>(null);
+const ReviewView: React.FC<ReviewViewProps> = ({ data, onReset, onApplyEdit, onUndoEdit, canUndo, onMetaChange, onTranscriptChange, onMarkersChange, onOpenLibrary }) => {
+  const { t, language } = useTranslation();
+  const [meta, setMeta] = useState<SummaryState | null>(null);
+  const [aiError, setAiError] = useState<{ message: string; needsSettings: boolean } | null>(null);
   const [isLoadingAi, setIsLoadingAi] = useState(false);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  const [edit, setEdit] = useState<EditDecision | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  // null follows the recording's container; converting is only done when picked explicitly
+  const [chosenFormat, setChosenFormat] = useState<ExportFormat | null>(null);
+  // Loudness normalization on download: 'raw' keeps the recorded level
+  const [loudnessPreset, setLoudnessPreset] = useState<AudioPreset>('raw');
+  const [isConverting, setIsConverting] = useState(false);
+  const [convertProgress, setConvertProgress] = useState(0);
+  const [convertError, setConvertError] = useState<string | null>(null);
+  const convertAbortRef = useRef<AbortController | null>(null);
+
+  const [transcript, setTranscript] = useState<TranscriptSegment[] | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptError, setTranscriptError] = useState<string | null>(null);
 
-  const handleDownload = () => {
+  // MediaRecorder WebM often reports an Infinite duration, so prefer the recorder's own measurement
+  const duration = data.duration ?? mediaDuration;
+  const hasEdits = !!edit && !!duration && (edit.inPoint > 0 || edit.outPoint < duration || edit.cuts.length > 0);
+
+  const sourceFormat = containerOf(data.blob);
+  const downloadFormat = chosenFormat ?? sourceFormat;
+
+  const fileName = meta?.title.replace(/\s+/g, '_') || 'loom_clone_recording';
+
+  const saveFile = (url: string, ext: string) => {
     const a = document.createElement('a');
-    a.href = data.url;
-    // Use webm or mp4 based on mime type source if possible, defaulting to webm for now
-    const ext = data.blob.type.includes('mp4') ? 'mp4' : 'webm';
-    a.download = `${meta?.title.replace(/\s+/g, '_') || 'loom_clone_recording'}.${ext}`;
+    a.href = url;
+    a.download = `${fileName}.${ext}`;
     a.click();
   };
 
-  const generateMagic = async () => {
-    if (!data.thumbnail) return;
+  const handleDownload = async () => {
+    const loudnessTarget = AUDIO_PRESETS[loudnessPreset].loudnessTarget;
+    if (sourceFormat === downloadFormat && loudnessTarget === null) {
+        saveFile(data.url, sourceFormat);
+        return;
+    }
+
+    // Transcode the whole recording into the requested container (and loudness), in the browser
+    const controller = new AbortController();
+    convertAbortRef.current = controller;
+    setIsConverting(true);
+    setConvertProgress(0);
+    setConvertError(null);
+
+    try {
+        // Never fall back to the source container: without a length there is nothing to render
+        const length = duration ?? await probeDuration(data.blob);
+        const result = await renderSegments({
+            source: data.blob,
+            segments: [{ start: 0, end: length }],
+            format: downloadFormat,
+            onProgress: setConvertProgress,
+            signal: controller.signal,
+            loudnessTarget
+        });
+        const url = URL.createObjectURL(result.blob);
+        saveFile(url, downloadFormat);
+        // Give the browser a moment to start the download before releasing the blob
+        setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (err: any) {
+        if (controller.signal.aborted) return;
+        console.error("Conversion failed:", err);
+        setConvertError(describeError(language, err, 'error.conversion'));
+    } finally {
+        convertAbortRef.current = null;
+        setIsConverting(false);
+    }
+  };
+
+  const cancelConversion = () => {
+    convertAbortRef.current?.abort();
+  };
+
+  // Stop any conversion or edit still rendering when leaving the view
+  useEffect(() => () => {
+    convertAbortRef.current?.abort();
+    exportAbortRef.current?.abort();
+  }, []);
+
+  const generateMagic = async (segments = transcript ?? undefined) => {
     setIsLoadingAi(true);
-    const result = await generateVideoMetadata(data.thumbnail, language);
-    setMeta(result);
-    setIsLoadingAi(false);
+    setAiError(null);
+    const length = data.duration ?? mediaDuration ?? undefined;
+    let frames: { time: number; image: string }[];
+    try {
+        frames = await sampleFrames(data.blob, SUMMARY_FRAMES, length);
+    } catch (err) {
+        // Fall back to the stop-time snapshot rather than no summary at all
+        console.warn("Could not sample frames, using the thumbnail", err);
+        frames = data.thumbnail ? [{ time: length ?? 0, image: data.thumbnail }] : [];
+    }
+    if (frames.length === 0) {
+        setIsLoadingAi(false);
+        return;
+    }
+    try {
+        const result = await generateVideoMetadata(frames, length ?? frames[frames.length - 1].time, language, segments);
+        setMeta(result);
+        onMetaChange(result);
+    } catch (err: any) {
+        console.error("AI summary failed:", err);
+        setAiError({
+            message: err instanceof AiResponseError
+                ? t('review.badFormat')
+                : err.message || t('error.ai'),
+            needsSettings: err instanceof AiConfigurationError
+        });
+    } finally {
+        setIsLoadingAi(false);
+    }
   };
 
+  const downloadText = (content: string, name: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    saveFile(url, name);
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  // Every new version of the recording (including edits) gets a fresh summary and a clean timeline
   useEffect(() => {
-    if (data.thumbnail) {
-        generateMagic();
+    setMediaDuration(null);
+    setCurrentTime(0);
+    setExportError(null);
+    setConvertError(null);
+    // Edits shift the timing, so a transcript only carries over when it came with this exact version
+    setTranscript(data.transcript ?? null);
+    setTranscriptError(null);
+    // Reopened library items already carry their summary
+    if (data.title) {
+        setMeta({ title: data.title, description: data.description || '', chapters: data.chapters ?? [], tags: data.tags ?? [] });
+        setAiError(null);
+    } else {
+        setMeta(null);
+        generateMagic(data.transcript);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [data.url]);
+
+  useEffect(() => {
+    setEdit(duration ? { inPoint: 0, outPoint: duration, cuts: [] } : null);
+  }, [data.url, duration]);
+
+  const handleTranscribe = async () => {
+    setIsTranscribing(true);
+    setTranscriptError(null);
+    try {
+        const segments = await transcribeRecording(data.blob, language);
+        setTranscript(segments);
+        onTranscriptChange(segments);
+    } catch (err: any) {
+        console.error("Transcription failed:", err);
+        setTranscriptError(err.message || t('error.transcription'));
+    } finally {
+        setIsTranscribing(false);
+    }
+  };
+
+  // The player picks captions up from a WebVTT blob
+  const captionsUrl = useMemo(
+    () => transcript && transcript.length > 0 ? URL.createObjectURL(new Blob([toWebVtt(transcript)], { type: 'text/vtt' })) : null,
+    [transcript]
+  );
+  useEffect(() => () => {
+    if (captionsUrl) URL.revokeObjectURL(captionsUrl);
+  }, [captionsUrl]);
+
+  const chapters = meta?.chapters ?? [];
+  const chaptersUrl = useMemo(
+    () => chapters.length > 0 && duration ? URL.createObjectURL(new Blob([toChapterVtt(chapters, duration)], { type: 'text/vtt' })) : null,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [meta, duration]
+  );
+  useEffect(() => () => {
+    if (chaptersUrl) URL.revokeObjectURL(chaptersUrl);
+  }, [chaptersUrl]);
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (video && Number.isFinite(video.duration)) setMediaDuration(video.duration);
+  };
+
+  const handleSeek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const handleApplyEdit = async () => {
+    if (!edit) return;
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setIsExporting(true);
+    setExportProgress(0);
+    setExportError(null);
+    videoRef.current?.pause();
+
+    try {
+        const segments = getKeptSegments(edit);
+        const result = await renderSegments({
+            source: data.blob,
+            segments,
+            onProgress: setExportProgress,
+            signal: controller.signal
+        });
+        onApplyEdit({
+            blob: result.blob,
+            url: URL.createObjectURL(result.blob),
+            thumbnail: result.thumbnail,
+            duration: result.duration,
+            // Markers follow the cut; those inside removed ranges go with them
+            markers: data.markers?.flatMap(marker => {
+                const time = mapTimeToSegments(segments, marker.time);
+                return time === null ? [] : [{ ...marker, time }];
+            })
+        });
+    } catch (err: any) {
+        if (controller.signal.aborted) return;
+        console.error("Export failed:", err);
+        setExportError(describeError(language, err, 'error.export'));
+    } finally {
+        exportAbortRef.current = null;
+        setIsExporting(false);
+    }
+  };
+
+  const cancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
 
   return (
     <div className="min-h-screen bg-slate-950 text-white flex flex-col">
+      {showAiSettings && <AiSettingsDialog onClose={() => setShowAiSettings(false)} />}
+
       {/* Header */}
       <header className="border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm sticky top-0 z-10">
         <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
@@ -47,13 +296,22 @@ const ReviewView: React.FC<ReviewViewProps> = ({ data, onReset, language }) => {
                 <VideoCameraIcon className="w-6 h-6" />
                 <span className="font-bold tracking-tight">LoomClone AI</span>
             </div>
-            <button 
-                onClick={onReset}
-                className="text-slate-400 hover:text-white text-sm font-medium flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-white/5 transition-colors"
-             >
-                <ArrowPathIcon className="w-4 h-4" /> 
-                {language === 'it' ? "Nuova Registrazione" : "New Recording"}
-             </button>
+            <div className="flex items-center gap-2">
+                <button 
+                    onClick={onOpenLibrary}
+                    className="text-slate-400 hover:text-white text-sm font-medium flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-white/5 transition-colors"
+                 >
+                    <RectangleStackIcon className="w-4 h-4" /> 
+                    {t('library.title')}
+                 </button>
+                <button 
+                    onClick={onReset}
+                    className="text-slate-400 hover:text-white text-sm font-medium flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-white/5 transition-colors"
+                 >
+                    <ArrowPathIcon className="w-4 h-4" /> 
+                    {t('common.newRecording')}
+                 </button>
+            </div>
         </div>
       </header>
 
@@ -64,16 +322,107 @@ const ReviewView: React.FC<ReviewViewProps> = ({ data, onReset, language }) => {
             <div className="lg:col-span-2 space-y-4">
                 <div className="relative rounded-2xl overflow-hidden shadow-2xl ring-1 ring-white/10 bg-black aspect-video group">
                     <video 
+                        ref={videoRef}
                         src={data.url} 
                         controls 
                         playsInline
                         className="w-full h-full object-contain" 
                         autoPlay
-                    />
+                        onLoadedMetadata={handleLoadedMetadata}
+                        onDurationChange={handleLoadedMetadata}
+                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                    >
+                        {captionsUrl && (
+                            <track
+                                key={captionsUrl}
+                                kind="captions"
+                                src={captionsUrl}
+                                srcLang={language}
+                                label={t('review.captions')}
+                                default
+                            />
+                        )}
+                        {chaptersUrl && <track key={chaptersUrl} kind="chapters" src={chaptersUrl} srcLang={language} />}
+                    </video>
                 </div>
+
+                {chapters.length > 0 && !!duration && (
+                    <ChapterBar chapters={chapters} duration={duration} currentTime={currentTime} onSeek={handleSeek} />
+                )}
+
+                {/* Trim & Cut */}
+                {edit && !!duration && (
+                    <TrimEditor
+                        duration={duration}
+                        currentTime={currentTime}
+                        edit={edit}
+                        onChange={setEdit}
+                        onSeek={handleSeek}
+                        markers={data.markers}
+                    />
+                )}
+                {(hasEdits || canUndo || exportError) && (
+                    <div className="flex items-center gap-3">
+                        {hasEdits && (
+                            <button
+                                onClick={handleApplyEdit}
+                                disabled={isExporting}
+                                className="relative overflow-hidden flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold transition-colors disabled:cursor-wait"
+                            >
+                                {isExporting && (
+                                    <span className="absolute inset-y-0 left-0 bg-white/20" style={{ width: `${exportProgress * 100}%` }} />
+                                )}
+                                <ScissorsIcon className="w-4 h-4 relative" />
+                                <span className="relative">
+                                    {isExporting
+                                        ? t('review.exporting', { progress: Math.round(exportProgress * 100) })
+                                        : t('review.applyEdits')}
+                                </span>
+                            </button>
+                        )}
+                        {isExporting && (
+                            <button
+                                onClick={cancelExport}
+                                className="flex items-center gap-1 text-sm text-slate-400 hover:text-red-400 transition-colors"
+                            >
+                                <XMarkIcon className="w-4 h-4" />
+                                {t('common.cancel')}
+                            </button>
+                        )}
+                        {canUndo && !isExporting && (
+                            <button
+                                onClick={onUndoEdit}
+                                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold transition-colors"
+                            >
+                                <ArrowUturnLeftIcon className="w-4 h-4" />
+                                {t('review.undoEdit')}
+                            </button>
+                        )}
+                        {exportError && <span className="text-sm text-red-400">{exportError}</span>}
+                    </div>
+                )}
+                {!!data.markers?.length && !!duration && (
+                    <MarkerPanel
+                        markers={data.markers}
+                        duration={duration}
+                        currentTime={currentTime}
+                        onChange={onMarkersChange}
+                        onSeek={handleSeek}
+                        fileName={fileName}
+                    />
+                )}
+                <TranscriptPanel
+                    segments={transcript}
+                    currentTime={currentTime}
+                    isLoading={isTranscribing}
+                    error={transcriptError}
+                    onTranscribe={handleTranscribe}
+                    onSeek={handleSeek}
+                    fileName={fileName}
+                />
                 <div className="flex items-center justify-between px-1">
                     <div className="text-sm text-slate-500">
-                        {language === 'it' ? "Registrato il " : "Recorded on "} {new Date().toLocaleDateString()}
+                        {t('review.recordedOn', { date: formatDate(data.createdAt ?? Date.now(), language) })}
                     </div>
                     <div className="text-xs font-mono text-slate-600 bg-slate-900 px-2 py-1 rounded">
                         {(data.blob.size / 1024 / 1024).toFixed(1)} MB • {data.blob.type}
@@ -91,18 +440,27 @@ const ReviewView: React.FC<ReviewViewProps> = ({ data, onReset, language }) => {
                     <div className="flex items-center justify-between mb-6">
                         <h2 className="text-lg font-bold flex items-center gap-2 text-white">
                             <SparklesIcon className="w-5 h-5 text-indigo-400" />
-                            {language === 'it' ? "Riepilogo AI" : "AI Summary"}
+                            {t('review.aiSummary')}
                         </h2>
-                        {isLoadingAi && (
-                            <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
-                        )}
+                        <div className="flex items-center gap-2">
+                            {isLoadingAi && (
+                                <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+                            )}
+                            <button
+                                onClick={() => setShowAiSettings(true)}
+                                title={t('ai.title')}
+                                className="p-1 text-slate-500 hover:text-white transition-colors"
+                            >
+                                <Cog6ToothIcon className="w-4 h-4" />
+                            </button>
+                        </div>
                     </div>
 
                     {meta ? (
                         <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-500">
                             <div className="space-y-1">
                                 <label className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">
-                                    {language === 'it' ? "Titolo" : "Title"}
+                                    {t('review.title')}
                                 </label>
                                 <div className="text-xl font-semibold text-white leading-snug">
                                     {meta.title}
@@ -111,41 +469,192 @@ const ReviewView: React.FC<ReviewViewProps> = ({ data, onReset, language }) => {
                             <div className="w-full h-px bg-slate-800"></div>
                             <div className="space-y-1">
                                 <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
-                                    {language === 'it' ? "Descrizione" : "Description"}
+                                    {t('review.description')}
                                 </label>
-                                <p className="text-slate-300 text-sm leading-relaxed">
+                                <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-line">
                                     {meta.description}
                                 </p>
                             </div>
+                            {meta.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1.5">
+                                    {meta.tags.map(tag => (
+                                        <span key={tag} className="px-2 py-0.5 rounded-full bg-slate-800 text-[11px] text-slate-400">#{tag}</span>
+                                    ))}
+                                </div>
+                            )}
+                            {meta.confidence !== undefined && meta.confidence < LOW_CONFIDENCE && (
+                                <p className="text-[11px] text-amber-400">
+                                    {t('review.lowConfidence')}
+                                </p>
+                            )}
+                            {chapters.length > 0 && (
+                                <>
+                                    <div className="w-full h-px bg-slate-800"></div>
+                                    <div className="space-y-2">
+                                        <div className="flex items-center justify-between">
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                                                {t('review.chapters')}
+                                            </label>
+                                            <div className="flex items-center gap-2 text-[11px]">
+                                                <button
+                                                    onClick={() => navigator.clipboard.writeText(toChapterTimestamps(chapters))}
+                                                    title={t('review.copyTimestamps')}
+                                                    className="flex items-center gap-1 text-slate-500 hover:text-indigo-300 transition-colors"
+                                                >
+                                                    <ClipboardDocumentIcon className="w-3.5 h-3.5" />
+                                                    {t('markers.copy')}
+                                                </button>
+                                                {!!duration && (
+                                                    <button
+                                                        onClick={() => downloadText(toChapterVtt(chapters, duration), 'chapters.vtt', 'text/vtt')}
+                                                        className="flex items-center gap-1 text-slate-500 hover:text-indigo-300 transition-colors"
+                                                    >
+                                                        <ArrowDownTrayIcon className="w-3.5 h-3.5" /> .vtt
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                        <ul className="space-y-0.5">
+                                            {chapters.map((chapter, index) => (
+                                                <li key={index}>
+                                                    <button
+                                                        onClick={() => handleSeek(chapter.start)}
+                                                        className="w-full text-left flex gap-3 px-2 py-1 rounded-lg text-sm text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+                                                    >
+                                                        <span className="shrink-0 text-[11px] font-mono text-indigo-400 pt-0.5">{formatTimecode(chapter.start)}</span>
+                                                        <span>{chapter.title}</span>
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </>
+                            )}
                             <button 
-                                onClick={generateMagic}
+                                onClick={() => generateMagic()}
                                 disabled={isLoadingAi}
                                 className="pt-2 text-xs text-slate-500 hover:text-indigo-300 transition-colors flex items-center gap-1"
                             >
                                 <ArrowPathIcon className="w-3 h-3" /> 
-                                {language === 'it' ? "Rigenera" : "Regenerate"}
+                                {t('transcript.regenerate')}
                             </button>
                         </div>
+                    ) : aiError && !isLoadingAi ? (
+                        <div className="text-center py-6 space-y-3">
+                            <p className="text-sm text-red-400">{aiError.message}</p>
+                            <div className="flex justify-center gap-2">
+                                {aiError.needsSettings && (
+                                    <button
+                                        onClick={() => setShowAiSettings(true)}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors flex items-center gap-1.5"
+                                    >
+                                        <Cog6ToothIcon className="w-3.5 h-3.5" />
+                                        {t('review.openSettings')}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => generateMagic()}
+                                    className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors flex items-center gap-1.5"
+                                >
+                                    <ArrowPathIcon className="w-3.5 h-3.5" />
+                                    {t('review.retry')}
+                                </button>
+                            </div>
+                        </div>
                     ) : (
                         <div className="text-center py-8 text-slate-600 text-sm">
-                            {language === 'it' ? "In attesa della magia dell'AI..." : "Waiting for AI magic..."}
+                            {t('review.waiting')}
                         </div>
                     )}
                 </div>
 
                 {/* Download Card */}
-                <div className="bg-slate-900 rounded-2xl border border-slate-800 p-6 shadow-xl">
-                    <button
-                        onClick={handleDownload}
-                        className="w-full group relative flex items-center justify-center gap-3 bg-white text-slate-900 font-bold py-3.5 px-4 rounded-xl transition-all hover:bg-indigo-50 hover:scale-[1.02] active:scale-[0.98]"
-                    >
-                        <ArrowDownTrayIcon className="w-5 h-5 text-indigo-600" />
-                        {language === 'it' ? "Scarica Video" : "Download Video"}
-                    </button>
-                    <p className="text-center text-xs text-slate-500 mt-3">
-                        {language === 'it' ? "Il video viene elaborato localmente nel tuo browser." : "Your video is processed locally in your browser."}
+                <div className="bg-slate-900 rounded-2xl border border-slate-800 p-6 shadow-xl space-y-3">
+                    <div className="grid grid-cols-2 gap-1 p-1 bg-slate-800 rounded-xl">
+                        {([
+                            { id: 'mp4', label: 'MP4', hint: 'H.264 + AAC' },
+                            { id: 'webm', label: 'WebM', hint: 'VP9 + Opus' }
+                        ] as { id: ExportFormat; label: string; hint: string }[]).map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => setChosenFormat(option.id)}
+                                disabled={isConverting}
+                                className={`py-2 rounded-lg text-sm font-bold transition-colors disabled:cursor-not-allowed ${downloadFormat === option.id ? 'bg-slate-950 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                            >
+                                {option.label}
+                                <span className="block text-[10px] font-medium text-slate-500">
+                                    {option.id === sourceFormat ? t('review.originalFormat') : option.hint}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center justify-between gap-3">
+                        <label htmlFor="loudness-preset" className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                            {t('review.loudness')}
+                        </label>
+                        <select
+                            id="loudness-preset"
+                            value={loudnessPreset}
+                            onChange={(e) => setLoudnessPreset(e.target.value as AudioPreset)}
+                            disabled={isConverting}
+                            className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none focus:ring-1 focus:ring-indigo-500 disabled:cursor-not-allowed"
+                        >
+                            {AUDIO_PRESET_IDS.map(preset => {
+                                const { label, loudnessTarget } = AUDIO_PRESETS[preset];
+                                return (
+                                    <option key={preset} value={preset}>
+                                        {loudnessTarget === null ? t(label) : t('review.loudnessTarget', { preset: t(label), target: loudnessTarget })}
+                                    </option>
+                                );
+                            })}
+                        </select>
+                    </div>
+
+                    {isConverting ? (
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between text-xs text-slate-400">
+                                <span>
+                                    {t('review.converting', { format: downloadFormat.toUpperCase(), progress: Math.round(convertProgress * 100) })}
+                                </span>
+                                <button
+                                    onClick={cancelConversion}
+                                    className="flex items-center gap-1 text-slate-400 hover:text-red-400 transition-colors"
+                                >
+                                    <XMarkIcon className="w-3.5 h-3.5" />
+                                    {t('common.cancel')}
+                                </button>
+                            </div>
+                            <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-indigo-500 transition-[width]" style={{ width: `${convertProgress * 100}%` }} />
+                            </div>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={handleDownload}
+                            className="w-full group relative flex items-center justify-center gap-3 bg-white text-slate-900 font-bold py-3.5 px-4 rounded-xl transition-all hover:bg-indigo-50 hover:scale-[1.02] active:scale-[0.98]"
+                        >
+                            <ArrowDownTrayIcon className="w-5 h-5 text-indigo-600" />
+                            {t('review.download')}
+                        </button>
+                    )}
+                    {convertError && <p className="text-xs text-red-400 text-center">{convertError}</p>}
+                    <p className="text-center text-xs text-slate-500">
+                        {t('review.localNote')}
                     </p>
                 </div>
+
+                {/* Clip Card */}
+                {edit && !!duration && (
+                    <ClipExporter
+                        key={data.url}
+                        source={data.blob}
+                        duration={duration}
+                        currentTime={currentTime}
+                        trimRange={{ start: edit.inPoint, end: edit.outPoint }}
+                        fileName={fileName}
+                    />
+                )}
             </div>
         </div>
       </div>
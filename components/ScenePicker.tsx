@@ -0,0 +1,61 @@
+import React from 'react';
+import { CameraConfig } from '../types';
+import { SCENES, SceneSlot } from '../utils/scenes';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ScenePickerProps {
+  sceneId: string;
+  onChange: (sceneId: string) => void;
+  cameraConfig: CameraConfig;
+}
+
+const slotStyle = (slot: SceneSlot): React.CSSProperties => ({
+  left: `${slot.x * 100}%`,
+  top: `${slot.y * 100}%`,
+  width: `${slot.width * 100}%`,
+  height: `${slot.height * 100}%`,
+});
+
+// Each scene is previewed from its own slots, so scenes added to SCENES get a thumbnail for free
+const ScenePicker: React.FC<ScenePickerProps> = ({ sceneId, onChange, cameraConfig }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+        {SCENES.map(scene => {
+            const camera = scene.camera === 'bubble'
+                ? { x: cameraConfig.position.x, y: cameraConfig.position.y, width: cameraConfig.size * 9 / 16, height: cameraConfig.size }
+                : scene.camera;
+            const screen = scene.screen && (
+                <div key="screen" className="absolute rounded-[2px] bg-slate-500" style={slotStyle(scene.screen)} />
+            );
+            const cameraBox = camera && (
+                <div
+                    key="camera"
+                    className={`absolute bg-indigo-400 ${scene.camera === 'bubble' && cameraConfig.shape === 'circle' ? 'rounded-full' : 'rounded-sm'}`}
+                    style={slotStyle(camera)}
+                />
+            );
+            return (
+                <button
+                    key={scene.id}
+                    onClick={() => onChange(scene.id)}
+                    className={`p-1.5 rounded-lg text-left transition-colors ${sceneId === scene.id ? 'bg-indigo-600/20 ring-1 ring-indigo-500' : 'hover:bg-slate-800'}`}
+                >
+                    <div
+                        className="relative w-full aspect-video rounded overflow-hidden"
+                        style={{ backgroundColor: scene.backdrop ?? '#000' }}
+                    >
+                        {scene.screenOnTop ? [cameraBox, screen] : [screen, cameraBox]}
+                    </div>
+                    <span className={`block mt-1 text-[10px] font-bold truncate ${sceneId === scene.id ? 'text-white' : 'text-slate-400'}`}>
+                        {t(scene.label)}
+                    </span>
+                </button>
+            );
+        })}
+    </div>
+  );
+};
+
+export default ScenePicker;
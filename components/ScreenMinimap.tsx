@@ -0,0 +1,89 @@
+import React, { useEffect, useRef } from 'react';
+import { MagnifyingGlassMinusIcon } from '@heroicons/react/24/solid';
+import { CaptureRegion, ScreenViewport } from '../types';
+import { DEFAULT_VIEWPORT, clampViewport, getViewportRegion, isFullRegion } from '../utils/viewport';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ScreenMinimapProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  region: CaptureRegion;
+  viewport: ScreenViewport;
+  onChangeViewport: (viewport: ScreenViewport) => void;
+}
+
+const MINIMAP_WIDTH = 192;
+// A thumbnail does not need the full frame rate
+const REFRESH_MS = 200;
+
+// Whole shared screen in miniature: the capture region is outlined, the recorded window highlighted
+const ScreenMinimap: React.FC<ScreenMinimapProps> = ({ videoRef, region, viewport, onChangeViewport }) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const visible = getViewportRegion(region, viewport);
+
+  useEffect(() => {
+    const paint = () => {
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx || !video || video.readyState < 2 || !video.videoWidth) return;
+
+      const height = Math.round(MINIMAP_WIDTH * (video.videoHeight / video.videoWidth));
+      if (canvas.width !== MINIMAP_WIDTH || canvas.height !== height) {
+        canvas.width = MINIMAP_WIDTH;
+        canvas.height = height;
+      }
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    };
+
+    paint();
+    const interval = window.setInterval(paint, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [videoRef]);
+
+  // Clicking a spot of the capture region centers the view on it
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    onChangeViewport(clampViewport({
+      zoom: viewport.zoom,
+      center: { x: (x - region.x) / region.width, y: (y - region.y) / region.height }
+    }));
+  };
+
+  const toStyle = (area: CaptureRegion) => ({
+    left: `${area.x * 100}%`,
+    top: `${area.y * 100}%`,
+    width: `${area.width * 100}%`,
+    height: `${area.height * 100}%`,
+  });
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-slate-700/50 p-1.5 rounded-2xl shadow-2xl ring-1 ring-white/10">
+        <div onClick={handleClick} className="relative rounded-lg overflow-hidden cursor-pointer bg-black" style={{ width: MINIMAP_WIDTH }}>
+            <canvas ref={canvasRef} className="block w-full opacity-60" />
+            {!isFullRegion(region) && (
+                <div className="absolute border border-dashed border-white/50 pointer-events-none" style={toStyle(region)} />
+            )}
+            <div
+                className="absolute border-2 border-indigo-400 bg-indigo-400/10 rounded-sm pointer-events-none transition-all duration-150"
+                style={toStyle(visible)}
+            />
+        </div>
+        <div className="flex items-center justify-between px-1 pt-1.5">
+            <span className="font-mono text-[11px] font-bold text-slate-400 tabular-nums">{viewport.zoom.toFixed(1)}×</span>
+            <button
+                onClick={() => onChangeViewport(DEFAULT_VIEWPORT)}
+                disabled={viewport.zoom === 1}
+                title={t('minimap.resetZoom')}
+                className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+                <MagnifyingGlassMinusIcon className="w-4 h-4" />
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ScreenMinimap;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, CommandLineIcon } from '@heroicons/react/24/outline';
+import { ShortcutAction, ShortcutBindings } from '../types';
+import { DEFAULT_SHORTCUTS, SHORTCUT_ACTIONS } from '../services/shortcutSettings';
+import { eventToCombo, findConflicts, isUsableCombo } from '../utils/shortcuts';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../locales/en';
+
+interface ShortcutSettingsDialogProps {
+  bindings: ShortcutBindings;
+  onSave: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+const SHORTCUT_LABELS: Record<ShortcutAction, MessageKey> = {
+  start: 'shortcuts.action.start',
+  togglePause: 'shortcuts.action.togglePause',
+  stop: 'shortcuts.action.stop',
+  toggleCamera: 'shortcuts.action.toggleCamera',
+  cycleShape: 'shortcuts.action.cycleShape',
+  addMarker: 'shortcuts.action.addMarker',
+  annotate: 'shortcuts.action.annotate',
+};
+
+const ShortcutSettingsDialog: React.FC<ShortcutSettingsDialogProps> = ({ bindings, onSave, onClose }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<ShortcutBindings>(bindings);
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [rejected, setRejected] = useState<string | null>(null);
+  const conflicts = findConflicts(draft);
+
+  // While capturing, the next key press becomes the binding (Escape cancels, Backspace unbinds)
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      if (e.key === 'Backspace' || e.key === 'Delete') {
+        setDraft(prev => ({ ...prev, [capturing]: '' }));
+        setCapturing(null);
+        return;
+      }
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      if (!isUsableCombo(combo)) {
+        setRejected(combo);
+        return;
+      }
+      setRejected(null);
+      setDraft(prev => ({ ...prev, [capturing]: combo }));
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing]);
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+        <div className="w-full max-w-md bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-bold flex items-center gap-2 text-white">
+                    <CommandLineIcon className="w-5 h-5 text-indigo-400" />
+                    {t('shortcuts.title')}
+                </h2>
+                <button onClick={onClose} className="p-1 text-slate-500 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+            </div>
+
+            <div className="space-y-1.5">
+                {SHORTCUT_ACTIONS.map(action => {
+                    const isConflict = conflicts.includes(action);
+                    return (
+                        <div key={action} className="flex items-center justify-between gap-3">
+                            <span className="text-sm text-slate-300">{t(SHORTCUT_LABELS[action])}</span>
+                            <button
+                                onClick={() => { setRejected(null); setCapturing(capturing === action ? null : action); }}
+                                className={`min-w-[8rem] px-3 py-1.5 rounded-lg font-mono text-xs font-bold border transition-colors ${
+                                    capturing === action
+                                    ? 'bg-indigo-600 border-indigo-500 text-white animate-pulse'
+                                    : isConflict
+                                        ? 'bg-red-500/10 border-red-500/50 text-red-300'
+                                        : 'bg-slate-800 border-slate-700 text-slate-300 hover:text-white'
+                                }`}
+                            >
+                                {capturing === action
+                                    ? t('shortcuts.pressKeys')
+                                    : (draft[action] || t('shortcuts.unbound'))}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {rejected && (
+                <p className="text-xs text-amber-400">
+                    {t('shortcuts.unusable', { combo: rejected })}
+                </p>
+            )}
+            {conflicts.length > 0 && (
+                <p className="text-xs text-red-400">
+                    {t('shortcuts.conflict')}
+                </p>
+            )}
+            <p className="text-[11px] text-slate-600">
+                {t('shortcuts.hint')}
+            </p>
+
+            <div className="flex items-center justify-between gap-2">
+                <button onClick={() => setDraft(DEFAULT_SHORTCUTS)} className="px-3 py-2 rounded-xl text-xs font-bold text-slate-500 hover:text-white hover:bg-slate-800 transition-colors">
+                    {t('shortcuts.resetToDefaults')}
+                </button>
+                <div className="flex gap-2">
+                    <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={conflicts.length > 0}
+                        className="px-4 py-2 rounded-xl text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('common.save')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ShortcutSettingsDialog;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { ChatBubbleBottomCenterTextIcon, ArrowDownTrayIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { TranscriptSegment } from '../types';
+import { toSrt, toWebVtt } from '../utils/captions';
+import { formatTimecode } from './TrimEditor';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface TranscriptPanelProps {
+  segments: TranscriptSegment[] | null;
+  currentTime: number;
+  isLoading: boolean;
+  error: string | null;
+  onTranscribe: () => void;
+  onSeek: (time: number) => void;
+  fileName: string; // Without extension
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ segments, currentTime, isLoading, error, onTranscribe, onSeek, fileName }) => {
+  const { t } = useTranslation();
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const activeIndex = segments ? segments.findIndex(segment => currentTime >= segment.start && currentTime < segment.end) : -1;
+
+  // Follow playback without yanking the whole page around
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const download = (content: string, ext: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}.${ext}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const buttonClass = "px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1.5";
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 p-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-bold flex items-center gap-2 text-white">
+                <ChatBubbleBottomCenterTextIcon className="w-4 h-4 text-indigo-400" />
+                {t('transcript.title')}
+                {isLoading && <span className="w-3.5 h-3.5 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></span>}
+            </h2>
+            <div className="flex items-center gap-2">
+                {segments && segments.length > 0 && (
+                    <>
+                        <button onClick={() => download(toWebVtt(segments), 'vtt', 'text/vtt')} className={buttonClass}>
+                            <ArrowDownTrayIcon className="w-3.5 h-3.5" /> .vtt
+                        </button>
+                        <button onClick={() => download(toSrt(segments), 'srt', 'application/x-subrip')} className={buttonClass}>
+                            <ArrowDownTrayIcon className="w-3.5 h-3.5" /> .srt
+                        </button>
+                    </>
+                )}
+                <button onClick={onTranscribe} disabled={isLoading} className={buttonClass}>
+                    <ArrowPathIcon className="w-3.5 h-3.5" />
+                    {segments
+                        ? t('transcript.regenerate')
+                        : t('transcript.transcribe')}
+                </button>
+            </div>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {segments && (
+            segments.length === 0 ? (
+                <p className="text-xs text-slate-500">{t('transcript.noSpeech')}</p>
+            ) : (
+                <div className="max-h-64 overflow-y-auto space-y-0.5 pr-1">
+                    {segments.map((segment, index) => (
+                        <button
+                            key={index}
+                            ref={index === activeIndex ? activeRef : undefined}
+                            onClick={() => onSeek(segment.start)}
+                            className={`w-full text-left flex gap-3 px-2 py-1.5 rounded-lg text-sm transition-colors ${index === activeIndex ? 'bg-indigo-500/15 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+                        >
+                            <span className="shrink-0 text-[11px] font-mono text-slate-500 pt-0.5">{formatTimecode(segment.start)}</span>
+                            <span className="leading-relaxed">{segment.text}</span>
+                        </button>
+                    ))}
+                </div>
+            )
+        )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
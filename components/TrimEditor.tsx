@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { ScissorsIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { EditDecision, TimeRange, Marker } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface TrimEditorProps {
+  duration: number;
+  currentTime: number;
+  edit: EditDecision;
+  onChange: (edit: EditDecision) => void;
+  onSeek: (time: number) => void;
+  markers?: Marker[];
+}
+
+type DragMode = { kind: 'select'; anchor: number } | { kind: 'in' } | { kind: 'out' };
+
+// Pointer travel (px) below which a press on the track counts as a click-to-seek
+const CLICK_THRESHOLD = 4;
+
+export const formatTimecode = (seconds: number) => {
+  const safe = Math.max(0, seconds);
+  const mins = Math.floor(safe / 60);
+  const secs = safe - mins * 60;
+  return `${mins}:${secs.toFixed(1).padStart(4, '0')}`;
+};
+
+const TrimEditor: React.FC<TrimEditorProps> = ({ duration, currentTime, edit, onChange, onSeek, markers = [] }) => {
+  const { t } = useTranslation();
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number } | null>(null);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+
+  const toPct = (time: number) => `${(time / duration) * 100}%`;
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, mode: DragMode) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const time = timeAt(e.clientX);
+
+    if (drag.mode.kind === 'in') {
+      onChange({ ...edit, inPoint: Math.min(time, edit.outPoint - 0.1) });
+    } else if (drag.mode.kind === 'out') {
+      onChange({ ...edit, outPoint: Math.max(time, edit.inPoint + 0.1) });
+    } else if (Math.abs(e.clientX - drag.startX) > CLICK_THRESHOLD) {
+      const anchor = drag.mode.anchor;
+      setSelection({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode.kind === 'select' && Math.abs(e.clientX - drag.startX) <= CLICK_THRESHOLD) {
+      setSelection(null);
+      onSeek(timeAt(e.clientX));
+    }
+  };
+
+  const cutSelection = () => {
+    if (!selection) return;
+    onChange({ ...edit, cuts: [...edit.cuts, selection] });
+    setSelection(null);
+  };
+
+  const removeCut = (index: number) => {
+    onChange({ ...edit, cuts: edit.cuts.filter((_, i) => i !== index) });
+  };
+
+  const resetEdit = () => {
+    setSelection(null);
+    onChange({ inPoint: 0, outPoint: duration, cuts: [] });
+  };
+
+  const buttonClass = "px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1.5";
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 p-4 space-y-3">
+        {/* Timeline Track */}
+        <div
+            ref={trackRef}
+            onPointerDown={(e) => handlePointerDown(e, { kind: 'select', anchor: timeAt(e.clientX) })}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="relative h-12 bg-slate-800 rounded-lg cursor-crosshair select-none touch-none overflow-hidden"
+        >
+            {/* Kept region between in and out */}
+            <div
+                className="absolute inset-y-0 bg-indigo-500/25 border-y-2 border-indigo-500"
+                style={{ left: toPct(edit.inPoint), width: toPct(edit.outPoint - edit.inPoint) }}
+            />
+
+            {/* Removed sections (click to restore) */}
+            {edit.cuts.map((cut, index) => (
+                <div
+                    key={index}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => removeCut(index)}
+                    title={t('trim.restoreHint')}
+                    className="absolute inset-y-0 bg-red-500/40 bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(0,0,0,0.25)_6px,rgba(0,0,0,0.25)_12px)] cursor-pointer hover:bg-red-500/60"
+                    style={{ left: toPct(cut.start), width: toPct(cut.end - cut.start) }}
+                />
+            ))}
+
+            {/* Pending selection */}
+            {selection && (
+                <div
+                    className="absolute inset-y-0 bg-white/20 border-x border-white pointer-events-none"
+                    style={{ left: toPct(selection.start), width: toPct(selection.end - selection.start) }}
+                />
+            )}
+
+            {/* In / Out handles */}
+            <div
+                onPointerDown={(e) => handlePointerDown(e, { kind: 'in' })}
+                className="absolute inset-y-0 w-2 -ml-1 bg-indigo-400 rounded cursor-ew-resize"
+                style={{ left: toPct(edit.inPoint) }}
+            />
+            <div
+                onPointerDown={(e) => handlePointerDown(e, { kind: 'out' })}
+                className="absolute inset-y-0 w-2 -ml-1 bg-indigo-400 rounded cursor-ew-resize"
+                style={{ left: toPct(edit.outPoint) }}
+            />
+
+            {/* Markers dropped while recording (click to jump) */}
+            {markers.map(marker => (
+                <div
+                    key={marker.id}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => onSeek(marker.time)}
+                    title={`${formatTimecode(marker.time)} ${marker.label}`}
+                    className="absolute top-0 w-3 h-3 -ml-1.5 bg-amber-400 rotate-45 -translate-y-1.5 cursor-pointer hover:bg-amber-300 z-10"
+                    style={{ left: toPct(marker.time) }}
+                />
+            ))}
+
+            {/* Playhead */}
+            <div className="absolute inset-y-0 w-0.5 bg-white pointer-events-none" style={{ left: toPct(currentTime) }} />
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => onChange({ ...edit, inPoint: Math.min(currentTime, edit.outPoint - 0.1) })} className={buttonClass}>
+                [ {t('trim.setIn')}
+            </button>
+            <button onClick={() => onChange({ ...edit, outPoint: Math.max(currentTime, edit.inPoint + 0.1) })} className={buttonClass}>
+                {t('trim.setOut')} ]
+            </button>
+            <button onClick={cutSelection} disabled={!selection} className={buttonClass}>
+                <ScissorsIcon className="w-3.5 h-3.5" />
+                {t('trim.deleteSelection')}
+            </button>
+            <button onClick={resetEdit} className={buttonClass}>
+                <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+                {t('trim.reset')}
+            </button>
+            <span className="ml-auto text-xs font-mono text-slate-500">
+                {selection
+                    ? `${formatTimecode(selection.start)} – ${formatTimecode(selection.end)}`
+                    : `${formatTimecode(currentTime)} / ${formatTimecode(duration)}`}
+            </span>
+        </div>
+        <p className="text-[11px] text-slate-500">
+            {t('trim.hint')}
+        </p>
+    </div>
+  );
+};
+
+export default TrimEditor;
@@ -0,0 +1,75 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { DeviceSelection } from '../types';
+
+const STORAGE_KEY = 'recordi.devices';
+
+const loadSelection = (): DeviceSelection => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return {
+        cameraId: typeof parsed.cameraId === 'string' ? parsed.cameraId : null,
+        microphoneId: typeof parsed.microphoneId === 'string' ? parsed.microphoneId : null,
+      };
+    }
+  } catch (err) {
+    console.warn("Could not read saved devices", err);
+  }
+  return { cameraId: null, microphoneId: null };
+};
+
+/**
+ * Lists cameras and microphones, keeps the list fresh on `devicechange`
+ * and remembers the user's choice in localStorage between sessions.
+ */
+export const useMediaDevices = () => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [savedSelection, setSavedSelection] = useState<DeviceSelection>(loadSelection);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      // Before permission is granted browsers return entries with empty ids; skip those
+      setCameras(devices.filter(d => d.kind === 'videoinput' && d.deviceId));
+      setMicrophones(devices.filter(d => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default'));
+    } catch (err) {
+      console.error("Could not enumerate devices", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const updateSelection = useCallback((patch: Partial<DeviceSelection>) => {
+    setSavedSelection(prev => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const setCameraId = useCallback((cameraId: string | null) => updateSelection({ cameraId }), [updateSelection]);
+  const setMicrophoneId = useCallback((microphoneId: string | null) => updateSelection({ microphoneId }), [updateSelection]);
+
+  // A remembered device that is not plugged in right now falls back to the default,
+  // but stays saved so it is picked again once reconnected.
+  const selection = useMemo<DeviceSelection>(() => ({
+    cameraId: cameras.some(d => d.deviceId === savedSelection.cameraId) ? savedSelection.cameraId : null,
+    microphoneId: microphones.some(d => d.deviceId === savedSelection.microphoneId) ? savedSelection.microphoneId : null,
+  }), [cameras, microphones, savedSelection]);
+
+  return {
+    cameras,
+    microphones,
+    selection,
+    setCameraId,
+    setMicrophoneId,
+    refresh
+  };
+};
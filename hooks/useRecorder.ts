@@ -1,37 +1,95 @@
-
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { RecordingData, CameraConfig } from '../types';
+import { RecordingData, CameraConfig, RecorderConfig, DeviceSelection, Annotation, ScreenViewport, Marker, AudioMix, AudioSource, BrandingOverlay } from '../types';
+import { drawCameraLayer, drawScreenLayer, drawVideoCover, drawWaveform } from '../utils/compositor';
+import { blendLayouts, DEFAULT_SCENE_ID, getScene, resolveScene, SCENE_TRANSITION_MS, SceneLayout } from '../utils/scenes';
+import { drawAnnotations } from '../utils/annotations';
+import { createOverlayRenderer } from '../utils/brandingOverlays';
+import { easeViewport, getRegionSize, getSourceRect } from '../utils/viewport';
+import { createCameraBackgroundProcessor, CameraBackgroundProcessor } from '../services/cameraBackground';
+import { createAudioMixer, AudioMixer } from '../services/audioMixer';
+import { createFrameScheduler, FrameScheduler, FrameStats } from '../services/frameScheduler';
+import { createVoiceChain, VoiceChain } from '../services/audioProcessing';
+import { buildCameraConstraints, buildDisplayConstraints, buildMicrophoneConstraints } from '../utils/mediaConstraints';
+import { TranslatableError } from '../utils/i18n';
+import { AUDIO_BITRATE, fitToQuality, getSupportedMimeType } from '../utils/recordingQuality';
+import { createSession, appendChunk } from '../services/sessionStore';
+import { repairWebm } from '../utils/webm';
 
 interface UseRecorderProps {
   onStop: (data: RecordingData) => void;
   cameraConfig: CameraConfig;
+  recorderConfig: RecorderConfig;
+  deviceSelection: DeviceSelection;
+  annotations: Annotation[];
+  viewport: ScreenViewport;
+  audioMix: AudioMix;
+  sceneId: string;
+  overlays: BrandingOverlay[];
 }
 
-const getSupportedMimeType = () => {
-  const types = [
-    'video/webm;codecs=vp9,opus',
-    'video/webm;codecs=vp8,opus',
-    'video/webm',
-    'video/mp4',
-  ];
-  return types.find(type => MediaRecorder.isTypeSupported(type)) || '';
+type InputKind = 'camera' | 'microphone';
+
+// Canvas size used when there is no video source to take dimensions from (audio-only)
+const PLACEHOLDER_FRAME = { width: 1280, height: 720 };
+
+const createHiddenVideo = () => {
+  const video = document.createElement('video');
+  video.style.display = 'none';
+  video.muted = true;
+  video.playsInline = true;
+  document.body.appendChild(video);
+  return video;
 };
 
-export const useRecorder = ({ onStop, cameraConfig }: UseRecorderProps) => {
+export const useRecorder = ({ onStop, cameraConfig, recorderConfig, deviceSelection, annotations, viewport, audioMix, sceneId, overlays }: UseRecorderProps) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const [audioSources, setAudioSources] = useState<AudioSource[]>([]);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
   
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const screenVideoRef = useRef<HTMLVideoElement | null>(null);
   const cameraVideoRef = useRef<HTMLVideoElement | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
+  const schedulerRef = useRef<FrameScheduler | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const destNodeRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const mixerRef = useRef<AudioMixer | null>(null);
+  const voiceChainRef = useRef<VoiceChain | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const swappingRef = useRef<Record<InputKind, boolean>>({ camera: false, microphone: false });
+  const backgroundRef = useRef<CameraBackgroundProcessor | null>(null);
+
+  // Wall-clock bookkeeping for the recorded duration (the 1s UI timer is too coarse)
+  const startedAtRef = useRef(0);
+  const pausedAtRef = useRef<number | null>(null);
+  const pausedTotalRef = useRef(0);
+
+  // Set while a countdown runs between getting the sources and starting the recorder
+  const countdownRef = useRef<{ cancelled: boolean } | null>(null);
+  const markersRef = useRef<Marker[]>([]);
+
+  // Crash safety: chunks are mirrored to IndexedDB under this session id as they arrive
+  const sessionIdRef = useRef<string | null>(null);
+  const chunkIndexRef = useRef(0);
+  const sessionWritesRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Devices are read when a recording starts; later changes go through switchCamera/switchMicrophone
+  const devicesRef = useRef(deviceSelection);
+  useEffect(() => {
+    devicesRef.current = deviceSelection;
+  }, [deviceSelection]);
 
   // Keep a ref of config so the animation loop can access the latest value without restarting
   const configRef = useRef(cameraConfig);
@@ -39,234 +97,533 @@ export const useRecorder = ({ onStop, cameraConfig }: UseRecorderProps) => {
     configRef.current = cameraConfig;
   }, [cameraConfig]);
 
-  // Timer Logic
+  const annotationsRef = useRef(annotations);
   useEffect(() => {
-    let interval: number;
-    if (isRecording && !isPaused) {
-      interval = window.setInterval(() => {
-        setElapsedTime(prev => prev + 1);
-      }, 1000);
-    }
+    annotationsRef.current = annotations;
+  }, [annotations]);
+
+  // Zoom/pan target; the draw loop eases the displayed viewport towards it
+  const viewportRef = useRef(viewport);
+  useEffect(() => {
+    viewportRef.current = viewport;
+  }, [viewport]);
+
+  // Scene switches are picked up by the draw loop, which animates to the new layout
+  const sceneRef = useRef(sceneId);
+  useEffect(() => {
+    sceneRef.current = sceneId;
+  }, [sceneId]);
+
+  const overlaysRef = useRef(overlays);
+  useEffect(() => {
+    overlaysRef.current = overlays;
+  }, [overlays]);
+
+  // Gain and mute apply to the live mix as they change
+  const audioMixRef = useRef(audioMix);
+  useEffect(() => {
+    audioMixRef.current = audioMix;
+    mixerRef.current?.apply(audioMix);
+  }, [audioMix]);
+
+  // The microphone preset can be switched mid-recording, e.g. after hearing the gate cut in
+  const audioPresetRef = useRef(recorderConfig.audioPreset);
+  useEffect(() => {
+    audioPresetRef.current = recorderConfig.audioPreset;
+    voiceChainRef.current?.setPreset(recorderConfig.audioPreset);
+  }, [recorderConfig.audioPreset]);
+
+  // Timer and frame statistics. Derived from the clock rather than counted, because page
+  // timers are throttled while the presenter is in another tab.
+  useEffect(() => {
+    if (!isRecording) return;
+    const update = () => {
+      setElapsedTime(Math.floor(getActiveDuration()));
+      if (schedulerRef.current) setFrameStats(schedulerRef.current.getStats());
+    };
+    update();
+    const interval = window.setInterval(update, 1000);
     return () => clearInterval(interval);
-  }, [isRecording, isPaused]);
+  }, [isRecording]);
+
+  // Seconds of media recorded so far, excluding pauses
+  const getActiveDuration = () => {
+    const now = performance.now();
+    const pausedFor = pausedTotalRef.current + (pausedAtRef.current !== null ? now - pausedAtRef.current : 0);
+    return (now - startedAtRef.current - pausedFor) / 1000;
+  };
+
+  const persistChunk = (chunk: Blob) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+    const index = chunkIndexRef.current++;
+    const duration = getActiveDuration();
+    // Chained so chunks hit the disk in order even if a write is slow
+    sessionWritesRef.current = sessionWritesRef.current
+      .then(() => appendChunk(sessionId, index, chunk, duration))
+      .catch(err => console.warn("Could not persist recording chunk", err));
+  };
+
+  // Routes a microphone stream into the mix, replacing the previous microphone source
+  const connectMicrophone = (stream: MediaStream) => {
+    const audioContext = audioContextRef.current;
+    const voiceChain = voiceChainRef.current;
+
+    micSourceRef.current?.disconnect();
+    micSourceRef.current = null;
+    if (!audioContext || !voiceChain || stream.getAudioTracks().length === 0) return;
+
+    const micSource = audioContext.createMediaStreamSource(stream);
+    micSource.connect(voiceChain.input);
+    if (analyserRef.current) micSource.connect(analyserRef.current);
+    micSourceRef.current = micSource;
+  };
+
+  const acquireInput = (kind: InputKind, deviceId: string | null) => {
+    return navigator.mediaDevices.getUserMedia(kind === 'camera'
+      ? { video: buildCameraConstraints(deviceId), audio: false }
+      : { video: false, audio: buildMicrophoneConstraints(deviceId) });
+  };
+
+  const stopStream = (stream: MediaStream | null) => {
+    stream?.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+    });
+  };
 
-  const startRecording = useCallback(async () => {
+  // Makes `stream` the live camera or microphone input, stopping whatever it replaces
+  const attachInput = async (kind: InputKind, stream: MediaStream) => {
+    const previous = kind === 'camera' ? cameraStreamRef.current : micStreamRef.current;
+    if (previous && previous !== stream) stopStream(previous);
+
+    // An unplugged device ends its track: recover instead of freezing the bubble or the mix
+    stream.getTracks().forEach(track => {
+        track.onended = () => {
+            recoverInput(kind, track.getSettings().deviceId ?? null);
+        };
+    });
+
+    if (kind === 'camera') {
+      cameraStreamRef.current = stream;
+      if (cameraVideoRef.current) {
+        cameraVideoRef.current.srcObject = stream;
+        await cameraVideoRef.current.play();
+      }
+    } else {
+      micStreamRef.current = stream;
+      connectMicrophone(stream);
+    }
+  };
+
+  const detachInput = (kind: InputKind) => {
+    if (kind === 'camera') {
+      stopStream(cameraStreamRef.current);
+      cameraStreamRef.current = null;
+      // Without a source the bubble is skipped rather than showing a frozen frame
+      if (cameraVideoRef.current) cameraVideoRef.current.srcObject = null;
+    } else {
+      stopStream(micStreamRef.current);
+      micStreamRef.current = null;
+      micSourceRef.current?.disconnect();
+      micSourceRef.current = null;
+    }
+  };
+
+  // Fall back to the default device, then to any other device of the same kind
+  const recoverInput = async (kind: InputKind, lostDeviceId: string | null) => {
+    if (swappingRef.current[kind] || !mediaRecorderRef.current) return;
+    swappingRef.current[kind] = true;
+
+    try {
+      const deviceKind = kind === 'camera' ? 'videoinput' : 'audioinput';
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const candidates: (string | null)[] = [
+        null,
+        ...devices
+          .filter(d => d.kind === deviceKind && d.deviceId && d.deviceId !== 'default' && d.deviceId !== lostDeviceId)
+          .map(d => d.deviceId)
+      ];
+
+      for (const deviceId of candidates) {
+        try {
+          const stream = await acquireInput(kind, deviceId);
+          // The recording may have finished while we were waiting for the device
+          if (!mediaRecorderRef.current) {
+            stopStream(stream);
+            return;
+          }
+          await attachInput(kind, stream);
+          return;
+        } catch (err) {
+          console.warn(`Fallback ${kind} ${deviceId ?? 'default'} unavailable`, err);
+        }
+      }
+
+      console.error(`No ${kind} left to fall back to`);
+      detachInput(kind);
+    } finally {
+      swappingRef.current[kind] = false;
+    }
+  };
+
+  const switchInput = async (kind: InputKind, deviceId: string | null) => {
+    const inUse = kind === 'camera' ? recorderConfig.showCamera : recorderConfig.audioEnabled;
+    if (!mediaRecorderRef.current || !inUse || swappingRef.current[kind]) return;
+    swappingRef.current[kind] = true;
+
+    try {
+      const stream = await acquireInput(kind, deviceId);
+      await attachInput(kind, stream);
+    } catch (err: any) {
+      console.error(`Error switching ${kind}:`, err);
+      setError(err.message || `Failed to switch ${kind}`);
+    } finally {
+      swappingRef.current[kind] = false;
+    }
+  };
+
+  const switchCamera = (deviceId: string | null) => switchInput('camera', deviceId);
+  const switchMicrophone = (deviceId: string | null) => switchInput('microphone', deviceId);
+
+  // Some browsers only report an unplugged device through `devicechange`
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const handleDeviceChange = () => {
+      (['camera', 'microphone'] as InputKind[]).forEach(kind => {
+        const stream = kind === 'camera' ? cameraStreamRef.current : micStreamRef.current;
+        const track = stream?.getTracks()[0];
+        if (track && track.readyState === 'ended') {
+          recoverInput(kind, track.getSettings().deviceId ?? null);
+        }
+      });
+    };
+
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording]);
+
+  /**
+   * Acquires the sources and starts recording, optionally after a countdown with the live preview showing.
+   * Resolves to false when the countdown was cancelled.
+   */
+  const startRecording = useCallback(async (countdownSeconds = 0) => {
     setError(null);
     setElapsedTime(0);
+    setFrameStats(null);
     chunksRef.current = [];
+    markersRef.current = [];
+    setMarkers([]);
     setIsPaused(false);
+
+    const { showScreen, showCamera, audioEnabled, quality } = recorderConfig;
+    const { cameraId, microphoneId } = devicesRef.current;
     
     try {
-      // 1. Create and attach hidden video elements to DOM
-      const screenVid = document.createElement('video');
-      screenVid.style.display = 'none';
-      screenVid.muted = true;
-      screenVid.playsInline = true;
-      document.body.appendChild(screenVid);
-      screenVideoRef.current = screenVid;
-
-      const camVid = document.createElement('video');
-      camVid.style.display = 'none';
-      camVid.muted = true;
-      camVid.playsInline = true;
-      document.body.appendChild(camVid);
-      cameraVideoRef.current = camVid;
-
-      // 2. Get Screen Stream
-      const screenStream = await navigator.mediaDevices.getDisplayMedia({
-        video: { 
-            width: { ideal: 1920 },
-            height: { ideal: 1080 },
-            frameRate: 30 
-        },
-        audio: true,
-      });
+      if (!showScreen && !showCamera && !audioEnabled) {
+        throw new TranslatableError('error.nothingToRecord');
+      }
 
-      screenStream.getVideoTracks()[0].onended = () => {
-        stopRecording(); 
-      };
+      // 1. Get Screen Stream (skipped entirely when the screen is not part of the recording)
+      let screenStream: MediaStream | null = null;
+      if (showScreen) {
+        screenStream = await navigator.mediaDevices.getDisplayMedia({
+          video: buildDisplayConstraints(quality, recorderConfig.captureRegion),
+          audio: audioEnabled,
+        });
+        screenStreamRef.current = screenStream;
+
+        screenStream.getVideoTracks()[0].onended = () => {
+          stopRecording(); 
+        };
+      }
 
-      // 3. Get Camera/Mic Stream
-      const userStream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-            width: { ideal: 640 }, 
-            height: { ideal: 480 }, 
-            facingMode: 'user' 
-        },
-        audio: { 
-            echoCancellation: true, 
-            noiseSuppression: true,
-            autoGainControl: true
-        }
-      });
+      // 2. Get Camera/Mic Stream (only the parts the mode asks for, so no needless prompts).
+      // One request keeps it to a single permission prompt; the tracks are then managed separately.
+      let cameraStream: MediaStream | null = null;
+      let micStream: MediaStream | null = null;
+      if (showCamera || audioEnabled) {
+        const userStream = await navigator.mediaDevices.getUserMedia({
+          video: showCamera ? buildCameraConstraints(cameraId) : false,
+          audio: audioEnabled ? buildMicrophoneConstraints(microphoneId) : false
+        });
+        if (showCamera) cameraStream = new MediaStream(userStream.getVideoTracks());
+        if (audioEnabled) micStream = new MediaStream(userStream.getAudioTracks());
+        cameraStreamRef.current = cameraStream;
+        micStreamRef.current = micStream;
+      }
 
-      screenVid.srcObject = screenStream;
-      camVid.srcObject = userStream;
+      // 3. Audio Mixing
+      if (audioEnabled) {
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        const audioContext = new AudioContextClass();
+        audioContextRef.current = audioContext;
+        
+        if (audioContext.state === 'suspended') {
+            await audioContext.resume();
+        }
 
-      await Promise.all([
-        screenVid.play(),
-        camVid.play()
-      ]);
+        destNodeRef.current = audioContext.createMediaStreamDestination();
+        mixerRef.current = createAudioMixer(audioContext, destNodeRef.current, audioMixRef.current);
+        // The microphone reaches the mix through the processing chain; devices plug into its input
+        voiceChainRef.current = await createVoiceChain(audioContext, audioPresetRef.current);
+        mixerRef.current.connect('microphone', voiceChainRef.current.output);
+
+        // Audio-only recordings visualise the microphone as a waveform
+        if (!showScreen && !showCamera) {
+          const analyser = audioContext.createAnalyser();
+          analyser.fftSize = 2048;
+          analyserRef.current = analyser;
+        }
+        
+        if (screenStream && screenStream.getAudioTracks().length > 0) {
+          const sysSource = audioContext.createMediaStreamSource(screenStream);
+          mixerRef.current.connect('system', sysSource);
+        }
+        setAudioSources(screenStream && screenStream.getAudioTracks().length > 0 ? ['microphone', 'system'] : ['microphone']);
+      }
+      const destNode = destNodeRef.current;
+
+      // 4. Attach sources to hidden video elements and the mix
+      const attaching: Promise<void>[] = [];
+      if (screenStream) {
+        const screenVid = createHiddenVideo();
+        screenVid.srcObject = screenStream;
+        screenVideoRef.current = screenVid;
+        attaching.push(screenVid.play());
+      }
+      if (cameraStream) {
+        cameraVideoRef.current = createHiddenVideo();
+        attaching.push(attachInput('camera', cameraStream));
+        backgroundRef.current = createCameraBackgroundProcessor(message => {
+          console.warn("Camera background disabled:", message);
+          setError(message);
+        });
+      }
+      if (micStream) {
+        attaching.push(attachInput('microphone', micStream));
+      }
+      await Promise.all(attaching);
 
-      // 4. Setup Canvas
+      // 5. Setup Canvas
       const canvas = canvasRef.current;
       if (!canvas) throw new Error("Canvas not initialized");
       
-      const { width, height } = screenStream.getVideoTracks()[0].getSettings();
-      canvas.width = width || 1920;
-      canvas.height = height || 1080;
+      const region = recorderConfig.captureRegion;
+      if (screenStream) {
+        // The recorded frame is the capture region at native resolution (up to the quality cap), so zooming in stays sharp
+        const { width, height } = screenStream.getVideoTracks()[0].getSettings();
+        const size = fitToQuality(getRegionSize(region, width || quality.width, height || quality.height), quality);
+        canvas.width = size.width;
+        canvas.height = size.height;
+      } else if (cameraStream) {
+        // Camera-only: record at the camera's native resolution (up to the quality cap)
+        const { width, height } = cameraStream.getVideoTracks()[0].getSettings();
+        const size = fitToQuality({
+          width: width || cameraVideoRef.current?.videoWidth || 640,
+          height: height || cameraVideoRef.current?.videoHeight || 480
+        }, quality);
+        canvas.width = size.width;
+        canvas.height = size.height;
+      } else {
+        canvas.width = PLACEHOLDER_FRAME.width;
+        canvas.height = PLACEHOLDER_FRAME.height;
+      }
       
       const ctx = canvas.getContext('2d', { alpha: false });
+      const waveformSamples = new Uint8Array(2048);
+      let shownViewport = viewportRef.current;
+      let lastFrameAt = performance.now();
+      // Set once recording starts; each composited frame is then pushed to the recorder explicitly
+      let captureTrack: CanvasCaptureMediaStreamTrack | null = null;
+      // Scene transition state: the layout drawn last frame is where a new transition starts from
+      let shownSceneId = sceneRef.current;
+      let transition: { from: SceneLayout; startedAt: number } | null = null;
+      let lastLayout: SceneLayout | null = null;
+      const overlayRenderer = createOverlayRenderer();
       
       const draw = () => {
-        if (!ctx || !screenVideoRef.current || !cameraVideoRef.current) return;
-
-        const { size, shape, borderColor, borderWidth, position } = configRef.current;
+        if (!ctx) return;
+
+        const now = performance.now();
+        shownViewport = easeViewport(shownViewport, viewportRef.current, now - lastFrameAt);
+        lastFrameAt = now;
+
+        const screenVideo = screenVideoRef.current;
+        const cameraVideo = cameraVideoRef.current;
+
+        if (showScreen) {
+            // Scenes only rearrange screen and camera; without a camera the default scene is just the screen
+            const scene = getScene(showCamera ? sceneRef.current : DEFAULT_SCENE_ID);
+            const target = resolveScene(scene, configRef.current, canvas.width, canvas.height);
+            if (scene.id !== shownSceneId) {
+                shownSceneId = scene.id;
+                transition = lastLayout ? { from: lastLayout, startedAt: now } : null;
+            }
+            let layout = target;
+            if (transition) {
+                const progress = (now - transition.startedAt) / SCENE_TRANSITION_MS;
+                if (progress >= 1) transition = null;
+                else layout = blendLayouts(transition.from, target, progress);
+            }
+            lastLayout = layout;
 
-        // Draw Screen
-        if (screenVideoRef.current.readyState >= 2) {
-            ctx.drawImage(screenVideoRef.current, 0, 0, canvas.width, canvas.height);
-        } else {
-            ctx.fillStyle = '#000';
+            ctx.fillStyle = layout.backdrop;
             ctx.fillRect(0, 0, canvas.width, canvas.height);
-        }
 
-        // Draw Camera (PIP)
-        if (cameraVideoRef.current.readyState >= 2) {
-            // Calculate dynamic size based on percentage of MIN dimension (standard behavior)
-            const minDim = Math.min(canvas.width, canvas.height);
-            const camDrawSize = minDim * size; 
-            
-            // Use config position (percentage) converted to pixels
-            const x = position.x * canvas.width;
-            const y = position.y * canvas.height;
-
-            ctx.save();
-            
-            // 1. Define Path
-            ctx.beginPath();
-            if (shape === 'circle') {
-                ctx.arc(x + camDrawSize / 2, y + camDrawSize / 2, camDrawSize / 2, 0, Math.PI * 2);
-            } else {
-                // Proportional corner radius for consistent look at any size
-                // Square: 15%, Rect (Squircle): 35%
-                const radius = shape === 'square' ? camDrawSize * 0.15 : camDrawSize * 0.35;
-                
-                if (ctx.roundRect) {
-                    ctx.roundRect(x, y, camDrawSize, camDrawSize, radius);
-                } else {
-                    ctx.rect(x, y, camDrawSize, camDrawSize);
+            const drawScreen = () => {
+                if (screenVideo && screenVideo.readyState >= 2) {
+                    const source = getSourceRect(region, shownViewport, screenVideo.videoWidth, screenVideo.videoHeight);
+                    drawScreenLayer(ctx, screenVideo, source, layout.screen);
                 }
-            }
-            ctx.closePath();
-
-            // 2. Shadow
-            ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
-            ctx.shadowBlur = 20;
-            ctx.shadowOffsetX = 0;
-            ctx.shadowOffsetY = 4;
-
-            // 3. Clip! Everything after this stays inside the shape
-            ctx.clip();
-
-            // Reset shadow for content
-            ctx.shadowColor = 'transparent';
-            
-            // 4. Draw Video (Center Crop / Cover)
-            const vw = cameraVideoRef.current.videoWidth;
-            const vh = cameraVideoRef.current.videoHeight;
-            const aspect = vw / vh;
-            
-            let drawW = camDrawSize;
-            let drawH = camDrawSize;
-            let offX = 0;
-            let offY = 0;
-
-            if (aspect > 1) {
-                // Landscape source
-                drawW = camDrawSize * aspect;
-                offX = -(drawW - camDrawSize) / 2;
+                // Annotations sit right on the screen, so a spotlight never dims the presenter
+                drawAnnotations(ctx, annotationsRef.current, canvas.width, canvas.height, now);
+            };
+
+            const drawCamera = () => {
+                if (!cameraVideo || cameraVideo.readyState < 2 || !configRef.current.visible || layout.camera.opacity <= 0) return;
+                const cameraFrame = backgroundRef.current?.process(cameraVideo, configRef.current.background);
+                drawCameraLayer(ctx, cameraFrame ?? cameraVideo, layout.camera, configRef.current.borderColor, configRef.current.borderWidth);
+            };
+
+            if (layout.screenOnTop) {
+                drawCamera();
+                drawScreen();
             } else {
-                // Portrait source
-                drawH = camDrawSize / aspect;
-                offY = -(drawH - camDrawSize) / 2;
+                drawScreen();
+                drawCamera();
             }
-
-            // Draw video at the calculated position relative to the box
-            ctx.drawImage(cameraVideoRef.current, x + offX, y + offY, drawW, drawH);
-
-            // 5. Inner Border
-            // To draw a border *inside* the clipped area, we set lineWidth to double the desired width.
-            // The clip clips the outer half, leaving exactly `borderWidth` visible inside.
-            if (borderWidth > 0) {
-                ctx.strokeStyle = borderColor;
-                ctx.lineWidth = borderWidth * 2; 
-                ctx.stroke();
+        } else if (showCamera) {
+            // Camera-only: full frame webcam
+            if (cameraVideo && cameraVideo.readyState >= 2) {
+                const cameraFrame = backgroundRef.current?.process(cameraVideo, configRef.current.background);
+                // A keyed-out background is transparent; the frame behind it is black
+                if (cameraFrame) {
+                    ctx.fillStyle = '#000';
+                    ctx.fillRect(0, 0, canvas.width, canvas.height);
+                }
+                drawVideoCover(ctx, cameraFrame ?? cameraVideo, { x: 0, y: 0, width: canvas.width, height: canvas.height });
+            } else {
+                ctx.fillStyle = '#000';
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
             }
-
-            ctx.restore();
+            drawAnnotations(ctx, annotationsRef.current, canvas.width, canvas.height, now);
+        } else {
+            // Audio-only: placeholder frame with a live waveform
+            drawWaveform(ctx, analyserRef.current, waveformSamples, canvas.width, canvas.height, configRef.current.borderColor);
+            drawAnnotations(ctx, annotationsRef.current, canvas.width, canvas.height, now);
         }
 
-        animationFrameRef.current = requestAnimationFrame(draw);
+        // Branding sits above everything, camera and annotations included
+        const recorderState = mediaRecorderRef.current?.state;
+        overlayRenderer.draw(ctx, overlaysRef.current, canvas.width, canvas.height, now, recorderState === 'recording' || recorderState === 'paused');
+
+        captureTrack?.requestFrame();
       };
-      
-      draw();
 
-      // 5. Audio Mixing
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const audioContext = new AudioContextClass();
-      audioContextRef.current = audioContext;
-      
-      if (audioContext.state === 'suspended') {
-          await audioContext.resume();
-      }
+      // Not requestAnimationFrame: it stops as soon as the presenter switches to the app being demoed
+      schedulerRef.current = createFrameScheduler(quality.frameRate, draw);
 
-      const destNode = audioContext.createMediaStreamDestination();
-      
-      if (userStream.getAudioTracks().length > 0) {
-        const micSource = audioContext.createMediaStreamSource(userStream);
-        micSource.connect(destNode);
-      }
-      
-      if (screenStream.getAudioTracks().length > 0) {
-        const sysSource = audioContext.createMediaStreamSource(screenStream);
-        sysSource.connect(destNode);
+      // The sources are live and drawing, so the presenter can get ready while the countdown runs
+      if (countdownSeconds > 0) {
+        const run = { cancelled: false };
+        countdownRef.current = run;
+        for (let remaining = countdownSeconds; remaining > 0 && !run.cancelled; remaining--) {
+          setCountdown(remaining);
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+        countdownRef.current = null;
+        setCountdown(null);
+        if (run.cancelled) {
+          cleanup();
+          return false;
+        }
       }
 
       // 6. MediaRecorder Setup
-      const canvasStream = canvas.captureStream(30);
+      // Frame rate 0: frames are only captured when the scheduler draws one, so the recorded rate
+      // follows the clock instead of repaints (browsers without requestFrame capture on repaint)
+      let canvasStream = canvas.captureStream(0);
+      captureTrack = canvasStream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      if (typeof captureTrack.requestFrame !== 'function') {
+        canvasStream.getTracks().forEach(track => track.stop());
+        canvasStream = canvas.captureStream(quality.frameRate);
+        captureTrack = null;
+      }
       const combinedStream = new MediaStream([
         ...canvasStream.getVideoTracks(),
-        ...destNode.stream.getAudioTracks()
+        ...(destNode ? destNode.stream.getAudioTracks() : [])
       ]);
       
       streamRef.current = combinedStream;
 
-      const mimeType = getSupportedMimeType();
-      if (!mimeType) throw new Error("No supported video MIME type found");
+      const mimeType = getSupportedMimeType(quality.codec, !!destNode);
+      if (!mimeType) throw new TranslatableError('error.noRecordingFormat');
 
       const recorder = new MediaRecorder(combinedStream, {
         mimeType,
-        videoBitsPerSecond: 3000000 
+        videoBitsPerSecond: quality.videoBitrate,
+        audioBitsPerSecond: AUDIO_BITRATE
       });
       
       recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
+        if (e.data.size > 0) {
+          chunksRef.current.push(e.data);
+          persistChunk(e.data);
+        }
       };
 
-      recorder.onstop = () => {
+      recorder.onstop = async () => {
+        const duration = getActiveDuration();
+        const stats = schedulerRef.current?.getStats();
+        if (stats?.dropped) console.warn(`Compositing dropped ${stats.dropped} of ${stats.rendered + stats.dropped} frames`);
         cleanup();
 
-        const blob = new Blob(chunksRef.current, { type: mimeType });
-        const url = URL.createObjectURL(blob);
         const thumbnail = canvas.toDataURL('image/png');
+        let blob = new Blob(chunksRef.current, { type: mimeType });
+
+        // MediaRecorder WebM has no duration or seek index; rebuild them so players can scrub
+        if (mimeType.includes('webm')) {
+          try {
+            blob = await repairWebm(blob, duration);
+          } catch (err) {
+            console.warn("Could not repair WebM, keeping the raw recording", err);
+          }
+        }
+        const url = URL.createObjectURL(blob);
+
+        // Let pending chunk writes settle so the session stays recoverable until the library has it
+        await sessionWritesRef.current;
+        const id = sessionIdRef.current ?? undefined;
+        sessionIdRef.current = null;
         
-        onStop({ blob, url, thumbnail });
+        onStop({ blob, url, thumbnail, duration, id, markers: markersRef.current });
       };
 
+      // Session manifest first, so a crash during the very first second is still detectable
+      const sessionId = crypto.randomUUID();
+      sessionIdRef.current = sessionId;
+      chunkIndexRef.current = 0;
+      sessionWritesRef.current = createSession({
+        id: sessionId,
+        mimeType,
+        startedAt: Date.now(),
+        cameraConfig: configRef.current,
+        recorderConfig,
+        chunkCount: 0,
+        duration: 0
+      }).catch(err => console.warn("Could not create recording session", err));
+
       mediaRecorderRef.current = recorder;
+      startedAtRef.current = performance.now();
+      pausedAtRef.current = null;
+      pausedTotalRef.current = 0;
+      schedulerRef.current?.resetStats();
       recorder.start(1000);
       setIsRecording(true);
+      return true;
 
     } catch (err: any) {
       console.error("Error starting recording:", err);
@@ -274,16 +631,21 @@ export const useRecorder = ({ onStop, cameraConfig }: UseRecorderProps) => {
       setError(err.message || "Failed to start recording");
       throw err;
     }
-  }, [onStop]);
+  }, [onStop, recorderConfig]);
 
   const togglePause = useCallback(() => {
     if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
 
     if (mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.pause();
+      pausedAtRef.current = performance.now();
       setIsPaused(true);
     } else if (mediaRecorderRef.current.state === 'paused') {
       mediaRecorderRef.current.resume();
+      if (pausedAtRef.current !== null) {
+        pausedTotalRef.current += performance.now() - pausedAtRef.current;
+        pausedAtRef.current = null;
+      }
       setIsPaused(false);
     }
   }, []);
@@ -299,38 +661,91 @@ export const useRecorder = ({ onStop, cameraConfig }: UseRecorderProps) => {
         cameraVideoRef.current.remove();
         cameraVideoRef.current = null;
     }
+    backgroundRef.current?.dispose();
+    backgroundRef.current = null;
 
     if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
     }
+
+    // Stop the capture sources too, so the browser's sharing/camera indicators turn off
+    stopStream(screenStreamRef.current);
+    screenStreamRef.current = null;
+    detachInput('camera');
+    detachInput('microphone');
     
+    analyserRef.current = null;
+    mixerRef.current = null;
+    voiceChainRef.current = null;
+    destNodeRef.current = null;
+    setAudioSources([]);
     if (audioContextRef.current) {
         audioContextRef.current.close();
         audioContextRef.current = null;
     }
 
-    if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-    }
+    schedulerRef.current?.stop();
+    schedulerRef.current = null;
   };
 
   const stopRecording = useCallback(() => {
+    if (countdownRef.current) {
+      countdownRef.current.cancelled = true;
+      return;
+    }
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop();
+      mediaRecorderRef.current = null;
       setIsRecording(false);
       setIsPaused(false);
     }
   }, []);
 
+  const updateMarkers = (next: Marker[]) => {
+    markersRef.current = next;
+    setMarkers(next);
+  };
+
+  /**
+   * Drops a marker at the current point of the recording. Media time comes from the wall clock minus
+   * pauses, so a marker added while paused lands where the recording will resume.
+   */
+  const addMarker = useCallback((label?: string): Marker | null => {
+    if (!mediaRecorderRef.current) return null;
+    const marker: Marker = {
+      id: crypto.randomUUID(),
+      time: getActiveDuration(),
+      label: label || `Marker ${markersRef.current.length + 1}`
+    };
+    updateMarkers([...markersRef.current, marker]);
+    return marker;
+  }, []);
+
+  const renameMarker = useCallback((id: string, label: string) => {
+    updateMarkers(markersRef.current.map(marker => marker.id === id ? { ...marker, label } : marker));
+  }, []);
+
+  const getAudioLevel = useCallback((source: AudioSource) => mixerRef.current?.getLevel(source) ?? 0, []);
+
   return {
     isRecording,
+    countdown,
     isPaused,
     error,
     startRecording,
     stopRecording,
     togglePause,
+    switchCamera,
+    switchMicrophone,
+    addMarker,
+    renameMarker,
+    markers,
+    audioSources,
+    getAudioLevel,
     canvasRef,
-    elapsedTime
+    screenVideoRef,
+    elapsedTime,
+    frameStats
   };
 };
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, ShortcutBindings } from '../types';
+import { eventToCombo, isTypingTarget } from '../utils/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * Runs the handler bound to each key press. Only actions with a handler are listened for,
+ * so several components can each own the actions that make sense on their screen.
+ */
+export const useShortcuts = (bindings: ShortcutBindings, handlers: ShortcutHandlers, enabled = true) => {
+  // Handlers change every render; the listener reads the latest ones instead of re-subscribing
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e.target)) return;
+      const combo = eventToCombo(e);
+      if (!combo) return;
+
+      const action = (Object.keys(bindings) as ShortcutAction[]).find(a => bindings[a] === combo);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+};
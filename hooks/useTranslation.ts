@@ -0,0 +1,15 @@
+import { createContext, useCallback, useContext } from 'react';
+import { Language } from '../types';
+import { DEFAULT_LANGUAGE, MessageParams, translate } from '../utils/i18n';
+import { MessageKey } from '../locales/en';
+
+export const LanguageContext = createContext<Language>(DEFAULT_LANGUAGE);
+
+/**
+ * The interface language picked in App, and `t` to look up messages in it.
+ */
+export const useTranslation = () => {
+  const language = useContext(LanguageContext);
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(language, key, params), [language]);
+  return { language, t };
+};
@@ -0,0 +1,289 @@
+import type { Catalog } from '../utils/i18n';
+
+const de: Catalog = {
+  'common.cancel': 'Abbrechen',
+  'common.save': 'Speichern',
+  'common.hide': 'Ausblenden',
+  'common.show': 'Einblenden',
+  'common.remove': 'Entfernen',
+  'common.newRecording': 'Neue Aufnahme',
+  'common.delete': 'Löschen',
+
+  'error.ai': 'KI-Anfrage fehlgeschlagen',
+  'error.conversion': 'Umwandlung fehlgeschlagen',
+  'error.transcription': 'Transkription fehlgeschlagen',
+  'error.export': 'Export fehlgeschlagen',
+  'error.clip': 'Clip-Export fehlgeschlagen',
+  'error.library': 'Bibliothek konnte nicht geladen werden',
+  'error.rename': 'Die Aufnahme konnte nicht umbenannt werden',
+  'error.delete': 'Die Aufnahme konnte nicht gelöscht werden',
+  'error.recover': 'Die Aufnahme konnte nicht wiederhergestellt werden.',
+  'error.saveSettings': 'Einige Einstellungen konnten in diesem Browser nicht gespeichert werden, vermutlich weil ein Bild zu groß ist. Sie gelten bis zum Neuladen der Seite.',
+  'error.startRecording': 'Die Aufnahme konnte nicht gestartet werden. Bitte Berechtigungen prüfen.',
+  'error.nothingToRecord': 'Nichts aufzunehmen: Bildschirm, Kamera oder Mikrofon aktivieren',
+  'error.noRecordingFormat': 'Dieser Browser kann in keinem unterstützten Format Video aufnehmen',
+  'error.noWebCodecs': 'Dieser Browser unterstützt keine WebCodecs-Kodierung',
+  'error.noVideoEncoder': 'Kein unterstützter {format}-Videoencoder gefunden',
+  'error.noAudioEncoder': 'Kein unterstützter {format}-Audioencoder gefunden',
+  'error.nothingToExport': 'Nichts mehr zu exportieren',
+  'error.unknownDuration': 'Die Länge der Aufnahme ist unbekannt, daher kann sie nicht konvertiert werden',
+  'error.readImage': 'Das Bild konnte nicht gelesen werden',
+
+  'landing.intro': 'Richte dein Aufnahmestudio ein. Wenn du bereit bist, gib deinen Bildschirm frei.',
+  'landing.failed': 'Aufnahme fehlgeschlagen',
+  'landing.unfinished': 'Unvollständige Aufnahme',
+  'landing.discard': 'Verwerfen',
+  'landing.recover': 'Wiederherstellen',
+  'landing.mode': 'Modus',
+  'landing.audioOn': 'Ton an',
+  'landing.muted': 'Alles stumm',
+  'landing.audioOnlyHint': 'Schalte den Ton ein, um ein Sprachmemo aufzunehmen.',
+  'landing.devices': 'Geräte',
+  'landing.defaultCamera': 'Standardkamera',
+  'landing.defaultMicrophone': 'Standardmikrofon',
+  'landing.micProcessing': 'Mikrofonbearbeitung',
+  'landing.cameraBackground': 'Kamerahintergrund',
+  'landing.quality': 'Qualität',
+  'landing.captureArea': 'Aufnahmebereich',
+  'landing.savedStyles': 'Gespeicherte Stile',
+  'landing.cameraShape': 'Kameraform',
+  'landing.border': 'Rand',
+  'landing.borderColor': 'Randfarbe',
+  'landing.start': 'Aufnahme starten',
+  'landing.countdownHint': 'startet nach einem Countdown von 3 Sekunden',
+  'landing.preview': 'Vorschau',
+  'landing.mode.screenCamera': 'Bildschirm + Kamera',
+  'landing.mode.screen': 'Nur Bildschirm',
+  'landing.mode.camera': 'Nur Kamera',
+  'landing.mode.audio': 'Nur Ton',
+  'landing.presetHint.voice': 'Sauber und gleichmäßig',
+  'landing.presetHint.podcast': 'Dicht, wie im Radio',
+  'landing.presetHint.raw': 'Keine Bearbeitung',
+  'landing.language': 'Sprache',
+
+  'camera.shape.circle': 'Kreis',
+  'camera.shape.square': 'Quadrat',
+  'camera.shape.rect': 'Rechteck',
+
+  'recording.initializing': 'Studio wird vorbereitet...',
+  'recording.selectScreen': 'Wähle deinen Bildschirm, um zu beginnen',
+  'recording.shape': 'Form',
+  'recording.color': 'Farbe',
+  'recording.background': 'Hintergrund',
+  'recording.paused': 'PAUSIERT',
+  'recording.minimapHint': 'Scrollen zum Zoomen, Alt + Ziehen zum Verschieben',
+  'recording.frameStats': { one: '{count} Frame gerendert, {dropped} verworfen', other: '{count} Frames gerendert, {dropped} verworfen' },
+  'recording.fps': '{fps}/{target} fps',
+  'recording.dropped': '{count} verworfen',
+  'recording.audioMixer': 'Audiomixer',
+  'recording.audio': 'Ton',
+  'recording.scenes': 'Szenen',
+  'recording.scene': 'Szene',
+  'recording.overlays': 'Einblendungen',
+  'recording.hideCamera': 'Kamera ausblenden',
+  'recording.showCamera': 'Kamera einblenden',
+  'recording.addMarker': 'Markierung hinzufügen',
+  'recording.markerCount': { one: '{count} Markierung', other: '{count} Markierungen' },
+  'recording.markerAt': 'Markierung bei {time}',
+  'recording.markerHint': 'Enter zum Speichern, Esc behält den Standardnamen',
+  'recording.pause': 'Pause',
+  'recording.resume': 'Fortsetzen',
+  'recording.finish': 'Beenden',
+  'recording.markerLabel': 'Markierung {index}',
+
+  'scene.bubble': 'Bildschirm + Blase',
+  'scene.side-by-side': 'Nebeneinander',
+  'scene.camera-inset': 'Kamera + Bildschirmeinsatz',
+  'scene.presenter': 'Sprecher über Folien',
+  'scene.screen-only': 'Nur Bildschirm',
+  'scene.camera-only': 'Nur Kamera',
+
+  'region.preset.full': 'Vollbild',
+  'region.preset.center': 'Mitte',
+  'region.preset.left': 'Linke Hälfte',
+  'region.preset.right': 'Rechte Hälfte',
+  'region.dragHint': 'Ziehen, um den Bereich zu wählen',
+
+  'quality.resolution': 'Auflösung',
+  'quality.frameRate': 'FPS',
+  'quality.codec': 'Codec',
+  'quality.videoBitrate': 'Bitrate',
+  'quality.codecUnsupported': ' (nicht unterstützt)',
+  'quality.preset.draft': 'Entwurf 720p',
+  'quality.preset.standard': 'Standard 1080p30',
+  'quality.preset.crisp': 'Scharf 1440p',
+  'quality.preset.smooth': 'Flüssig 1080p60',
+  'quality.preset.custom': 'Benutzerdefiniert',
+  'quality.estimate': '~{size} MB/Min.',
+  'quality.bitrate': '{rate} Mbit/s',
+  'quality.codecFallback': 'Dieser Browser kann nicht in {codec} aufnehmen: Der beste verfügbare Codec wird verwendet.',
+
+  'background.backgroundColor': 'Hintergrundfarbe',
+  'background.changeImage': 'Bild ändern',
+  'background.chooseAnImage': 'Bild auswählen',
+  'background.keyColor': 'Key-Farbe',
+  'background.tolerance': 'Toleranz',
+  'background.spill': 'Farbsaum',
+  'background.mode.none': 'Keiner',
+  'background.mode.blur': 'Weichzeichnen',
+  'background.mode.color': 'Farbe',
+  'background.mode.image': 'Bild',
+  'background.mode.chroma': 'Greenscreen',
+  'background.modelChecking': 'Modell für die Hintergrundentfernung wird gesucht…',
+  'background.modelMissing': 'Unschärfe, Farbe und Bild brauchen das Segmentierungsmodell, das auf diesem Server nicht installiert ist.',
+
+  'audio.preset.voice': 'Stimme',
+  'audio.preset.podcast': 'Podcast',
+  'audio.preset.raw': 'Roh',
+  'audio.source.microphone': 'Mikrofon',
+  'audio.source.system': 'Systemton',
+  'audio.muted': 'Stumm',
+  'audio.mute': 'Stummschalten',
+  'audio.unmute': 'Ton einschalten',
+  'audio.resetHint': 'Doppelklick zum Zurücksetzen',
+  'audio.processing': 'Mikrofonbearbeitung',
+
+  'devices.camera': 'Kamera {index}',
+  'devices.microphone': 'Mikrofon {index}',
+
+  'annotate.pointer': 'Zeiger',
+  'annotate.tool.pen': 'Stift',
+  'annotate.tool.arrow': 'Pfeil',
+  'annotate.tool.rect': 'Rahmen',
+  'annotate.tool.highlighter': 'Textmarker (verblasst)',
+  'annotate.tool.spotlight': 'Scheinwerfer',
+  'annotate.undo': 'Rückgängig',
+  'annotate.clear': 'Alles löschen',
+
+  'minimap.resetZoom': 'Zoom zurücksetzen',
+
+  'overlay.kind.watermark': 'Logo',
+  'overlay.kind.lowerThird': 'Namensbauchbinde',
+  'overlay.kind.text': 'Text',
+  'overlay.size': 'Größe',
+  'overlay.opacity': 'Deckkraft',
+  'overlay.name': 'Name',
+  'overlay.role': 'Funktion',
+  'overlay.onScreen': 'Eingeblendet',
+  'overlay.seconds': '{count} s',
+  'overlay.plate': 'Hinterlegt',
+  'overlay.empty': 'Füge ein Logo, eine Namensbauchbinde oder eine Beschriftung hinzu. Ziehe sie in der Vorschau an ihren Platz.',
+
+  'presets.delete': 'Vorlage löschen',
+  'presets.saveCurrent': 'Aktuellen Stil speichern',
+  'presets.name': 'Name der Vorlage',
+
+  'brand.logoTooLarge': 'Das Logo ist zu groß.',
+  'brand.notJson': 'Die Datei ist kein gültiges JSON',
+  'brand.invalidProfile': 'Die Datei ist kein gültiges Markenprofil',
+  'brand.title': 'Markenprofil',
+  'brand.name': 'Name',
+  'brand.namePlaceholder': 'Z. B. Acme Marketing',
+  'brand.colors': 'Farben',
+  'brand.addColor': 'Farbe hinzufügen',
+  'brand.logo': 'Logo',
+  'brand.upload': 'Hochladen',
+  'brand.defaultLayout': 'Standardlayout',
+  'brand.useCameraStyle': 'Aktuellen Kamerastil verwenden',
+  'brand.import': 'Importieren',
+  'brand.export': 'Exportieren',
+  'brand.turnOff': 'Deaktivieren',
+  'brand.apply': 'Anwenden',
+
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.pressKeys': 'Tasten drücken…',
+  'shortcuts.unbound': 'Keins',
+  'shortcuts.conflict': 'Zwei Aktionen verwenden dieselbe Kombination.',
+  'shortcuts.hint': 'Klicke auf ein Kürzel und drücke die neue Kombination. Esc bricht ab, Rücktaste entfernt es.',
+  'shortcuts.resetToDefaults': 'Auf Standard zurücksetzen',
+  'shortcuts.unusable': '{combo} kann nicht verwendet werden: Strg, Alt oder Umschalt hinzufügen oder eine Funktionstaste nutzen.',
+  'shortcuts.action.start': 'Starten (mit Countdown)',
+  'shortcuts.action.togglePause': 'Pause / Fortsetzen',
+  'shortcuts.action.stop': 'Beenden',
+  'shortcuts.action.toggleCamera': 'Kamera ein-/ausblenden',
+  'shortcuts.action.cycleShape': 'Kameraform wechseln',
+  'shortcuts.action.addMarker': 'Markierung hinzufügen',
+  'shortcuts.action.annotate': 'Zeichnen',
+
+  'ai.title': 'KI-Einstellungen',
+  'ai.serverUrl': 'Server-URL',
+  'ai.apiKey': 'API-Schlüssel',
+  'ai.optional': 'Optional',
+  'ai.model': 'Modell',
+  'ai.transcriptionModel': 'Transkriptionsmodell',
+  'ai.keysNote': 'Schlüssel bleiben in diesem Browser und werden nur an den gewählten Anbieter gesendet.',
+  'ai.provider.gemini': 'Google Gemini',
+  'ai.provider.geminiHint': 'Schlüssel aus Google AI Studio.',
+  'ai.provider.openai': 'OpenAI-kompatibel',
+  'ai.provider.openaiHint': 'Jeder Endpunkt, der die OpenAI-API spricht.',
+  'ai.provider.local': 'Lokaler Server',
+  'ai.provider.localHint': 'Ollama, LM Studio oder ein Whisper-Server auf diesem Rechner.',
+  'ai.provider.mock': 'Attrappe (offline)',
+  'ai.provider.mockHint': 'Feste Antworten, kein Netzwerk. Für Entwicklung und Tests.',
+
+  'review.badFormat': 'Die KI hat in einem unerwarteten Format geantwortet. Versuche es erneut.',
+  'review.captions': 'Untertitel',
+  'review.applyEdits': 'Änderungen anwenden',
+  'review.undoEdit': 'Änderung rückgängig',
+  'review.aiSummary': 'KI-Zusammenfassung',
+  'review.title': 'Titel',
+  'review.description': 'Beschreibung',
+  'review.lowConfidence': 'Die KI ist sich bei dieser Zusammenfassung unsicher: bitte prüfen.',
+  'review.chapters': 'Kapitel',
+  'review.copyTimestamps': 'Als Zeitstempel kopieren',
+  'review.openSettings': 'Einstellungen öffnen',
+  'review.retry': 'Erneut versuchen',
+  'review.waiting': 'Die KI zaubert...',
+  'review.loudness': 'Lautheit',
+  'review.download': 'Video herunterladen',
+  'review.localNote': 'Dein Video wird lokal in deinem Browser verarbeitet.',
+  'review.exporting': 'Exportiere {progress} %',
+  'review.recordedOn': 'Aufgenommen am {date}',
+  'review.converting': 'Umwandlung in {format}... {progress} %',
+  'review.originalFormat': 'Wie die Aufnahme',
+  'review.loudnessTarget': '{preset} · {target} LUFS',
+
+  'transcript.title': 'Transkript',
+  'transcript.regenerate': 'Neu erstellen',
+  'transcript.transcribe': 'Transkribieren',
+  'transcript.noSpeech': 'Keine Sprache erkannt.',
+  'transcript.noAudio': 'Diese Aufnahme hat keinen Ton',
+  'transcript.sampleSentence': 'Beispielsatz {index}.',
+
+  'markers.title': 'Markierungen',
+  'markers.copyHint': 'Als Liste von Zeitstempeln kopieren',
+  'markers.copy': 'Kopieren',
+  'markers.vttHint': 'WebVTT-Kapitel',
+  'markers.jump': 'Zur Markierung springen',
+
+  'trim.restoreHint': 'Zum Wiederherstellen klicken',
+  'trim.setIn': 'Anfang hier',
+  'trim.setOut': 'Ende hier',
+  'trim.deleteSelection': 'Auswahl löschen',
+  'trim.reset': 'Zurücksetzen',
+  'trim.hint': 'Ziehe über die Zeitleiste, um einen Abschnitt zum Löschen auszuwählen. Ziehe die Griffe, um Anfang und Ende zu kürzen.',
+
+  'clip.title': 'GIF-/WebP-Clip',
+  'clip.range': 'Bereich',
+  'clip.startHere': 'Hier beginnen',
+  'clip.endHere': 'Hier enden',
+  'clip.useTrim': 'Schnitt übernehmen',
+  'clip.width': 'Breite',
+  'clip.colors': 'Farben',
+  'clip.dither': 'Dithering (weichere Verläufe)',
+  'clip.estimating': 'Größe wird geschätzt...',
+  'clip.longWarning': 'Lange Clips ergeben sehr große Dateien.',
+  'clip.creating': 'Clip wird erstellt...',
+  'clip.estimate': { one: 'Geschätzte Größe: ~{size} • {count} Frame', other: 'Geschätzte Größe: ~{size} • {count} Frames' },
+  'clip.export': '{format} exportieren',
+
+  'library.title': 'Bibliothek',
+  'library.search': 'Aufnahmen durchsuchen...',
+  'library.empty': 'Noch keine gespeicherten Aufnahmen.',
+  'library.noMatches': 'Keine Treffer.',
+  'library.rename': 'Umbenennen',
+  'library.storage': '{used} von {quota} belegt',
+  'library.deleteConfirm': '„{title}“ löschen? Das kann nicht rückgängig gemacht werden.',
+};
+
+export default de;
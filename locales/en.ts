@@ -0,0 +1,291 @@
+// Source catalog: every other language must translate each of these keys.
+// Keys are grouped by screen; {name} marks a placeholder, and objects hold plural forms by CLDR category.
+const en = {
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.hide': 'Hide',
+  'common.show': 'Show',
+  'common.remove': 'Remove',
+  'common.newRecording': 'New Recording',
+  'common.delete': 'Delete',
+
+  'error.ai': 'AI request failed',
+  'error.conversion': 'Conversion failed',
+  'error.transcription': 'Transcription failed',
+  'error.export': 'Export failed',
+  'error.clip': 'Clip export failed',
+  'error.library': 'Could not load library',
+  'error.rename': 'Could not rename the recording',
+  'error.delete': 'Could not delete the recording',
+  'error.recover': 'Could not recover the recording.',
+  'error.saveSettings': 'Some settings could not be saved in this browser, probably because an image is too large. They stay in use until the page is reloaded.',
+  'error.startRecording': 'Failed to start recording. Please check permissions.',
+  'error.nothingToRecord': 'Nothing to record: enable the screen, the camera or the microphone',
+  'error.noRecordingFormat': "This browser can't record video in any supported format",
+  'error.noWebCodecs': 'This browser does not support WebCodecs encoding',
+  'error.noVideoEncoder': 'No supported {format} video encoder found',
+  'error.noAudioEncoder': 'No supported {format} audio encoder found',
+  'error.nothingToExport': 'Nothing left to export',
+  'error.unknownDuration': "Could not read the recording's length, so it can't be converted",
+  'error.readImage': 'Could not read the image',
+
+  'landing.intro': "Configure your recording studio. When you're ready, start sharing your screen.",
+  'landing.failed': 'Recording Failed',
+  'landing.unfinished': 'Unfinished recording',
+  'landing.discard': 'Discard',
+  'landing.recover': 'Recover',
+  'landing.mode': 'Mode',
+  'landing.audioOn': 'Audio on',
+  'landing.muted': 'Everything muted',
+  'landing.audioOnlyHint': 'Turn audio on to record a voice memo.',
+  'landing.devices': 'Devices',
+  'landing.defaultCamera': 'Default camera',
+  'landing.defaultMicrophone': 'Default microphone',
+  'landing.micProcessing': 'Microphone Processing',
+  'landing.cameraBackground': 'Camera Background',
+  'landing.quality': 'Quality',
+  'landing.captureArea': 'Capture Area',
+  'landing.savedStyles': 'Saved Styles',
+  'landing.cameraShape': 'Camera Shape',
+  'landing.border': 'Border',
+  'landing.borderColor': 'Border Color',
+  'landing.start': 'Start Recording',
+  'landing.countdownHint': 'starts after a 3 second countdown',
+  'landing.preview': 'Preview Mode',
+  'landing.mode.screenCamera': 'Screen + Camera',
+  'landing.mode.screen': 'Screen Only',
+  'landing.mode.camera': 'Camera Only',
+  'landing.mode.audio': 'Audio Only',
+  'landing.presetHint.voice': 'Clean and even',
+  'landing.presetHint.podcast': 'Dense, broadcast',
+  'landing.presetHint.raw': 'No processing',
+  'landing.language': 'Language',
+
+  'camera.shape.circle': 'Circle',
+  'camera.shape.square': 'Square',
+  'camera.shape.rect': 'Rect',
+
+  'recording.initializing': 'Initializing Studio...',
+  'recording.selectScreen': 'Select your screen to begin',
+  'recording.shape': 'Shape',
+  'recording.color': 'Color',
+  'recording.background': 'Background',
+  'recording.paused': 'PAUSED',
+  'recording.minimapHint': 'Scroll to zoom, Alt + drag to pan',
+  'recording.frameStats': { one: '{count} frame rendered, {dropped} dropped', other: '{count} frames rendered, {dropped} dropped' },
+  'recording.fps': '{fps}/{target} fps',
+  'recording.dropped': '{count} dropped',
+  'recording.audioMixer': 'Audio mixer',
+  'recording.audio': 'Audio',
+  'recording.scenes': 'Scenes',
+  'recording.scene': 'Scene',
+  'recording.overlays': 'Overlays',
+  'recording.hideCamera': 'Hide camera',
+  'recording.showCamera': 'Show camera',
+  'recording.addMarker': 'Add marker',
+  'recording.markerCount': { one: '{count} marker', other: '{count} markers' },
+  'recording.markerAt': 'Marker at {time}',
+  'recording.markerHint': 'Enter to save, Esc to keep the default name',
+  'recording.pause': 'Pause',
+  'recording.resume': 'Resume',
+  'recording.finish': 'Finish',
+  'recording.markerLabel': 'Marker {index}',
+
+  'scene.bubble': 'Screen + bubble',
+  'scene.side-by-side': 'Side by side',
+  'scene.camera-inset': 'Camera + screen inset',
+  'scene.presenter': 'Presenter over slides',
+  'scene.screen-only': 'Screen only',
+  'scene.camera-only': 'Camera only',
+
+  'region.preset.full': 'Full',
+  'region.preset.center': 'Center',
+  'region.preset.left': 'Left half',
+  'region.preset.right': 'Right half',
+  'region.dragHint': 'Drag to pick the area',
+
+  'quality.resolution': 'Resolution',
+  'quality.frameRate': 'FPS',
+  'quality.codec': 'Codec',
+  'quality.videoBitrate': 'Bitrate',
+  'quality.codecUnsupported': ' (unsupported)',
+  'quality.preset.draft': 'Draft 720p',
+  'quality.preset.standard': 'Standard 1080p30',
+  'quality.preset.crisp': 'Crisp 1440p',
+  'quality.preset.smooth': 'Smooth 1080p60',
+  'quality.preset.custom': 'Custom',
+  'quality.estimate': '~{size} MB/min',
+  'quality.bitrate': '{rate} Mbps',
+  'quality.codecFallback': "This browser can't record {codec}: the best available codec will be used.",
+
+  'background.backgroundColor': 'Background color',
+  'background.changeImage': 'Change image',
+  'background.chooseAnImage': 'Choose an image',
+  'background.keyColor': 'Key color',
+  'background.tolerance': 'Tolerance',
+  'background.spill': 'Spill',
+  'background.mode.none': 'None',
+  'background.mode.blur': 'Blur',
+  'background.mode.color': 'Color',
+  'background.mode.image': 'Image',
+  'background.mode.chroma': 'Green screen',
+  'background.modelChecking': 'Checking for the background removal model…',
+  'background.modelMissing': "Blur, color and image backgrounds need the segmentation model, which isn't installed on this server.",
+
+  'audio.preset.voice': 'Voice',
+  'audio.preset.podcast': 'Podcast',
+  'audio.preset.raw': 'Raw',
+  'audio.source.microphone': 'Microphone',
+  'audio.source.system': 'System audio',
+  'audio.muted': 'Muted',
+  'audio.mute': 'Mute',
+  'audio.unmute': 'Unmute',
+  'audio.resetHint': 'Double-click to reset',
+  'audio.processing': 'Microphone processing',
+
+  'devices.camera': 'Camera {index}',
+  'devices.microphone': 'Microphone {index}',
+
+  'annotate.pointer': 'Pointer',
+  'annotate.tool.pen': 'Pen',
+  'annotate.tool.arrow': 'Arrow',
+  'annotate.tool.rect': 'Box',
+  'annotate.tool.highlighter': 'Highlighter (fades)',
+  'annotate.tool.spotlight': 'Spotlight',
+  'annotate.undo': 'Undo',
+  'annotate.clear': 'Clear all',
+
+  'minimap.resetZoom': 'Reset zoom',
+
+  'overlay.kind.watermark': 'Logo',
+  'overlay.kind.lowerThird': 'Name card',
+  'overlay.kind.text': 'Text',
+  'overlay.size': 'Size',
+  'overlay.opacity': 'Opacity',
+  'overlay.name': 'Name',
+  'overlay.role': 'Role',
+  'overlay.onScreen': 'On screen',
+  'overlay.seconds': '{count}s',
+  'overlay.plate': 'Plate',
+  'overlay.empty': 'Add a logo, a name card or a caption. Drag them on the preview to place them.',
+
+  'presets.delete': 'Delete preset',
+  'presets.saveCurrent': 'Save current style',
+  'presets.name': 'Preset name',
+
+  'brand.logoTooLarge': 'The logo is too large.',
+  'brand.notJson': 'The file is not valid JSON',
+  'brand.invalidProfile': 'The file is not a valid brand profile',
+  'brand.title': 'Brand Profile',
+  'brand.name': 'Name',
+  'brand.namePlaceholder': 'E.g. Acme Marketing',
+  'brand.colors': 'Colors',
+  'brand.addColor': 'Add color',
+  'brand.logo': 'Logo',
+  'brand.upload': 'Upload',
+  'brand.defaultLayout': 'Default Layout',
+  'brand.useCameraStyle': 'Use current camera style',
+  'brand.import': 'Import',
+  'brand.export': 'Export',
+  'brand.turnOff': 'Turn off',
+  'brand.apply': 'Apply',
+
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.pressKeys': 'Press keys…',
+  'shortcuts.unbound': 'None',
+  'shortcuts.conflict': 'Two actions use the same combination.',
+  'shortcuts.hint': 'Click a shortcut and press the new combination. Esc cancels, Backspace removes it.',
+  'shortcuts.resetToDefaults': 'Reset to defaults',
+  'shortcuts.unusable': "{combo} can't be used: add Ctrl, Alt or Shift, or use a function key.",
+  'shortcuts.action.start': 'Start (with countdown)',
+  'shortcuts.action.togglePause': 'Pause / Resume',
+  'shortcuts.action.stop': 'Finish',
+  'shortcuts.action.toggleCamera': 'Show / hide camera',
+  'shortcuts.action.cycleShape': 'Cycle camera shape',
+  'shortcuts.action.addMarker': 'Add marker',
+  'shortcuts.action.annotate': 'Annotate',
+
+  'ai.title': 'AI Settings',
+  'ai.serverUrl': 'Server URL',
+  'ai.apiKey': 'API Key',
+  'ai.optional': 'Optional',
+  'ai.model': 'Model',
+  'ai.transcriptionModel': 'Transcription model',
+  'ai.keysNote': 'Keys stay in this browser and are only sent to the provider you pick.',
+  'ai.provider.gemini': 'Google Gemini',
+  'ai.provider.geminiHint': 'Key from Google AI Studio.',
+  'ai.provider.openai': 'OpenAI-compatible',
+  'ai.provider.openaiHint': 'Any endpoint speaking the OpenAI API.',
+  'ai.provider.local': 'Local server',
+  'ai.provider.localHint': 'Ollama, LM Studio or a Whisper server on this machine.',
+  'ai.provider.mock': 'Mock (offline)',
+  'ai.provider.mockHint': 'Fixed answers, no network. For development and tests.',
+
+  'review.badFormat': 'The AI answered in an unexpected format. Try again.',
+  'review.captions': 'Captions',
+  'review.applyEdits': 'Apply Edits',
+  'review.undoEdit': 'Undo Edit',
+  'review.aiSummary': 'AI Summary',
+  'review.title': 'Title',
+  'review.description': 'Description',
+  'review.lowConfidence': 'The AI is unsure about this summary: double-check it.',
+  'review.chapters': 'Chapters',
+  'review.copyTimestamps': 'Copy as timestamps',
+  'review.openSettings': 'Open settings',
+  'review.retry': 'Retry',
+  'review.waiting': 'Waiting for AI magic...',
+  'review.loudness': 'Loudness',
+  'review.download': 'Download Video',
+  'review.localNote': 'Your video is processed locally in your browser.',
+  'review.exporting': 'Exporting {progress}%',
+  'review.recordedOn': 'Recorded on {date}',
+  'review.converting': 'Converting to {format}... {progress}%',
+  'review.originalFormat': 'Same as the recording',
+  'review.loudnessTarget': '{preset} · {target} LUFS',
+
+  'transcript.title': 'Transcript',
+  'transcript.regenerate': 'Regenerate',
+  'transcript.transcribe': 'Transcribe',
+  'transcript.noSpeech': 'No speech detected.',
+  'transcript.noAudio': 'This recording has no audio',
+  'transcript.sampleSentence': 'Sample sentence {index}.',
+
+  'markers.title': 'Markers',
+  'markers.copyHint': 'Copy as a list of timestamps',
+  'markers.copy': 'Copy',
+  'markers.vttHint': 'WebVTT chapters',
+  'markers.jump': 'Jump to marker',
+
+  'trim.restoreHint': 'Click to restore',
+  'trim.setIn': 'Set In',
+  'trim.setOut': 'Set Out',
+  'trim.deleteSelection': 'Delete Selection',
+  'trim.reset': 'Reset',
+  'trim.hint': 'Drag across the timeline to select a section to delete. Drag the handles to trim the start and end.',
+
+  'clip.title': 'GIF / WebP Clip',
+  'clip.range': 'Range',
+  'clip.startHere': 'Start here',
+  'clip.endHere': 'End here',
+  'clip.useTrim': 'Use trim',
+  'clip.width': 'Width',
+  'clip.colors': 'Colors',
+  'clip.dither': 'Dithering (smoother gradients)',
+  'clip.estimating': 'Estimating size...',
+  'clip.longWarning': 'Long clips produce very large files.',
+  'clip.creating': 'Creating clip...',
+  'clip.estimate': { one: 'Estimated size: ~{size} • {count} frame', other: 'Estimated size: ~{size} • {count} frames' },
+  'clip.export': 'Export {format}',
+
+  'library.title': 'Library',
+  'library.search': 'Search recordings...',
+  'library.empty': 'No saved recordings yet.',
+  'library.noMatches': 'No matches.',
+  'library.rename': 'Rename',
+  'library.storage': '{used} used of {quota}',
+  'library.deleteConfirm': 'Delete "{title}"? This cannot be undone.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,289 @@
+import type { Catalog } from '../utils/i18n';
+
+const es: Catalog = {
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.hide': 'Ocultar',
+  'common.show': 'Mostrar',
+  'common.remove': 'Quitar',
+  'common.newRecording': 'Nueva grabación',
+  'common.delete': 'Eliminar',
+
+  'error.ai': 'La solicitud a la IA ha fallado',
+  'error.conversion': 'La conversión ha fallado',
+  'error.transcription': 'La transcripción ha fallado',
+  'error.export': 'La exportación ha fallado',
+  'error.clip': 'La exportación del clip ha fallado',
+  'error.library': 'No se pudo cargar la biblioteca',
+  'error.rename': 'No se pudo renombrar la grabación',
+  'error.delete': 'No se pudo eliminar la grabación',
+  'error.recover': 'No se pudo recuperar la grabación.',
+  'error.saveSettings': 'Algunos ajustes no se pudieron guardar en este navegador, probablemente porque una imagen es demasiado grande. Se mantienen hasta que se recargue la página.',
+  'error.startRecording': 'No se pudo iniciar la grabación. Revisa los permisos.',
+  'error.nothingToRecord': 'Nada que grabar: activa la pantalla, la cámara o el micrófono',
+  'error.noRecordingFormat': 'Este navegador no puede grabar vídeo en ningún formato compatible',
+  'error.noWebCodecs': 'Este navegador no admite la codificación WebCodecs',
+  'error.noVideoEncoder': 'No se encontró ningún codificador de vídeo {format} compatible',
+  'error.noAudioEncoder': 'No se encontró ningún codificador de audio {format} compatible',
+  'error.nothingToExport': 'No queda nada que exportar',
+  'error.unknownDuration': 'No se pudo leer la duración de la grabación, así que no se puede convertir',
+  'error.readImage': 'No se pudo leer la imagen',
+
+  'landing.intro': 'Configura tu estudio de grabación. Cuando estés listo, empieza a compartir la pantalla.',
+  'landing.failed': 'Error en la grabación',
+  'landing.unfinished': 'Grabación sin terminar',
+  'landing.discard': 'Descartar',
+  'landing.recover': 'Recuperar',
+  'landing.mode': 'Modo',
+  'landing.audioOn': 'Audio activado',
+  'landing.muted': 'Todo silenciado',
+  'landing.audioOnlyHint': 'Activa el audio para grabar una nota de voz.',
+  'landing.devices': 'Dispositivos',
+  'landing.defaultCamera': 'Cámara predeterminada',
+  'landing.defaultMicrophone': 'Micrófono predeterminado',
+  'landing.micProcessing': 'Procesamiento del micrófono',
+  'landing.cameraBackground': 'Fondo de la cámara',
+  'landing.quality': 'Calidad',
+  'landing.captureArea': 'Área de captura',
+  'landing.savedStyles': 'Estilos guardados',
+  'landing.cameraShape': 'Forma de la cámara',
+  'landing.border': 'Borde',
+  'landing.borderColor': 'Color del borde',
+  'landing.start': 'Iniciar grabación',
+  'landing.countdownHint': 'inicia tras una cuenta atrás de 3 segundos',
+  'landing.preview': 'Vista previa',
+  'landing.mode.screenCamera': 'Pantalla + cámara',
+  'landing.mode.screen': 'Solo pantalla',
+  'landing.mode.camera': 'Solo cámara',
+  'landing.mode.audio': 'Solo audio',
+  'landing.presetHint.voice': 'Limpia y uniforme',
+  'landing.presetHint.podcast': 'Densa, tipo radio',
+  'landing.presetHint.raw': 'Sin procesar',
+  'landing.language': 'Idioma',
+
+  'camera.shape.circle': 'Círculo',
+  'camera.shape.square': 'Cuadrado',
+  'camera.shape.rect': 'Rectángulo',
+
+  'recording.initializing': 'Preparando el estudio...',
+  'recording.selectScreen': 'Selecciona tu pantalla para empezar',
+  'recording.shape': 'Forma',
+  'recording.color': 'Color',
+  'recording.background': 'Fondo',
+  'recording.paused': 'EN PAUSA',
+  'recording.minimapHint': 'Desplaza para hacer zoom, Alt + arrastrar para mover',
+  'recording.frameStats': { one: '{count} fotograma dibujado, {dropped} perdidos', other: '{count} fotogramas dibujados, {dropped} perdidos' },
+  'recording.fps': '{fps}/{target} fps',
+  'recording.dropped': { one: '{count} perdido', other: '{count} perdidos' },
+  'recording.audioMixer': 'Mezclador de audio',
+  'recording.audio': 'Audio',
+  'recording.scenes': 'Escenas',
+  'recording.scene': 'Escena',
+  'recording.overlays': 'Superposiciones',
+  'recording.hideCamera': 'Ocultar cámara',
+  'recording.showCamera': 'Mostrar cámara',
+  'recording.addMarker': 'Añadir marcador',
+  'recording.markerCount': { one: '{count} marcador', other: '{count} marcadores' },
+  'recording.markerAt': 'Marcador en {time}',
+  'recording.markerHint': 'Intro para guardar, Esc para mantener el nombre predeterminado',
+  'recording.pause': 'Pausa',
+  'recording.resume': 'Reanudar',
+  'recording.finish': 'Finalizar',
+  'recording.markerLabel': 'Marcador {index}',
+
+  'scene.bubble': 'Pantalla + burbuja',
+  'scene.side-by-side': 'Lado a lado',
+  'scene.camera-inset': 'Cámara + pantalla insertada',
+  'scene.presenter': 'Presentador sobre diapositivas',
+  'scene.screen-only': 'Solo pantalla',
+  'scene.camera-only': 'Solo cámara',
+
+  'region.preset.full': 'Completo',
+  'region.preset.center': 'Centro',
+  'region.preset.left': 'Mitad izquierda',
+  'region.preset.right': 'Mitad derecha',
+  'region.dragHint': 'Arrastra para elegir el área',
+
+  'quality.resolution': 'Resolución',
+  'quality.frameRate': 'FPS',
+  'quality.codec': 'Códec',
+  'quality.videoBitrate': 'Tasa de bits',
+  'quality.codecUnsupported': ' (no compatible)',
+  'quality.preset.draft': 'Borrador 720p',
+  'quality.preset.standard': 'Estándar 1080p30',
+  'quality.preset.crisp': 'Nítido 1440p',
+  'quality.preset.smooth': 'Fluido 1080p60',
+  'quality.preset.custom': 'Personalizado',
+  'quality.estimate': '~{size} MB/min',
+  'quality.bitrate': '{rate} Mbps',
+  'quality.codecFallback': 'Este navegador no puede grabar en {codec}: se usará el mejor códec disponible.',
+
+  'background.backgroundColor': 'Color de fondo',
+  'background.changeImage': 'Cambiar imagen',
+  'background.chooseAnImage': 'Elegir una imagen',
+  'background.keyColor': 'Color clave',
+  'background.tolerance': 'Tolerancia',
+  'background.spill': 'Derrame',
+  'background.mode.none': 'Ninguno',
+  'background.mode.blur': 'Desenfoque',
+  'background.mode.color': 'Color',
+  'background.mode.image': 'Imagen',
+  'background.mode.chroma': 'Pantalla verde',
+  'background.modelChecking': 'Buscando el modelo para quitar el fondo…',
+  'background.modelMissing': 'El desenfoque, el color y la imagen necesitan el modelo de segmentación, que no está instalado en este servidor.',
+
+  'audio.preset.voice': 'Voz',
+  'audio.preset.podcast': 'Pódcast',
+  'audio.preset.raw': 'Original',
+  'audio.source.microphone': 'Micrófono',
+  'audio.source.system': 'Audio del sistema',
+  'audio.muted': 'Silenciado',
+  'audio.mute': 'Silenciar',
+  'audio.unmute': 'Activar sonido',
+  'audio.resetHint': 'Doble clic para restablecer',
+  'audio.processing': 'Procesamiento del micrófono',
+
+  'devices.camera': 'Cámara {index}',
+  'devices.microphone': 'Micrófono {index}',
+
+  'annotate.pointer': 'Puntero',
+  'annotate.tool.pen': 'Lápiz',
+  'annotate.tool.arrow': 'Flecha',
+  'annotate.tool.rect': 'Recuadro',
+  'annotate.tool.highlighter': 'Resaltador (se desvanece)',
+  'annotate.tool.spotlight': 'Foco',
+  'annotate.undo': 'Deshacer',
+  'annotate.clear': 'Borrar todo',
+
+  'minimap.resetZoom': 'Restablecer zoom',
+
+  'overlay.kind.watermark': 'Logotipo',
+  'overlay.kind.lowerThird': 'Rótulo de nombre',
+  'overlay.kind.text': 'Texto',
+  'overlay.size': 'Tamaño',
+  'overlay.opacity': 'Opacidad',
+  'overlay.name': 'Nombre',
+  'overlay.role': 'Cargo',
+  'overlay.onScreen': 'En pantalla',
+  'overlay.seconds': '{count} s',
+  'overlay.plate': 'Fondo',
+  'overlay.empty': 'Añade un logotipo, un rótulo de nombre o un texto. Arrástralos sobre la vista previa para colocarlos.',
+
+  'presets.delete': 'Eliminar ajuste',
+  'presets.saveCurrent': 'Guardar estilo actual',
+  'presets.name': 'Nombre del ajuste',
+
+  'brand.logoTooLarge': 'El logotipo es demasiado grande.',
+  'brand.notJson': 'El archivo no es un JSON válido',
+  'brand.invalidProfile': 'El archivo no es un perfil de marca válido',
+  'brand.title': 'Perfil de marca',
+  'brand.name': 'Nombre',
+  'brand.namePlaceholder': 'P. ej., Acme Marketing',
+  'brand.colors': 'Colores',
+  'brand.addColor': 'Añadir color',
+  'brand.logo': 'Logotipo',
+  'brand.upload': 'Subir',
+  'brand.defaultLayout': 'Diseño predeterminado',
+  'brand.useCameraStyle': 'Usar el estilo de cámara actual',
+  'brand.import': 'Importar',
+  'brand.export': 'Exportar',
+  'brand.turnOff': 'Desactivar',
+  'brand.apply': 'Aplicar',
+
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.pressKeys': 'Pulsa las teclas…',
+  'shortcuts.unbound': 'Ninguno',
+  'shortcuts.conflict': 'Dos acciones usan la misma combinación.',
+  'shortcuts.hint': 'Haz clic en un atajo y pulsa la nueva combinación. Esc cancela, Retroceso lo elimina.',
+  'shortcuts.resetToDefaults': 'Restablecer valores predeterminados',
+  'shortcuts.unusable': '{combo} no se puede usar: añade Ctrl, Alt o Mayús, o usa una tecla de función.',
+  'shortcuts.action.start': 'Iniciar (con cuenta atrás)',
+  'shortcuts.action.togglePause': 'Pausa / Reanudar',
+  'shortcuts.action.stop': 'Finalizar',
+  'shortcuts.action.toggleCamera': 'Mostrar / ocultar cámara',
+  'shortcuts.action.cycleShape': 'Cambiar forma de la cámara',
+  'shortcuts.action.addMarker': 'Añadir marcador',
+  'shortcuts.action.annotate': 'Anotar',
+
+  'ai.title': 'Ajustes de IA',
+  'ai.serverUrl': 'URL del servidor',
+  'ai.apiKey': 'Clave de API',
+  'ai.optional': 'Opcional',
+  'ai.model': 'Modelo',
+  'ai.transcriptionModel': 'Modelo de transcripción',
+  'ai.keysNote': 'Las claves se quedan en este navegador y solo se envían al proveedor que elijas.',
+  'ai.provider.gemini': 'Google Gemini',
+  'ai.provider.geminiHint': 'Clave de Google AI Studio.',
+  'ai.provider.openai': 'Compatible con OpenAI',
+  'ai.provider.openaiHint': 'Cualquier endpoint que hable la API de OpenAI.',
+  'ai.provider.local': 'Servidor local',
+  'ai.provider.localHint': 'Ollama, LM Studio o un servidor Whisper en este equipo.',
+  'ai.provider.mock': 'Simulado (sin conexión)',
+  'ai.provider.mockHint': 'Respuestas fijas, sin red. Para desarrollo y pruebas.',
+
+  'review.badFormat': 'La IA respondió con un formato inesperado. Inténtalo de nuevo.',
+  'review.captions': 'Subtítulos',
+  'review.applyEdits': 'Aplicar cambios',
+  'review.undoEdit': 'Deshacer cambio',
+  'review.aiSummary': 'Resumen de IA',
+  'review.title': 'Título',
+  'review.description': 'Descripción',
+  'review.lowConfidence': 'La IA no está segura de este resumen: revísalo.',
+  'review.chapters': 'Capítulos',
+  'review.copyTimestamps': 'Copiar como marcas de tiempo',
+  'review.openSettings': 'Abrir ajustes',
+  'review.retry': 'Reintentar',
+  'review.waiting': 'La IA está haciendo su magia...',
+  'review.loudness': 'Volumen',
+  'review.download': 'Descargar vídeo',
+  'review.localNote': 'Tu vídeo se procesa localmente en tu navegador.',
+  'review.exporting': 'Exportando {progress} %',
+  'review.recordedOn': 'Grabado el {date}',
+  'review.converting': 'Convirtiendo a {format}... {progress} %',
+  'review.originalFormat': 'Igual que la grabación',
+  'review.loudnessTarget': '{preset} · {target} LUFS',
+
+  'transcript.title': 'Transcripción',
+  'transcript.regenerate': 'Regenerar',
+  'transcript.transcribe': 'Transcribir',
+  'transcript.noSpeech': 'No se ha detectado voz.',
+  'transcript.noAudio': 'Esta grabación no tiene audio',
+  'transcript.sampleSentence': 'Frase de ejemplo {index}.',
+
+  'markers.title': 'Marcadores',
+  'markers.copyHint': 'Copiar como lista de marcas de tiempo',
+  'markers.copy': 'Copiar',
+  'markers.vttHint': 'Capítulos WebVTT',
+  'markers.jump': 'Ir al marcador',
+
+  'trim.restoreHint': 'Haz clic para restaurar',
+  'trim.setIn': 'Inicio aquí',
+  'trim.setOut': 'Fin aquí',
+  'trim.deleteSelection': 'Eliminar selección',
+  'trim.reset': 'Restablecer',
+  'trim.hint': 'Arrastra sobre la línea de tiempo para seleccionar una parte que eliminar. Arrastra los tiradores para recortar el inicio y el final.',
+
+  'clip.title': 'Clip GIF / WebP',
+  'clip.range': 'Intervalo',
+  'clip.startHere': 'Empezar aquí',
+  'clip.endHere': 'Terminar aquí',
+  'clip.useTrim': 'Usar recorte',
+  'clip.width': 'Ancho',
+  'clip.colors': 'Colores',
+  'clip.dither': 'Tramado (degradados más suaves)',
+  'clip.estimating': 'Calculando tamaño...',
+  'clip.longWarning': 'Los clips largos generan archivos muy grandes.',
+  'clip.creating': 'Creando clip...',
+  'clip.estimate': { one: 'Tamaño estimado: ~{size} • {count} fotograma', other: 'Tamaño estimado: ~{size} • {count} fotogramas' },
+  'clip.export': 'Exportar {format}',
+
+  'library.title': 'Biblioteca',
+  'library.search': 'Buscar grabaciones...',
+  'library.empty': 'Aún no hay grabaciones guardadas.',
+  'library.noMatches': 'Sin resultados.',
+  'library.rename': 'Renombrar',
+  'library.storage': '{used} usados de {quota}',
+  'library.deleteConfirm': '¿Eliminar «{title}»? Esta acción no se puede deshacer.',
+};
+
+export default es;
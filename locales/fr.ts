@@ -0,0 +1,289 @@
+import type { Catalog } from '../utils/i18n';
+
+const fr: Catalog = {
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.hide': 'Masquer',
+  'common.show': 'Afficher',
+  'common.remove': 'Retirer',
+  'common.newRecording': 'Nouvel enregistrement',
+  'common.delete': 'Supprimer',
+
+  'error.ai': 'La requête IA a échoué',
+  'error.conversion': 'La conversion a échoué',
+  'error.transcription': 'La transcription a échoué',
+  'error.export': "L'exportation a échoué",
+  'error.clip': "L'exportation du clip a échoué",
+  'error.library': 'Impossible de charger la bibliothèque',
+  'error.rename': "Impossible de renommer l'enregistrement",
+  'error.delete': "Impossible de supprimer l'enregistrement",
+  'error.recover': "Impossible de récupérer l'enregistrement.",
+  'error.saveSettings': "Certains réglages n'ont pas pu être enregistrés dans ce navigateur, sans doute parce qu'une image est trop lourde. Ils restent actifs jusqu'au rechargement de la page.",
+  'error.startRecording': "Impossible de démarrer l'enregistrement. Vérifiez les autorisations.",
+  'error.nothingToRecord': "Rien à enregistrer : activez l'écran, la caméra ou le microphone",
+  'error.noRecordingFormat': 'Ce navigateur ne peut enregistrer de vidéo dans aucun format pris en charge',
+  'error.noWebCodecs': "Ce navigateur ne prend pas en charge l'encodage WebCodecs",
+  'error.noVideoEncoder': 'Aucun encodeur vidéo {format} pris en charge',
+  'error.noAudioEncoder': 'Aucun encodeur audio {format} pris en charge',
+  'error.nothingToExport': 'Plus rien à exporter',
+  'error.unknownDuration': "Impossible de lire la durée de l'enregistrement, il ne peut donc pas être converti",
+  'error.readImage': "Impossible de lire l'image",
+
+  'landing.intro': "Configurez votre studio d'enregistrement. Quand vous êtes prêt, partagez votre écran.",
+  'landing.failed': "Échec de l'enregistrement",
+  'landing.unfinished': 'Enregistrement inachevé',
+  'landing.discard': 'Abandonner',
+  'landing.recover': 'Récupérer',
+  'landing.mode': 'Mode',
+  'landing.audioOn': 'Son activé',
+  'landing.muted': 'Tout est muet',
+  'landing.audioOnlyHint': 'Activez le son pour enregistrer un mémo vocal.',
+  'landing.devices': 'Appareils',
+  'landing.defaultCamera': 'Caméra par défaut',
+  'landing.defaultMicrophone': 'Micro par défaut',
+  'landing.micProcessing': 'Traitement du micro',
+  'landing.cameraBackground': 'Arrière-plan de la caméra',
+  'landing.quality': 'Qualité',
+  'landing.captureArea': 'Zone de capture',
+  'landing.savedStyles': 'Styles enregistrés',
+  'landing.cameraShape': 'Forme de la caméra',
+  'landing.border': 'Bordure',
+  'landing.borderColor': 'Couleur de bordure',
+  'landing.start': "Démarrer l'enregistrement",
+  'landing.countdownHint': 'démarre après un compte à rebours de 3 secondes',
+  'landing.preview': 'Aperçu',
+  'landing.mode.screenCamera': 'Écran + caméra',
+  'landing.mode.screen': 'Écran seul',
+  'landing.mode.camera': 'Caméra seule',
+  'landing.mode.audio': 'Audio seul',
+  'landing.presetHint.voice': 'Propre et régulier',
+  'landing.presetHint.podcast': 'Dense, façon radio',
+  'landing.presetHint.raw': 'Aucun traitement',
+  'landing.language': 'Langue',
+
+  'camera.shape.circle': 'Cercle',
+  'camera.shape.square': 'Carré',
+  'camera.shape.rect': 'Rectangle',
+
+  'recording.initializing': 'Préparation du studio...',
+  'recording.selectScreen': 'Sélectionnez votre écran pour commencer',
+  'recording.shape': 'Forme',
+  'recording.color': 'Couleur',
+  'recording.background': 'Arrière-plan',
+  'recording.paused': 'EN PAUSE',
+  'recording.minimapHint': 'Faites défiler pour zoomer, Alt + glisser pour déplacer',
+  'recording.frameStats': { one: '{count} image rendue, {dropped} perdues', other: '{count} images rendues, {dropped} perdues' },
+  'recording.fps': '{fps}/{target} i/s',
+  'recording.dropped': { one: '{count} perdue', other: '{count} perdues' },
+  'recording.audioMixer': 'Mixeur audio',
+  'recording.audio': 'Audio',
+  'recording.scenes': 'Scènes',
+  'recording.scene': 'Scène',
+  'recording.overlays': 'Incrustations',
+  'recording.hideCamera': 'Masquer la caméra',
+  'recording.showCamera': 'Afficher la caméra',
+  'recording.addMarker': 'Ajouter un repère',
+  'recording.markerCount': { one: '{count} repère', other: '{count} repères' },
+  'recording.markerAt': 'Repère à {time}',
+  'recording.markerHint': 'Entrée pour enregistrer, Échap pour garder le nom par défaut',
+  'recording.pause': 'Pause',
+  'recording.resume': 'Reprendre',
+  'recording.finish': 'Terminer',
+  'recording.markerLabel': 'Repère {index}',
+
+  'scene.bubble': 'Écran + bulle',
+  'scene.side-by-side': 'Côte à côte',
+  'scene.camera-inset': 'Caméra + écran en incrustation',
+  'scene.presenter': 'Présentateur sur les diapositives',
+  'scene.screen-only': 'Écran seul',
+  'scene.camera-only': 'Caméra seule',
+
+  'region.preset.full': 'Entier',
+  'region.preset.center': 'Centre',
+  'region.preset.left': 'Moitié gauche',
+  'region.preset.right': 'Moitié droite',
+  'region.dragHint': 'Faites glisser pour choisir la zone',
+
+  'quality.resolution': 'Résolution',
+  'quality.frameRate': 'IPS',
+  'quality.codec': 'Codec',
+  'quality.videoBitrate': 'Débit',
+  'quality.codecUnsupported': ' (non pris en charge)',
+  'quality.preset.draft': 'Brouillon 720p',
+  'quality.preset.standard': 'Standard 1080p30',
+  'quality.preset.crisp': 'Net 1440p',
+  'quality.preset.smooth': 'Fluide 1080p60',
+  'quality.preset.custom': 'Personnalisé',
+  'quality.estimate': '~{size} Mo/min',
+  'quality.bitrate': '{rate} Mbit/s',
+  'quality.codecFallback': 'Ce navigateur ne peut pas enregistrer en {codec} : le meilleur codec disponible sera utilisé.',
+
+  'background.backgroundColor': 'Couleur de fond',
+  'background.changeImage': "Changer d'image",
+  'background.chooseAnImage': 'Choisir une image',
+  'background.keyColor': "Couleur d'incrustation",
+  'background.tolerance': 'Tolérance',
+  'background.spill': 'Débordement',
+  'background.mode.none': 'Aucun',
+  'background.mode.blur': 'Flou',
+  'background.mode.color': 'Couleur',
+  'background.mode.image': 'Image',
+  'background.mode.chroma': 'Fond vert',
+  'background.modelChecking': "Recherche du modèle de suppression de l'arrière-plan…",
+  'background.modelMissing': "Le flou, la couleur et l'image nécessitent le modèle de segmentation, qui n'est pas installé sur ce serveur.",
+
+  'audio.preset.voice': 'Voix',
+  'audio.preset.podcast': 'Podcast',
+  'audio.preset.raw': 'Brut',
+  'audio.source.microphone': 'Micro',
+  'audio.source.system': 'Son du système',
+  'audio.muted': 'Muet',
+  'audio.mute': 'Couper le son',
+  'audio.unmute': 'Rétablir le son',
+  'audio.resetHint': 'Double-cliquez pour réinitialiser',
+  'audio.processing': 'Traitement du micro',
+
+  'devices.camera': 'Caméra {index}',
+  'devices.microphone': 'Micro {index}',
+
+  'annotate.pointer': 'Pointeur',
+  'annotate.tool.pen': 'Stylo',
+  'annotate.tool.arrow': 'Flèche',
+  'annotate.tool.rect': 'Cadre',
+  'annotate.tool.highlighter': "Surligneur (s'estompe)",
+  'annotate.tool.spotlight': 'Projecteur',
+  'annotate.undo': 'Annuler',
+  'annotate.clear': 'Tout effacer',
+
+  'minimap.resetZoom': 'Réinitialiser le zoom',
+
+  'overlay.kind.watermark': 'Logo',
+  'overlay.kind.lowerThird': 'Carton de nom',
+  'overlay.kind.text': 'Texte',
+  'overlay.size': 'Taille',
+  'overlay.opacity': 'Opacité',
+  'overlay.name': 'Nom',
+  'overlay.role': 'Fonction',
+  'overlay.onScreen': "À l'écran",
+  'overlay.seconds': '{count} s',
+  'overlay.plate': 'Fond',
+  'overlay.empty': "Ajoutez un logo, un carton de nom ou une légende. Faites-les glisser sur l'aperçu pour les placer.",
+
+  'presets.delete': 'Supprimer le préréglage',
+  'presets.saveCurrent': 'Enregistrer le style actuel',
+  'presets.name': 'Nom du préréglage',
+
+  'brand.logoTooLarge': 'Le logo est trop volumineux.',
+  'brand.notJson': "Le fichier n'est pas un JSON valide",
+  'brand.invalidProfile': "Le fichier n'est pas un profil de marque valide",
+  'brand.title': 'Profil de marque',
+  'brand.name': 'Nom',
+  'brand.namePlaceholder': 'Ex. : Acme Marketing',
+  'brand.colors': 'Couleurs',
+  'brand.addColor': 'Ajouter une couleur',
+  'brand.logo': 'Logo',
+  'brand.upload': 'Importer',
+  'brand.defaultLayout': 'Mise en page par défaut',
+  'brand.useCameraStyle': 'Utiliser le style de caméra actuel',
+  'brand.import': 'Importer',
+  'brand.export': 'Exporter',
+  'brand.turnOff': 'Désactiver',
+  'brand.apply': 'Appliquer',
+
+  'shortcuts.title': 'Raccourcis clavier',
+  'shortcuts.pressKeys': 'Appuyez sur les touches…',
+  'shortcuts.unbound': 'Aucun',
+  'shortcuts.conflict': 'Deux actions utilisent la même combinaison.',
+  'shortcuts.hint': 'Cliquez sur un raccourci et appuyez sur la nouvelle combinaison. Échap annule, Retour arrière le supprime.',
+  'shortcuts.resetToDefaults': 'Rétablir les valeurs par défaut',
+  'shortcuts.unusable': "{combo} n'est pas utilisable : ajoutez Ctrl, Alt ou Maj, ou utilisez une touche de fonction.",
+  'shortcuts.action.start': 'Démarrer (avec compte à rebours)',
+  'shortcuts.action.togglePause': 'Pause / Reprendre',
+  'shortcuts.action.stop': 'Terminer',
+  'shortcuts.action.toggleCamera': 'Afficher / masquer la caméra',
+  'shortcuts.action.cycleShape': 'Changer la forme de la caméra',
+  'shortcuts.action.addMarker': 'Ajouter un repère',
+  'shortcuts.action.annotate': 'Annoter',
+
+  'ai.title': 'Paramètres IA',
+  'ai.serverUrl': 'URL du serveur',
+  'ai.apiKey': 'Clé API',
+  'ai.optional': 'Facultatif',
+  'ai.model': 'Modèle',
+  'ai.transcriptionModel': 'Modèle de transcription',
+  'ai.keysNote': "Les clés restent dans ce navigateur et ne sont envoyées qu'au fournisseur choisi.",
+  'ai.provider.gemini': 'Google Gemini',
+  'ai.provider.geminiHint': 'Clé obtenue dans Google AI Studio.',
+  'ai.provider.openai': 'Compatible OpenAI',
+  'ai.provider.openaiHint': "Tout point d'accès qui parle l'API OpenAI.",
+  'ai.provider.local': 'Serveur local',
+  'ai.provider.localHint': 'Ollama, LM Studio ou un serveur Whisper sur cette machine.',
+  'ai.provider.mock': 'Simulé (hors ligne)',
+  'ai.provider.mockHint': 'Réponses fixes, sans réseau. Pour le développement et les tests.',
+
+  'review.badFormat': "L'IA a répondu dans un format inattendu. Réessayez.",
+  'review.captions': 'Sous-titres',
+  'review.applyEdits': 'Appliquer les modifications',
+  'review.undoEdit': 'Annuler la modification',
+  'review.aiSummary': 'Résumé IA',
+  'review.title': 'Titre',
+  'review.description': 'Description',
+  'review.lowConfidence': "L'IA n'est pas sûre de ce résumé : vérifiez-le.",
+  'review.chapters': 'Chapitres',
+  'review.copyTimestamps': "Copier sous forme d'horodatages",
+  'review.openSettings': 'Ouvrir les paramètres',
+  'review.retry': 'Réessayer',
+  'review.waiting': "L'IA opère sa magie...",
+  'review.loudness': 'Volume',
+  'review.download': 'Télécharger la vidéo',
+  'review.localNote': 'Votre vidéo est traitée localement dans votre navigateur.',
+  'review.exporting': 'Exportation {progress} %',
+  'review.recordedOn': 'Enregistré le {date}',
+  'review.converting': 'Conversion en {format}... {progress} %',
+  'review.originalFormat': "Comme l'enregistrement",
+  'review.loudnessTarget': '{preset} · {target} LUFS',
+
+  'transcript.title': 'Transcription',
+  'transcript.regenerate': 'Régénérer',
+  'transcript.transcribe': 'Transcrire',
+  'transcript.noSpeech': 'Aucune parole détectée.',
+  'transcript.noAudio': "Cet enregistrement n'a pas de son",
+  'transcript.sampleSentence': "Phrase d'exemple {index}.",
+
+  'markers.title': 'Repères',
+  'markers.copyHint': "Copier sous forme de liste d'horodatages",
+  'markers.copy': 'Copier',
+  'markers.vttHint': 'Chapitres WebVTT',
+  'markers.jump': 'Aller au repère',
+
+  'trim.restoreHint': 'Cliquez pour restaurer',
+  'trim.setIn': 'Début ici',
+  'trim.setOut': 'Fin ici',
+  'trim.deleteSelection': 'Supprimer la sélection',
+  'trim.reset': 'Réinitialiser',
+  'trim.hint': 'Faites glisser sur la timeline pour sélectionner une partie à supprimer. Faites glisser les poignées pour couper le début et la fin.',
+
+  'clip.title': 'Clip GIF / WebP',
+  'clip.range': 'Plage',
+  'clip.startHere': 'Commencer ici',
+  'clip.endHere': 'Finir ici',
+  'clip.useTrim': 'Utiliser le découpage',
+  'clip.width': 'Largeur',
+  'clip.colors': 'Couleurs',
+  'clip.dither': 'Tramage (dégradés plus doux)',
+  'clip.estimating': 'Estimation de la taille...',
+  'clip.longWarning': 'Les clips longs produisent des fichiers très volumineux.',
+  'clip.creating': 'Création du clip...',
+  'clip.estimate': { one: 'Taille estimée : ~{size} • {count} image', other: 'Taille estimée : ~{size} • {count} images' },
+  'clip.export': 'Exporter en {format}',
+
+  'library.title': 'Bibliothèque',
+  'library.search': 'Rechercher des enregistrements...',
+  'library.empty': "Aucun enregistrement sauvegardé pour l'instant.",
+  'library.noMatches': 'Aucun résultat.',
+  'library.rename': 'Renommer',
+  'library.storage': '{used} utilisés sur {quota}',
+  'library.deleteConfirm': 'Supprimer « {title} » ? Cette action est irréversible.',
+};
+
+export default fr;
@@ -0,0 +1,289 @@
+import type { Catalog } from '../utils/i18n';
+
+const it: Catalog = {
+  'common.cancel': 'Annulla',
+  'common.save': 'Salva',
+  'common.hide': 'Nascondi',
+  'common.show': 'Mostra',
+  'common.remove': 'Rimuovi',
+  'common.newRecording': 'Nuova Registrazione',
+  'common.delete': 'Elimina',
+
+  'error.ai': 'Richiesta AI non riuscita',
+  'error.conversion': 'Conversione non riuscita',
+  'error.transcription': 'Trascrizione non riuscita',
+  'error.export': 'Esportazione non riuscita',
+  'error.clip': 'Esportazione della clip non riuscita',
+  'error.library': 'Impossibile caricare la libreria',
+  'error.rename': 'Impossibile rinominare la registrazione',
+  'error.delete': 'Impossibile eliminare la registrazione',
+  'error.recover': 'Impossibile recuperare la registrazione.',
+  'error.saveSettings': "Alcune impostazioni non sono state salvate in questo browser, probabilmente perché un'immagine è troppo grande. Restano attive fino al ricaricamento della pagina.",
+  'error.startRecording': 'Impossibile avviare la registrazione. Controlla i permessi.',
+  'error.nothingToRecord': 'Niente da registrare: attiva lo schermo, la fotocamera o il microfono',
+  'error.noRecordingFormat': 'Questo browser non può registrare video in nessun formato supportato',
+  'error.noWebCodecs': 'Questo browser non supporta la codifica WebCodecs',
+  'error.noVideoEncoder': 'Nessun codificatore video {format} supportato',
+  'error.noAudioEncoder': 'Nessun codificatore audio {format} supportato',
+  'error.nothingToExport': 'Non resta nulla da esportare',
+  'error.unknownDuration': 'Impossibile leggere la durata della registrazione, quindi non può essere convertita',
+  'error.readImage': "Impossibile leggere l'immagine",
+
+  'landing.intro': 'Configura il tuo studio. Quando sei pronto, inizia a condividere lo schermo.',
+  'landing.failed': 'Registrazione Fallita',
+  'landing.unfinished': 'Registrazione non terminata',
+  'landing.discard': 'Scarta',
+  'landing.recover': 'Recupera',
+  'landing.mode': 'Modalità',
+  'landing.audioOn': 'Audio attivo',
+  'landing.muted': 'Tutto muto',
+  'landing.audioOnlyHint': "Attiva l'audio per registrare un memo vocale.",
+  'landing.devices': 'Dispositivi',
+  'landing.defaultCamera': 'Camera predefinita',
+  'landing.defaultMicrophone': 'Microfono predefinito',
+  'landing.micProcessing': 'Elaborazione Microfono',
+  'landing.cameraBackground': 'Sfondo Fotocamera',
+  'landing.quality': 'Qualità',
+  'landing.captureArea': 'Area di cattura',
+  'landing.savedStyles': 'Stili salvati',
+  'landing.cameraShape': 'Forma Fotocamera',
+  'landing.border': 'Bordo',
+  'landing.borderColor': 'Colore Bordo',
+  'landing.start': 'Avvia Registrazione',
+  'landing.countdownHint': 'avvia dopo un conto alla rovescia di 3 secondi',
+  'landing.preview': 'Anteprima',
+  'landing.mode.screenCamera': 'Schermo + Camera',
+  'landing.mode.screen': 'Solo Schermo',
+  'landing.mode.camera': 'Solo Camera',
+  'landing.mode.audio': 'Solo Audio',
+  'landing.presetHint.voice': 'Pulita e uniforme',
+  'landing.presetHint.podcast': 'Compressa, piena',
+  'landing.presetHint.raw': 'Nessun filtro',
+  'landing.language': 'Lingua',
+
+  'camera.shape.circle': 'Cerchio',
+  'camera.shape.square': 'Quadrato',
+  'camera.shape.rect': 'Rettangolo',
+
+  'recording.initializing': 'Preparazione dello studio...',
+  'recording.selectScreen': 'Seleziona lo schermo per iniziare',
+  'recording.shape': 'Forma',
+  'recording.color': 'Colore',
+  'recording.background': 'Sfondo',
+  'recording.paused': 'IN PAUSA',
+  'recording.minimapHint': 'Scorri per lo zoom, Alt + trascina per spostarti',
+  'recording.frameStats': { one: '{count} fotogramma disegnato, {dropped} persi', other: '{count} fotogrammi disegnati, {dropped} persi' },
+  'recording.fps': '{fps}/{target} fps',
+  'recording.dropped': { one: '{count} perso', other: '{count} persi' },
+  'recording.audioMixer': 'Mixer audio',
+  'recording.audio': 'Audio',
+  'recording.scenes': 'Scene',
+  'recording.scene': 'Scena',
+  'recording.overlays': 'Sovrimpressioni',
+  'recording.hideCamera': 'Nascondi camera',
+  'recording.showCamera': 'Mostra camera',
+  'recording.addMarker': 'Aggiungi marcatore',
+  'recording.markerCount': { one: '{count} marcatore', other: '{count} marcatori' },
+  'recording.markerAt': 'Marcatore a {time}',
+  'recording.markerHint': 'Invio per salvare, Esc per tenere il nome predefinito',
+  'recording.pause': 'Pausa',
+  'recording.resume': 'Riprendi',
+  'recording.finish': 'Termina',
+  'recording.markerLabel': 'Marcatore {index}',
+
+  'scene.bubble': 'Schermo + bolla',
+  'scene.side-by-side': 'Affiancati',
+  'scene.camera-inset': 'Camera + schermo',
+  'scene.presenter': 'Relatore sulle slide',
+  'scene.screen-only': 'Solo schermo',
+  'scene.camera-only': 'Solo camera',
+
+  'region.preset.full': 'Intero',
+  'region.preset.center': 'Centro',
+  'region.preset.left': 'Metà sinistra',
+  'region.preset.right': 'Metà destra',
+  'region.dragHint': "Trascina per scegliere l'area",
+
+  'quality.resolution': 'Risoluzione',
+  'quality.frameRate': 'FPS',
+  'quality.codec': 'Codec',
+  'quality.videoBitrate': 'Bitrate',
+  'quality.codecUnsupported': ' (non supportato)',
+  'quality.preset.draft': 'Bozza 720p',
+  'quality.preset.standard': 'Standard 1080p30',
+  'quality.preset.crisp': 'Nitido 1440p',
+  'quality.preset.smooth': 'Fluido 1080p60',
+  'quality.preset.custom': 'Personalizzata',
+  'quality.estimate': '~{size} MB/min',
+  'quality.bitrate': '{rate} Mbps',
+  'quality.codecFallback': 'Questo browser non registra in {codec}: verrà usato il miglior codec disponibile.',
+
+  'background.backgroundColor': 'Colore sfondo',
+  'background.changeImage': 'Cambia immagine',
+  'background.chooseAnImage': "Scegli un'immagine",
+  'background.keyColor': 'Colore chiave',
+  'background.tolerance': 'Tolleranza',
+  'background.spill': 'Riduzione riflessi',
+  'background.mode.none': 'Nessuno',
+  'background.mode.blur': 'Sfoca',
+  'background.mode.color': 'Colore',
+  'background.mode.image': 'Immagine',
+  'background.mode.chroma': 'Green screen',
+  'background.modelChecking': 'Verifica del modello di rimozione dello sfondo…',
+  'background.modelMissing': 'Sfocatura, colore e immagine richiedono il modello di segmentazione, che non è installato su questo server.',
+
+  'audio.preset.voice': 'Voce',
+  'audio.preset.podcast': 'Podcast',
+  'audio.preset.raw': 'Originale',
+  'audio.source.microphone': 'Microfono',
+  'audio.source.system': 'Audio di sistema',
+  'audio.muted': 'Muto',
+  'audio.mute': 'Disattiva audio',
+  'audio.unmute': 'Riattiva audio',
+  'audio.resetHint': 'Doppio clic per ripristinare',
+  'audio.processing': 'Elaborazione del microfono',
+
+  'devices.camera': 'Camera {index}',
+  'devices.microphone': 'Microfono {index}',
+
+  'annotate.pointer': 'Puntatore',
+  'annotate.tool.pen': 'Penna',
+  'annotate.tool.arrow': 'Freccia',
+  'annotate.tool.rect': 'Riquadro',
+  'annotate.tool.highlighter': 'Evidenziatore (svanisce)',
+  'annotate.tool.spotlight': 'Riflettore',
+  'annotate.undo': 'Annulla',
+  'annotate.clear': 'Cancella tutto',
+
+  'minimap.resetZoom': 'Ripristina zoom',
+
+  'overlay.kind.watermark': 'Logo',
+  'overlay.kind.lowerThird': 'Targhetta',
+  'overlay.kind.text': 'Testo',
+  'overlay.size': 'Dimensione',
+  'overlay.opacity': 'Opacità',
+  'overlay.name': 'Nome',
+  'overlay.role': 'Ruolo',
+  'overlay.onScreen': 'Sullo schermo',
+  'overlay.seconds': '{count}s',
+  'overlay.plate': 'Sfondo',
+  'overlay.empty': "Aggiungi un logo, una targhetta o una didascalia. Trascinali sull'anteprima per posizionarli.",
+
+  'presets.delete': 'Elimina preset',
+  'presets.saveCurrent': 'Salva stile attuale',
+  'presets.name': 'Nome del preset',
+
+  'brand.logoTooLarge': 'Il logo è troppo grande.',
+  'brand.notJson': 'Il file non è un JSON valido',
+  'brand.invalidProfile': 'Il file non è un profilo del brand valido',
+  'brand.title': 'Profilo brand',
+  'brand.name': 'Nome',
+  'brand.namePlaceholder': 'Es. Acme Marketing',
+  'brand.colors': 'Colori',
+  'brand.addColor': 'Aggiungi colore',
+  'brand.logo': 'Logo',
+  'brand.upload': 'Carica',
+  'brand.defaultLayout': 'Layout iniziale',
+  'brand.useCameraStyle': 'Usa lo stile camera attuale',
+  'brand.import': 'Importa',
+  'brand.export': 'Esporta',
+  'brand.turnOff': 'Disattiva',
+  'brand.apply': 'Applica',
+
+  'shortcuts.title': 'Scorciatoie da tastiera',
+  'shortcuts.pressKeys': 'Premi i tasti…',
+  'shortcuts.unbound': 'Nessuna',
+  'shortcuts.conflict': 'Due azioni usano la stessa combinazione.',
+  'shortcuts.hint': 'Clicca una scorciatoia e premi la nuova combinazione. Esc annulla, Backspace la rimuove.',
+  'shortcuts.resetToDefaults': 'Ripristina predefinite',
+  'shortcuts.unusable': '{combo} non è utilizzabile: aggiungi Ctrl, Alt o Shift, o usa un tasto funzione.',
+  'shortcuts.action.start': 'Avvia (con conto alla rovescia)',
+  'shortcuts.action.togglePause': 'Pausa / Riprendi',
+  'shortcuts.action.stop': 'Termina',
+  'shortcuts.action.toggleCamera': 'Mostra / nascondi camera',
+  'shortcuts.action.cycleShape': 'Cambia forma camera',
+  'shortcuts.action.addMarker': 'Aggiungi marcatore',
+  'shortcuts.action.annotate': 'Annotazioni',
+
+  'ai.title': 'Impostazioni AI',
+  'ai.serverUrl': 'URL del server',
+  'ai.apiKey': 'Chiave API',
+  'ai.optional': 'Facoltativa',
+  'ai.model': 'Modello',
+  'ai.transcriptionModel': 'Modello trascrizione',
+  'ai.keysNote': 'Le chiavi restano solo in questo browser e vengono inviate solo al provider scelto.',
+  'ai.provider.gemini': 'Google Gemini',
+  'ai.provider.geminiHint': 'Chiave da Google AI Studio.',
+  'ai.provider.openai': 'Compatibile OpenAI',
+  'ai.provider.openaiHint': "Qualsiasi endpoint compatibile con l'API OpenAI.",
+  'ai.provider.local': 'Server locale',
+  'ai.provider.localHint': 'Ollama, LM Studio o un server Whisper su questa macchina.',
+  'ai.provider.mock': 'Mock (offline)',
+  'ai.provider.mockHint': 'Risposte fisse, senza rete. Per sviluppo e test.',
+
+  'review.badFormat': "L'AI ha risposto in un formato inatteso. Riprova.",
+  'review.captions': 'Sottotitoli',
+  'review.applyEdits': 'Applica modifiche',
+  'review.undoEdit': 'Annulla modifica',
+  'review.aiSummary': 'Riepilogo AI',
+  'review.title': 'Titolo',
+  'review.description': 'Descrizione',
+  'review.lowConfidence': "L'AI non è sicura di questo riepilogo: controllalo.",
+  'review.chapters': 'Capitoli',
+  'review.copyTimestamps': 'Copia come timestamp',
+  'review.openSettings': 'Apri impostazioni',
+  'review.retry': 'Riprova',
+  'review.waiting': "In attesa della magia dell'AI...",
+  'review.loudness': 'Volume',
+  'review.download': 'Scarica Video',
+  'review.localNote': 'Il video viene elaborato localmente nel tuo browser.',
+  'review.exporting': 'Esportazione {progress}%',
+  'review.recordedOn': 'Registrato il {date}',
+  'review.converting': 'Conversione in {format}... {progress}%',
+  'review.originalFormat': 'Come la registrazione',
+  'review.loudnessTarget': '{preset} · {target} LUFS',
+
+  'transcript.title': 'Trascrizione',
+  'transcript.regenerate': 'Rigenera',
+  'transcript.transcribe': 'Trascrivi',
+  'transcript.noSpeech': 'Nessun parlato rilevato.',
+  'transcript.noAudio': 'La registrazione non ha audio',
+  'transcript.sampleSentence': 'Frase di esempio {index}.',
+
+  'markers.title': 'Marcatori',
+  'markers.copyHint': 'Copia come elenco di timestamp',
+  'markers.copy': 'Copia',
+  'markers.vttHint': 'Capitoli WebVTT',
+  'markers.jump': 'Vai al marcatore',
+
+  'trim.restoreHint': 'Clicca per ripristinare',
+  'trim.setIn': 'Inizio qui',
+  'trim.setOut': 'Fine qui',
+  'trim.deleteSelection': 'Elimina selezione',
+  'trim.reset': 'Azzera',
+  'trim.hint': 'Trascina sulla timeline per selezionare una parte da eliminare. Trascina le maniglie per inizio e fine.',
+
+  'clip.title': 'Clip GIF / WebP',
+  'clip.range': 'Intervallo',
+  'clip.startHere': 'Inizio qui',
+  'clip.endHere': 'Fine qui',
+  'clip.useTrim': 'Usa taglio',
+  'clip.width': 'Larghezza',
+  'clip.colors': 'Colori',
+  'clip.dither': 'Dithering (sfumature più morbide)',
+  'clip.estimating': 'Stima dimensione...',
+  'clip.longWarning': 'Le clip lunghe producono file molto grandi.',
+  'clip.creating': 'Creazione clip...',
+  'clip.estimate': { one: 'Dimensione stimata: ~{size} • {count} fotogramma', other: 'Dimensione stimata: ~{size} • {count} fotogrammi' },
+  'clip.export': 'Esporta {format}',
+
+  'library.title': 'Libreria',
+  'library.search': 'Cerca registrazioni...',
+  'library.empty': 'Nessuna registrazione salvata.',
+  'library.noMatches': 'Nessun risultato.',
+  'library.rename': 'Rinomina',
+  'library.storage': '{used} usati di {quota}',
+  'library.deleteConfirm': 'Eliminare "{title}"? L\'operazione non può essere annullata.',
+};
+
+export default it;
@@ -0,0 +1,22 @@
+// Typed failures from the AI layer, so the UI can tell "fix your settings" from "try again".
+
+export class AiConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiConfigurationError';
+  }
+}
+
+export class AiRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'AiRequestError';
+  }
+}
+
+export class AiResponseError extends Error {
+  constructor(message: string, readonly issues: string[], readonly raw: string) {
+    super(message);
+    this.name = 'AiResponseError';
+  }
+}
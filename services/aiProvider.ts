@@ -0,0 +1,49 @@
+import { AiProviderId, Language, TranscriptSegment } from '../types';
+import { loadAiSettings } from './aiSettings';
+import { JsonSchema } from '../utils/jsonSchema';
+import { createGeminiProvider } from './providers/gemini';
+import { createOpenAiCompatibleProvider } from './providers/openaiCompatible';
+import { createMockProvider } from './providers/mock';
+
+export type AiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }; // Base64, no data: prefix
+
+export interface AiGenerateRequest {
+  parts: AiPart[];
+  temperature?: number;
+  jsonSchema?: JsonSchema; // Ask for JSON matching this schema
+}
+
+/**
+ * What every AI backend has to offer. Prompts and parsing stay in the services; providers only move bytes.
+ */
+export interface AiProvider {
+  id: AiProviderId;
+  generate: (request: AiGenerateRequest) => Promise<string>;
+  transcribe: (audio: Blob, language: Language) => Promise<TranscriptSegment[]>;
+}
+
+/**
+ * Builds the provider picked in the settings. Settings are read on every call so changes apply immediately.
+ */
+export const getAiProvider = (): AiProvider => {
+  const settings = loadAiSettings();
+  const config = settings.providers[settings.provider];
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+    case 'local':
+      return createOpenAiCompatibleProvider(settings.provider, config);
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+export const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiProvider, getAiProvider } from './aiProvider';
+import { AiResponseError } from './aiErrors';
+import { createMockProvider } from './providers/mock';
+import { generateVideoMetadata } from './aiService';
+
+vi.mock('./aiProvider', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./aiProvider')>(),
+  getAiProvider: vi.fn(),
+}));
+
+const FRAMES = [{ time: 0, image: 'data:image/jpeg;base64,AAAA' }];
+
+const lastText = (provider: AiProvider, call: number) => {
+  const { parts } = vi.mocked(provider.generate).mock.calls[call][0];
+  const part = parts[parts.length - 1];
+  return 'text' in part ? part.text : '';
+};
+
+describe('generateVideoMetadata', () => {
+  let provider: AiProvider;
+
+  beforeEach(() => {
+    provider = createMockProvider();
+    vi.spyOn(provider, 'generate');
+    vi.mocked(getAiProvider).mockReturnValue(provider);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('accepts a valid answer on the first try', async () => {
+    const metadata = await generateVideoMetadata(FRAMES, 60, 'en');
+
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+    expect(metadata.title).toBe('Mock title');
+    expect(metadata.chapters[0].start).toBe(0);
+  });
+
+  it('reads JSON wrapped in a markdown fence', async () => {
+    vi.mocked(provider.generate).mockImplementationOnce(async request => '```json\n' + await createMockProvider().generate(request) + '\n```');
+
+    await generateVideoMetadata(FRAMES, 60, 'en');
+
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries once and tells the model what was wrong', async () => {
+    vi.mocked(provider.generate).mockResolvedValueOnce(JSON.stringify({ summary: 'Hi', tags: [], language: 'en', confidence: 5, chapters: [] }));
+
+    const metadata = await generateVideoMetadata(FRAMES, 60, 'en');
+
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+    expect(lastText(provider, 1)).toContain('$.title is missing');
+    expect(lastText(provider, 1)).toContain('$.confidence should be at most 1');
+    expect(metadata.title).toBe('Mock title');
+  });
+
+  it('retries when the answer is not JSON', async () => {
+    vi.mocked(provider.generate).mockResolvedValueOnce('Sure! Here is your summary.');
+
+    await generateVideoMetadata(FRAMES, 60, 'en');
+
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+    expect(lastText(provider, 1)).toContain('the answer is not valid JSON');
+  });
+
+  it('throws an AiResponseError when the retry fails too', async () => {
+    vi.mocked(provider.generate).mockResolvedValue(JSON.stringify({ title: '' }));
+
+    const error = await generateVideoMetadata(FRAMES, 60, 'en').catch(err => err);
+
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(AiResponseError);
+    expect(error.issues).toContain('$.title is too short');
+    expect(error.raw).toBe(JSON.stringify({ title: '' }));
+  });
+});
@@ -0,0 +1,140 @@
+import { Chapter, Language, TranscriptSegment, VideoMetadata } from "../types";
+import { AiGenerateRequest, getAiProvider } from "./aiProvider";
+import { AiResponseError } from "./aiErrors";
+import { JsonSchema, validateSchema } from "../utils/jsonSchema";
+import { getLanguageName } from "../utils/i18n";
+
+const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+// Chapters must start at 0:00, stay inside the video and not repeat a start time
+const normalizeChapters = (chapters: Chapter[], duration: number): Chapter[] => {
+  const sorted = chapters
+    .filter(chapter => Number.isFinite(chapter.start) && chapter.start < duration && chapter.title)
+    .sort((a, b) => a.start - b.start)
+    .filter((chapter, index, all) => index === 0 || Math.round(chapter.start) !== Math.round(all[index - 1].start));
+  if (sorted.length > 0) sorted[0] = { ...sorted[0], start: 0 };
+  return sorted;
+};
+
+const METADATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Catchy title, at most 8 words, plain text', minLength: 1, maxLength: 120 },
+    summary: { type: 'string', description: 'Two or three short paragraphs separated by blank lines', minLength: 1 },
+    tags: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 8 },
+    language: { type: 'string', description: 'ISO 639-1 code of the language spoken or shown', minLength: 2, maxLength: 5 },
+    confidence: { type: 'number', description: 'How sure you are the summary is accurate, 0 to 1', minimum: 0, maximum: 1 },
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'number', description: 'Seconds from the start of the video', minimum: 0 },
+          title: { type: 'string', minLength: 1 },
+        },
+        required: ['start', 'title'],
+      },
+    },
+  },
+  required: ['title', 'summary', 'tags', 'language', 'confidence', 'chapters'],
+};
+
+interface MetadataResponse {
+  title: string;
+  summary: string;
+  tags: string[];
+  language: string;
+  confidence: number;
+  chapters: Chapter[];
+}
+
+// Some models wrap JSON in a markdown fence even when asked not to
+const parseJson = (raw: string): unknown => JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+
+/**
+ * Runs a structured request and validates the answer against `schema`.
+ * A malformed answer gets one retry that tells the model what was wrong; a second failure throws.
+ */
+const generateStructured = async <T>(request: AiGenerateRequest, schema: JsonSchema): Promise<T> => {
+  const provider = getAiProvider();
+  let issues: string[] = [];
+  let raw = '';
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const parts = attempt === 0
+      ? request.parts
+      : [...request.parts, { text: `Your previous answer was rejected: ${issues.join('; ')}. Reply again with JSON that matches the schema exactly.` }];
+    raw = await provider.generate({ ...request, parts, jsonSchema: schema });
+
+    let parsed: unknown;
+    try {
+      parsed = parseJson(raw);
+    } catch {
+      issues = ['the answer is not valid JSON'];
+      continue;
+    }
+    issues = validateSchema(parsed, schema);
+    if (issues.length === 0) return parsed as T;
+  }
+
+  console.warn("AI response failed validation twice", issues, raw);
+  throw new AiResponseError("The AI returned an answer in an unexpected format", issues, raw);
+};
+
+// Titles come back with quotes or markdown emphasis now and then
+const cleanTitle = (title: string) => title.replace(/[*_#`"]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Generates a title, a multi-paragraph summary, tags and chapters from frames sampled across the recording.
+ * The transcript, when available, helps the model name chapters after what is being said.
+ * Throws the typed errors from aiErrors so callers can tell bad settings from a bad answer.
+ */
+export const generateVideoMetadata = async (
+  frames: { time: number; image: string }[],
+  duration: number,
+  language: Language,
+  transcript?: TranscriptSegment[]
+): Promise<VideoMetadata> => {
+  const langName = getLanguageName(language);
+
+  // Each frame is introduced by its timestamp so the model can place chapters
+  const frameParts = frames.flatMap(frame => [
+    { text: `Frame at ${formatTimestamp(frame.time)} (${Math.round(frame.time)}s):` },
+    {
+      inlineData: {
+        // Remove header if present (e.g., "data:image/jpeg;base64,")
+        mimeType: frame.image.match(/^data:([^;]+);/)?.[1] || 'image/jpeg',
+        data: frame.image.split(',')[1] || frame.image,
+      },
+    },
+  ]);
+
+  const transcriptText = transcript && transcript.length > 0
+    ? `\nTranscript of what is said:\n${transcript.map(segment => `[${formatTimestamp(segment.start)}] ${segment.text}`).join('\n')}\n`
+    : '';
+
+  const result = await generateStructured<MetadataResponse>({
+    parts: [
+      ...frameParts,
+      {
+        text: `These are frames sampled across a ${Math.round(duration)}-second screen recording, in order, each labelled with its timestamp.${transcriptText}
+        Describe the video as JSON: a professional, catchy title, a summary covering the whole video, up to 8 short topical tags,
+        the language of the recording, your confidence, and chapters marking where the topic or screen changes (the first starts at 0).
+        IMPORTANT: title, summary, tags and chapter titles MUST be in ${langName}. Plain text only, no markdown.`,
+      },
+    ],
+    temperature: 0.7,
+  }, METADATA_SCHEMA);
+
+  return {
+    title: cleanTitle(result.title),
+    description: result.summary.trim(),
+    tags: [...new Set(result.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))],
+    language: result.language.toLowerCase(),
+    confidence: result.confidence,
+    chapters: normalizeChapters(result.chapters.map(chapter => ({ start: chapter.start, title: cleanTitle(chapter.title) })), duration),
+  };
+};
@@ -0,0 +1,46 @@
+import { AiProviderConfig, AiProviderId, AiSettings } from '../types';
+
+const STORAGE_KEY = 'recordi.ai';
+
+export const AI_PROVIDER_IDS: AiProviderId[] = ['gemini', 'openai', 'local', 'mock'];
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<AiProviderId, AiProviderConfig> = {
+  gemini: { apiKey: '', baseUrl: '', model: 'gemini-2.5-flash', transcriptionModel: 'gemini-2.5-flash' },
+  openai: { apiKey: '', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', transcriptionModel: 'whisper-1' },
+  // Any OpenAI-compatible server on this machine, e.g. Ollama for vision and a Whisper server for speech
+  local: { apiKey: '', baseUrl: 'http://localhost:11434/v1', model: 'llava', transcriptionModel: 'whisper-1' },
+  mock: { apiKey: '', baseUrl: '', model: 'mock', transcriptionModel: 'mock' },
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  providers: DEFAULT_PROVIDER_CONFIGS,
+};
+
+/**
+ * Reads the AI settings from localStorage. Keys live only in this browser; nothing is baked into the build.
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      const providers = { ...DEFAULT_PROVIDER_CONFIGS };
+      for (const id of AI_PROVIDER_IDS) {
+        // Fill in fields added after the settings were saved
+        providers[id] = { ...DEFAULT_PROVIDER_CONFIGS[id], ...(parsed.providers?.[id] ?? {}) };
+      }
+      return {
+        provider: AI_PROVIDER_IDS.includes(parsed.provider) ? parsed.provider : DEFAULT_AI_SETTINGS.provider,
+        providers,
+      };
+    }
+  } catch (err) {
+    console.warn("Could not read AI settings", err);
+  }
+  return DEFAULT_AI_SETTINGS;
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
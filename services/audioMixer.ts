@@ -0,0 +1,95 @@
+import { AudioMix, AudioSource } from '../types';
+
+export const MAX_GAIN = 2;
+
+// Meters show -60 dBFS to 0 dBFS; anything quieter reads as silence
+const METER_FLOOR_DB = -60;
+
+// Short ramps avoid clicks when a slider moves or a channel is muted mid-sentence
+const GAIN_RAMP_SECONDS = 0.02;
+
+export interface AudioMixer {
+  /** Routes `node` into the channel for `source`, replacing whatever fed it before. */
+  connect: (source: AudioSource, node: AudioNode) => void;
+  disconnect: (source: AudioSource) => void;
+  /** Applies gain and mute to the live mix. */
+  apply: (mix: AudioMix) => void;
+  /** Level after the gain slider and before mute, from 0 (silence) to 1 (full scale). */
+  getLevel: (source: AudioSource) => number;
+}
+
+interface Channel {
+  input: AudioNode | null;
+  gain: GainNode;
+  mute: GainNode;
+  analyser: AnalyserNode;
+  samples: Float32Array;
+}
+
+/**
+ * One channel per source: input -> gain -> mute -> destination, with the meter tapped between
+ * gain and mute so a muted microphone still shows whether it is picking anything up.
+ */
+export const createAudioMixer = (context: AudioContext, destination: AudioNode, mix: AudioMix): AudioMixer => {
+  const createChannel = (): Channel => {
+    const gain = context.createGain();
+    const mute = context.createGain();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    gain.connect(mute);
+    gain.connect(analyser);
+    mute.connect(destination);
+    return { input: null, gain, mute, analyser, samples: new Float32Array(analyser.fftSize) };
+  };
+
+  const channels: Record<AudioSource, Channel> = {
+    microphone: createChannel(),
+    system: createChannel()
+  };
+
+  const setValue = (param: AudioParam, value: number, immediate: boolean) => {
+    if (immediate) param.value = value;
+    else param.setTargetAtTime(value, context.currentTime, GAIN_RAMP_SECONDS);
+  };
+
+  const applyMix = (next: AudioMix, immediate: boolean) => {
+    (Object.keys(channels) as AudioSource[]).forEach(source => {
+      const { gain, muted } = next[source];
+      setValue(channels[source].gain.gain, Math.max(0, Math.min(MAX_GAIN, gain)), immediate);
+      setValue(channels[source].mute.gain, muted ? 0 : 1, immediate);
+    });
+  };
+
+  const disconnect = (source: AudioSource) => {
+    const channel = channels[source];
+    channel.input?.disconnect(channel.gain);
+    channel.input = null;
+  };
+
+  const connect = (source: AudioSource, node: AudioNode) => {
+    disconnect(source);
+    node.connect(channels[source].gain);
+    channels[source].input = node;
+  };
+
+  const getLevel = (source: AudioSource) => {
+    const channel = channels[source];
+    if (!channel.input) return 0;
+    channel.analyser.getFloatTimeDomainData(channel.samples);
+    let sum = 0;
+    for (let i = 0; i < channel.samples.length; i++) sum += channel.samples[i] * channel.samples[i];
+    const rms = Math.sqrt(sum / channel.samples.length);
+    if (rms === 0) return 0;
+    const db = 20 * Math.log10(rms);
+    return Math.max(0, Math.min(1, 1 - db / METER_FLOOR_DB));
+  };
+
+  applyMix(mix, true);
+
+  return {
+    connect,
+    disconnect,
+    apply: (next) => applyMix(next, false),
+    getLevel
+  };
+};
@@ -0,0 +1,125 @@
+import { AudioPreset } from '../types';
+import { MessageKey } from '../locales/en';
+
+interface ChainSettings {
+  highPassHz: number; // Rumble, desk bumps and plosives below this are cut
+  gate: { threshold: number; attack: number; release: number; floor: number }; // dBFS / seconds / dB
+  compressor: { threshold: number; knee: number; ratio: number; attack: number; release: number };
+  makeupDb: number; // Restores the level the compressor took away
+  limiterDb: number; // Ceiling for the processed voice
+}
+
+export interface AudioPresetDefinition {
+  label: MessageKey;
+  chain: ChainSettings | null; // null leaves the microphone untouched
+  loudnessTarget: number | null; // Integrated LUFS the export is normalized to, null to keep the level
+}
+
+export const AUDIO_PRESET_IDS: AudioPreset[] = ['voice', 'podcast', 'raw'];
+
+export const AUDIO_PRESETS: Record<AudioPreset, AudioPresetDefinition> = {
+  // Light touch for screen recordings: clean up and even out, streaming platform loudness
+  voice: {
+    label: 'audio.preset.voice',
+    chain: {
+      highPassHz: 80,
+      gate: { threshold: -50, attack: 0.005, release: 0.2, floor: -30 },
+      compressor: { threshold: -24, knee: 10, ratio: 3, attack: 0.005, release: 0.2 },
+      makeupDb: 4,
+      limiterDb: -1.5
+    },
+    loudnessTarget: -14
+  },
+  // Denser, broadcast-style voice for long listening
+  podcast: {
+    label: 'audio.preset.podcast',
+    chain: {
+      highPassHz: 100,
+      gate: { threshold: -45, attack: 0.003, release: 0.15, floor: -45 },
+      compressor: { threshold: -28, knee: 6, ratio: 4, attack: 0.003, release: 0.15 },
+      makeupDb: 7,
+      limiterDb: -1
+    },
+    loudnessTarget: -16
+  },
+  raw: {
+    label: 'audio.preset.raw',
+    chain: null,
+    loudnessTarget: null
+  }
+};
+
+const NOISE_GATE_PROCESSOR = 'noise-gate';
+
+export interface VoiceChain {
+  input: AudioNode;
+  output: AudioNode;
+  /** Rewires the chain for another preset; safe to call while recording. */
+  setPreset: (preset: AudioPreset) => void;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Microphone processing: high-pass -> noise gate -> compressor -> makeup gain -> limiter.
+ * The gate is an AudioWorklet; if it cannot load the rest of the chain still runs without it.
+ */
+export const createVoiceChain = async (context: AudioContext, preset: AudioPreset): Promise<VoiceChain> => {
+  const input = context.createGain();
+  const output = context.createGain();
+
+  const highPass = context.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.Q.value = Math.SQRT1_2;
+
+  let gate: AudioWorkletNode | null = null;
+  try {
+    await context.audioWorklet.addModule(new URL('../workers/noiseGate.worklet.js', import.meta.url));
+    gate = new AudioWorkletNode(context, NOISE_GATE_PROCESSOR);
+  } catch (err) {
+    console.warn("Noise gate unavailable, processing without it", err);
+  }
+
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+  const limiter = context.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.001;
+  limiter.release.value = 0.05;
+
+  const processing: AudioNode[] = [highPass, ...(gate ? [gate] : []), compressor, makeup, limiter];
+  for (let i = 0; i < processing.length - 1; i++) processing[i].connect(processing[i + 1]);
+
+  const setPreset = (next: AudioPreset) => {
+    const { chain } = AUDIO_PRESETS[next];
+    input.disconnect();
+    limiter.disconnect();
+
+    if (!chain) {
+      input.connect(output);
+      return;
+    }
+
+    highPass.frequency.value = chain.highPassHz;
+    if (gate) {
+      gate.parameters.get('threshold')!.value = chain.gate.threshold;
+      gate.parameters.get('attack')!.value = chain.gate.attack;
+      gate.parameters.get('release')!.value = chain.gate.release;
+      gate.parameters.get('floor')!.value = chain.gate.floor;
+    }
+    compressor.threshold.value = chain.compressor.threshold;
+    compressor.knee.value = chain.compressor.knee;
+    compressor.ratio.value = chain.compressor.ratio;
+    compressor.attack.value = chain.compressor.attack;
+    compressor.release.value = chain.compressor.release;
+    makeup.gain.value = dbToGain(chain.makeupDb);
+    limiter.threshold.value = chain.limiterDb;
+
+    input.connect(highPass);
+    limiter.connect(output);
+  };
+
+  setPreset(preset);
+  return { input, output, setPreset };
+};
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrandProfile } from '../types';
+import { BrandProfileError, loadBrandProfile, parseBrandProfile, serializeBrandProfile } from './brandProfile';
+
+const PROFILE: BrandProfile = {
+  name: 'Acme',
+  colors: ['#112233', '#aabbcc'],
+  logo: 'data:image/png;base64,AAAA',
+  layout: {
+    sceneId: 'bubble',
+    camera: { shape: 'square', size: 0.3, position: { x: 0.1, y: 0.6 }, borderColor: '#112233', borderWidth: 4 },
+  },
+};
+
+const file = (changes: Record<string, unknown>) => JSON.stringify({ version: 1, ...PROFILE, ...changes });
+
+const rejection = (text: string) => {
+  try {
+    parseBrandProfile(text);
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected the profile to be rejected');
+};
+
+describe('parseBrandProfile', () => {
+  it('reads back an exported profile', () => {
+    expect(parseBrandProfile(serializeBrandProfile(PROFILE))).toEqual(PROFILE);
+  });
+
+  it('trims the name, lowercases colors and drops unknown fields', () => {
+    const profile = parseBrandProfile(file({ name: '  Acme  ', colors: ['#AABBCC'], extra: true }));
+
+    expect(profile.name).toBe('Acme');
+    expect(profile.colors).toEqual(['#aabbcc']);
+    expect(profile).not.toHaveProperty('extra');
+  });
+
+  it('accepts a null logo', () => {
+    expect(parseBrandProfile(file({ logo: null })).logo).toBeNull();
+  });
+
+  it('rejects text that is not JSON', () => {
+    const err = rejection('{ not json');
+
+    expect(err).toBeInstanceOf(BrandProfileError);
+    expect((err as BrandProfileError).key).toBe('brand.notJson');
+  });
+
+  it.each([
+    ['a list', '[]'],
+    ['a missing name', file({ name: undefined })],
+    ['a bad color', file({ colors: ['red'] })],
+    ['an unknown scene', file({ layout: { ...PROFILE.layout, sceneId: 'nope' } })],
+    ['a camera off screen', file({ layout: { ...PROFILE.layout, camera: { ...PROFILE.layout.camera, size: 2 } } })],
+    ['a newer version', file({ version: 99 })],
+    ['a logo that is not an image', file({ logo: 'https://example.com/logo.png' })],
+  ])('rejects %s and lists the problems', (_, text) => {
+    const err = rejection(text);
+
+    expect(err).toBeInstanceOf(BrandProfileError);
+    expect((err as BrandProfileError).key).toBe('brand.invalidProfile');
+    expect((err as BrandProfileError).issues.length).toBeGreaterThan(0);
+  });
+});
+
+describe('loadBrandProfile', () => {
+  const stored = new Map<string, string>();
+
+  beforeEach(() => {
+    stored.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+      removeItem: (key: string) => stored.delete(key),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('gives nothing when the stored profile is malformed', () => {
+    stored.set('recordi.brandProfile', file({ colors: [] }));
+
+    expect(loadBrandProfile()).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { BrandProfile, CameraStyle } from '../types';
+import { JsonSchema, validateSchema } from '../utils/jsonSchema';
+import { SCENES } from '../utils/scenes';
+import { TranslatableError } from '../utils/i18n';
+import { MessageKey } from '../locales/en';
+import { CAMERA_STYLE_SCHEMA, HEX_COLOR_PATTERN, getCameraStyle, DEFAULT_CAMERA_CONFIG } from './cameraSettings';
+
+const STORAGE_KEY = 'recordi.brandProfile';
+
+// Bump when the file layout changes in a way older builds cannot read
+const PROFILE_VERSION = 1;
+
+export const MAX_BRAND_COLORS = 8;
+
+// The logo lives in localStorage next to the rest of the profile, so it has to stay small
+export const MAX_LOGO_LENGTH = 400_000;
+
+// Swatches offered when no brand profile is active
+export const DEFAULT_BRAND_COLORS = [
+  '#6366f1', // Indigo
+  '#ec4899', // Pink
+  '#06b6d4', // Cyan
+  '#10b981', // Emerald
+  '#f59e0b', // Amber
+  '#ffffff', // White
+];
+
+export const BRAND_PROFILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer', minimum: 1, maximum: PROFILE_VERSION },
+    name: { type: 'string', minLength: 1, maxLength: 80 },
+    colors: { type: 'array', items: { type: 'string', pattern: HEX_COLOR_PATTERN }, minItems: 1, maxItems: MAX_BRAND_COLORS },
+    logo: { type: 'string', pattern: '^data:image/(png|jpeg|webp|gif|svg\\+xml)[;,]', maxLength: MAX_LOGO_LENGTH },
+    layout: {
+      type: 'object',
+      properties: {
+        sceneId: { type: 'string', enum: SCENES.map(scene => scene.id) },
+        camera: CAMERA_STYLE_SCHEMA,
+      },
+      required: ['sceneId', 'camera'],
+    },
+  },
+  required: ['version', 'name', 'colors', 'layout'],
+};
+
+export class BrandProfileError extends TranslatableError {
+  constructor(key: MessageKey, readonly issues: string[] = []) {
+    super(key);
+    this.name = 'BrandProfileError';
+  }
+}
+
+// A profile file as far as BRAND_PROFILE_SCHEMA has checked it
+interface BrandProfileFile {
+  name: string;
+  colors: string[];
+  logo?: string;
+  layout: { sceneId: string; camera: CameraStyle };
+}
+
+// Keeps only the known fields, so whatever else a hand-edited file carries is not stored
+const normalizeProfile = (value: BrandProfileFile): BrandProfile => ({
+  name: value.name.trim(),
+  colors: value.colors.map(color => color.toLowerCase()),
+  logo: value.logo ?? null,
+  layout: {
+    sceneId: value.layout.sceneId,
+    camera: getCameraStyle({ ...DEFAULT_CAMERA_CONFIG, ...value.layout.camera }),
+  },
+});
+
+/**
+ * Reads an exported profile file. Throws a BrandProfileError listing every problem found.
+ */
+export const parseBrandProfile = (text: string): BrandProfile => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new BrandProfileError('brand.notJson');
+  }
+  // "No logo" may be written as null, which the schema has no type for
+  if (value && typeof value === 'object' && (value as { logo?: unknown }).logo === null) delete (value as { logo?: unknown }).logo;
+  const issues = validateSchema(value, BRAND_PROFILE_SCHEMA);
+  if (issues.length > 0) throw new BrandProfileError('brand.invalidProfile', issues);
+  return normalizeProfile(value as BrandProfileFile);
+};
+
+export const serializeBrandProfile = (profile: BrandProfile): string =>
+  JSON.stringify({ version: PROFILE_VERSION, ...profile }, null, 2);
+
+export const loadBrandProfile = (): BrandProfile | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return parseBrandProfile(raw);
+  } catch (err) {
+    console.warn("Could not read brand profile", err);
+  }
+  return null;
+};
+
+/**
+ * Returns false when the profile could not be stored, e.g. a large logo over the storage quota.
+ */
+export const saveBrandProfile = (profile: BrandProfile | null): boolean => {
+  try {
+    if (profile) {
+      localStorage.setItem(STORAGE_KEY, serializeBrandProfile(profile));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    return true;
+  } catch (err) {
+    console.warn("Could not save brand profile", err);
+    return false;
+  }
+};
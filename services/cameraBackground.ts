@@ -0,0 +1,126 @@
+import { CameraBackground, CameraBackgroundMode } from '../types';
+import type { CameraBackgroundRequest, CameraBackgroundResponse } from '../workers/cameraBackground';
+
+// Segmentation and keying run on a downscaled frame; the bubble is rarely larger than this anyway
+const PROCESS_WIDTH = 640;
+
+// The build copies the runtime out of @mediapipe/tasks-vision; the model is checked in under public/
+export const SEGMENTATION_WASM_PATH = '/mediapipe/wasm';
+export const SEGMENTATION_MODEL_PATH = '/mediapipe/selfie_segmenter.tflite';
+const SEGMENTATION_RUNTIME = `${SEGMENTATION_WASM_PATH}/vision_wasm_module_internal.wasm`;
+
+export type SegmentationStatus = 'checking' | 'ready' | 'missing';
+
+let segmentationStatus: SegmentationStatus = 'checking';
+let segmentationCheck: Promise<SegmentationStatus> | null = null;
+
+/** Blur, color and image backgrounds need the segmentation model; green screen does not */
+export const needsSegmentation = (mode: CameraBackgroundMode) => mode === 'blur' || mode === 'color' || mode === 'image';
+
+// A dev server answers unknown paths with index.html, so an HTML response counts as missing
+const isServed = async (path: string) => {
+  try {
+    const response = await fetch(path, { method: 'HEAD' });
+    return response.ok && !response.headers.get('content-type')?.includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+/** Checks once per page load that the segmentation runtime and model can be fetched */
+export const checkSegmentationAssets = () => {
+  segmentationCheck ??= Promise.all([isServed(SEGMENTATION_RUNTIME), isServed(SEGMENTATION_MODEL_PATH)])
+    .then(results => {
+      segmentationStatus = results.every(Boolean) ? 'ready' : 'missing';
+      if (segmentationStatus === 'missing') {
+        console.warn(`Background removal unavailable: ${SEGMENTATION_MODEL_PATH} or ${SEGMENTATION_RUNTIME} is not served`);
+      }
+      return segmentationStatus;
+    });
+  return segmentationCheck;
+};
+
+export interface CameraBackgroundProcessor {
+  /**
+   * Queues the current camera frame and returns the latest processed one, or null when the raw
+   * camera should be drawn (no effect, nothing processed yet, or the effect failed).
+   * Never blocks the draw loop: the result trails the camera by a frame or two.
+   */
+  process: (video: HTMLVideoElement, background: CameraBackground) => ImageBitmap | null;
+  dispose: () => void;
+}
+
+export const createCameraBackgroundProcessor = (onError: (message: string) => void): CameraBackgroundProcessor => {
+  let worker: Worker | null = null;
+  let configured: CameraBackground | null = null;
+  let latest: ImageBitmap | null = null;
+  let busy = false;
+  let failed = false;
+
+  const dropLatest = () => {
+    latest?.close();
+    latest = null;
+  };
+
+  const post = (message: CameraBackgroundRequest, transfer: Transferable[] = []) => {
+    worker!.postMessage(message, transfer);
+  };
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('../workers/cameraBackground.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CameraBackgroundResponse>) => {
+      const message = event.data;
+      busy = false;
+      if (message.type === 'frame') {
+        dropLatest();
+        latest = message.frame;
+      } else {
+        // Keep recording with the plain camera rather than a frozen or broken one
+        failed = true;
+        dropLatest();
+        onError(message.message);
+      }
+    };
+    return worker;
+  };
+
+  const process = (video: HTMLVideoElement, background: CameraBackground) => {
+    if (background.mode === 'none' || failed) return null;
+    // A saved effect whose model isn't available falls back to the plain camera
+    if (needsSegmentation(background.mode)) {
+      checkSegmentationAssets();
+      if (segmentationStatus !== 'ready') return null;
+    }
+    if (video.readyState < 2 || !video.videoWidth) return latest;
+
+    getWorker();
+    if (background !== configured) {
+      // A frame of the previous effect is better than none, except when switching effect entirely
+      if (configured?.mode !== background.mode) dropLatest();
+      configured = background;
+      post({ type: 'configure', background });
+    }
+
+    if (!busy) {
+      busy = true;
+      const scale = Math.min(1, PROCESS_WIDTH / video.videoWidth);
+      createImageBitmap(video, {
+        resizeWidth: Math.round(video.videoWidth * scale),
+        resizeHeight: Math.round(video.videoHeight * scale),
+        resizeQuality: 'medium'
+      })
+        .then(frame => post({ type: 'frame', frame, timestamp: performance.now() }, [frame]))
+        .catch(() => { busy = false; });
+    }
+    return latest;
+  };
+
+  const dispose = () => {
+    worker?.terminate();
+    worker = null;
+    dropLatest();
+  };
+
+  return { process, dispose };
+};
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CAMERA_CONFIG, loadCameraConfig, loadCameraPresets } from './cameraSettings';
+
+const STYLE = { shape: 'rect', size: 0.3, position: { x: 0.5, y: 0.5 }, borderColor: '#112233', borderWidth: 4 };
+
+describe('camera settings', () => {
+  const stored = new Map<string, string>();
+  const store = (key: string, value: unknown) => stored.set(key, JSON.stringify(value));
+
+  beforeEach(() => {
+    stored.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+      removeItem: (key: string) => stored.delete(key),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the defaults when nothing is stored', () => {
+    expect(loadCameraConfig()).toEqual(DEFAULT_CAMERA_CONFIG);
+  });
+
+  it('restores a stored style and background', () => {
+    store('recordi.camera', { ...STYLE, background: { mode: 'color', color: '#ffffff', image: null } });
+    const config = loadCameraConfig();
+
+    expect(config).toMatchObject(STYLE);
+    expect(config.background).toEqual({ ...DEFAULT_CAMERA_CONFIG.background, mode: 'color', color: '#ffffff' });
+    expect(config.visible).toBe(true);
+  });
+
+  it.each([
+    ['a size out of range', { ...STYLE, size: 5 }],
+    ['an unknown shape', { ...STYLE, shape: 'star' }],
+    ['a list', [STYLE]],
+    ['a number', 42],
+  ])('falls back to the default style for %s', (_, value) => {
+    store('recordi.camera', value);
+
+    expect(loadCameraConfig()).toEqual(DEFAULT_CAMERA_CONFIG);
+  });
+
+  it('keeps a valid style when only the background is malformed', () => {
+    store('recordi.camera', { ...STYLE, background: { mode: 'sparkles' } });
+    const config = loadCameraConfig();
+
+    expect(config).toMatchObject(STYLE);
+    expect(config.background).toEqual(DEFAULT_CAMERA_CONFIG.background);
+  });
+
+  it('falls back to the defaults when the stored text is not JSON', () => {
+    stored.set('recordi.camera', '{');
+
+    expect(loadCameraConfig()).toEqual(DEFAULT_CAMERA_CONFIG);
+  });
+
+  it('drops malformed presets and keeps the rest', () => {
+    store('recordi.cameraPresets', [
+      { id: 'a', name: 'Interview', style: STYLE, extra: true },
+      { id: 'b', name: 'Broken', style: { ...STYLE, borderColor: 'red' } },
+      { id: 3, name: 'Bad id', style: STYLE },
+      null,
+    ]);
+
+    expect(loadCameraPresets()).toEqual([{ id: 'a', name: 'Interview', style: STYLE }]);
+  });
+});
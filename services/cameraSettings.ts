@@ -0,0 +1,155 @@
+import { CameraBackground, CameraConfig, CameraPreset, CameraShape, CameraStyle } from '../types';
+import { JsonSchema, validateSchema } from '../utils/jsonSchema';
+import { MessageKey } from '../locales/en';
+
+const STORAGE_KEY = 'recordi.camera';
+const PRESETS_STORAGE_KEY = 'recordi.cameraPresets';
+
+export const DEFAULT_CAMERA_CONFIG: CameraConfig = {
+  size: 0.2, // 20% of screen
+  borderColor: '#6366f1', // Indigo-500
+  borderWidth: 8,
+  shape: 'circle',
+  position: { x: 0.05, y: 0.7 }, // Bottom-left area
+  background: {
+    mode: 'none',
+    color: '#0f172a', // Slate-900
+    image: null,
+    keyColor: '#00ff00',
+    tolerance: 0.3,
+    spill: 0.5
+  },
+  visible: true
+};
+
+export const CAMERA_SHAPE_LABELS: Record<CameraShape, MessageKey> = {
+  circle: 'camera.shape.circle',
+  square: 'camera.shape.square',
+  rect: 'camera.shape.rect',
+};
+
+export const HEX_COLOR_PATTERN = '^#[0-9a-fA-F]{6}$';
+
+// Same bounds as the sliders, so nothing stored or imported can put the bubble where the UI cannot reach it
+export const CAMERA_STYLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    shape: { type: 'string', enum: ['circle', 'square', 'rect'] },
+    size: { type: 'number', minimum: 0.1, maximum: 0.5 },
+    position: {
+      type: 'object',
+      properties: {
+        x: { type: 'number', minimum: 0, maximum: 1 },
+        y: { type: 'number', minimum: 0, maximum: 1 },
+      },
+      required: ['x', 'y'],
+    },
+    borderColor: { type: 'string', pattern: HEX_COLOR_PATTERN },
+    borderWidth: { type: 'integer', minimum: 0, maximum: 20 },
+  },
+  required: ['shape', 'size', 'position', 'borderColor', 'borderWidth'],
+};
+
+// Fields added later may be missing from older saves, so only the mode is required
+const CAMERA_BACKGROUND_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['none', 'blur', 'color', 'image', 'chroma'] },
+    color: { type: 'string', pattern: HEX_COLOR_PATTERN },
+    image: { type: 'string', pattern: '^data:image/' },
+    keyColor: { type: 'string', pattern: HEX_COLOR_PATTERN },
+    tolerance: { type: 'number', minimum: 0, maximum: 1 },
+    spill: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['mode'],
+};
+
+// Keeps only the known fields and fills in the rest; anything malformed falls back to no effect
+const readCameraBackground = (value: unknown): CameraBackground => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_CAMERA_CONFIG.background;
+  // "No image" is stored as null, which the schema has no type for
+  const { image, ...rest } = value as Record<string, unknown>;
+  const candidate = image === null ? rest : { ...rest, image };
+  if (validateSchema(candidate, CAMERA_BACKGROUND_SCHEMA).length > 0) return DEFAULT_CAMERA_CONFIG.background;
+  const stored = candidate as Partial<CameraBackground> & Pick<CameraBackground, 'mode'>;
+  const { mode, color, keyColor, tolerance, spill } = { ...DEFAULT_CAMERA_CONFIG.background, ...stored };
+  return { mode, color, image: stored.image ?? null, keyColor, tolerance, spill };
+};
+
+const isCameraStyle = (value: unknown): value is CameraStyle =>
+  validateSchema(value, CAMERA_STYLE_SCHEMA).length === 0;
+
+const isCameraPreset = (value: unknown): value is CameraPreset => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, name, style } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof name === 'string' && isCameraStyle(style);
+};
+
+export const getCameraStyle = ({ shape, size, position, borderColor, borderWidth }: CameraConfig): CameraStyle => ({
+  shape,
+  size,
+  position: { ...position },
+  borderColor,
+  borderWidth,
+});
+
+export const applyCameraStyle = (config: CameraConfig, style: CameraStyle): CameraConfig => ({
+  ...config,
+  ...getCameraStyle({ ...config, ...style }),
+});
+
+/**
+ * Reads the camera settings used last time. The bubble always comes back visible.
+ */
+export const loadCameraConfig = (): CameraConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed: unknown = JSON.parse(raw);
+      const config = isCameraStyle(parsed) ? applyCameraStyle(DEFAULT_CAMERA_CONFIG, parsed) : DEFAULT_CAMERA_CONFIG;
+      const background = typeof parsed === 'object' && parsed !== null ? (parsed as { background?: unknown }).background : undefined;
+      return { ...config, background: readCameraBackground(background) };
+    }
+  } catch (err) {
+    console.warn("Could not read camera settings", err);
+  }
+  return DEFAULT_CAMERA_CONFIG;
+};
+
+/**
+ * Returns false when the settings could not all be stored; they still apply for this session.
+ */
+export const saveCameraConfig = (config: CameraConfig): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    return true;
+  } catch (err) {
+    console.warn("Could not store the camera background image", err);
+  }
+  // A backdrop photo can push past the storage quota; keep the rest of the settings
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...config, background: { ...config.background, image: null } }));
+  } catch (err) {
+    console.warn("Could not save camera settings", err);
+  }
+  return false;
+};
+
+export const loadCameraPresets = (): CameraPreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) {
+      return parsed
+        .filter(isCameraPreset)
+        .map(({ id, name, style }) => ({ id, name, style: getCameraStyle({ ...DEFAULT_CAMERA_CONFIG, ...style }) }));
+    }
+  } catch (err) {
+    console.warn("Could not read camera presets", err);
+  }
+  return [];
+};
+
+export const saveCameraPresets = (presets: CameraPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
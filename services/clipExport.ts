@@ -0,0 +1,114 @@
+import { ClipOptions } from '../types';
+import { waitForEvent, seekTo } from './videoExport';
+import type { ClipEncoderRequest, ClipEncoderResponse } from '../workers/clipEncoder';
+
+interface ClipExportHooks {
+  onProgress?: (progress: number) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
+// Output size for a clip of the given source dimensions; GIF dimensions need not be even
+export const getClipSize = (options: ClipOptions, videoWidth: number, videoHeight: number) => {
+  const width = Math.max(16, Math.min(options.width, videoWidth));
+  return { width, height: Math.max(16, Math.round((videoHeight / videoWidth) * width)) };
+};
+
+const getFrameTimes = (options: ClipOptions) => {
+  const count = Math.max(1, Math.round((options.range.end - options.range.start) * options.fps));
+  return Array.from({ length: count }, (_, i) => options.range.start + i / options.fps);
+};
+
+// Per-frame durations in ms, rounded cumulatively so long clips don't drift
+const getFrameDurations = (count: number, fps: number) =>
+  Array.from({ length: count }, (_, i) => Math.round(((i + 1) * 1000) / fps) - Math.round((i * 1000) / fps));
+
+/**
+ * Seeks through `times`, scales each frame to the clip size and streams it to the encoder worker.
+ */
+const encodeFrames = async (
+  source: Blob,
+  options: ClipOptions,
+  times: number[],
+  durations: number[],
+  { onProgress, signal }: ClipExportHooks
+): Promise<Blob> => {
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  const worker = new Worker(new URL('../workers/clipEncoder.ts', import.meta.url), { type: 'module' });
+  // Resolves with the next message the worker sends back
+  let pending: { resolve: (message: ClipEncoderResponse) => void; reject: (err: Error) => void } | null = null;
+  const nextMessage = () => new Promise<ClipEncoderResponse>((resolve, reject) => { pending = { resolve, reject }; });
+  worker.onmessage = (event: MessageEvent<ClipEncoderResponse>) => pending?.resolve(event.data);
+  worker.onerror = (event) => pending?.reject(new Error(event.message || "Clip encoder crashed"));
+  const send = (message: ClipEncoderRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const onAbort = () => pending?.reject(signal!.reason ?? new DOMException('Aborted', 'AbortError'));
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+    signal?.throwIfAborted();
+
+    const { width, height } = getClipSize(options, video.videoWidth, video.videoHeight);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not create a canvas for clip export");
+
+    send({ type: 'start', format: options.format, width, height, colors: options.colors, dither: options.dither });
+
+    for (let i = 0; i < times.length; i++) {
+      signal?.throwIfAborted();
+      await seekTo(video, times[i]);
+      ctx.drawImage(video, 0, 0, width, height);
+      const pixels = ctx.getImageData(0, 0, width, height).data.buffer;
+
+      const reply = nextMessage();
+      send({ type: 'frame', pixels, duration: durations[i] }, [pixels]);
+      const message = await reply;
+      if (message.type === 'error') throw new Error(message.message);
+
+      onProgress?.(Math.min(0.95, ((i + 1) / times.length) * 0.95));
+    }
+
+    const reply = nextMessage();
+    send({ type: 'finish' });
+    const message = await reply;
+    if (message.type === 'error') throw new Error(message.message);
+    if (message.type !== 'done') throw new Error("Clip encoder returned no output");
+
+    onProgress?.(1);
+    return message.blob;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Renders a range of a recording to an animated GIF or WebP, quantizing frames in a worker.
+ */
+export const exportClip = async (source: Blob, options: ClipOptions, hooks: ClipExportHooks = {}): Promise<Blob> => {
+  const times = getFrameTimes(options);
+  return encodeFrames(source, options, times, getFrameDurations(times.length, options.fps), hooks);
+};
+
+/**
+ * Predicts the output size by fully encoding one frame from the middle of the range.
+ * Every frame is stored whole (no inter-frame compression), so this scales linearly.
+ */
+export const estimateClipSize = async (source: Blob, options: ClipOptions, signal?: AbortSignal): Promise<number> => {
+  const times = getFrameTimes(options);
+  const sample = await encodeFrames(source, options, [times[Math.floor(times.length / 2)]], [100], { signal });
+  // Strip the file header/trailer overhead so it is only counted once
+  const overhead = options.format === 'gif' ? 33 : 44;
+  return overhead + Math.max(0, sample.size - overhead) * times.length;
+};
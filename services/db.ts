@@ -0,0 +1,69 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Each store is created in the upgrade step matching the version that introduced it.
+
+const DB_NAME = 'recordi';
+const DB_VERSION = 2;
+
+export const STORES = {
+  recordings: 'recordings',
+  sessions: 'sessions',
+  sessionChunks: 'sessionChunks',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const recordings = db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+        recordings.createIndex('createdAt', 'createdAt');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+        const chunks = db.createObjectStore(STORES.sessionChunks, { autoIncrement: true });
+        chunks.createIndex('sessionId', 'sessionId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Runs `action` against a single store and resolves once the transaction has committed.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    let result: T;
+    if (request) request.onsuccess = () => { result = request.result; };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,100 @@
+import { waitForEvent, seekTo } from './videoExport';
+
+// Scene detection runs on tiny greyscale probes; only the picked frames are grabbed at full size
+const PROBE_WIDTH = 64;
+const PROBE_HEIGHT = 36;
+const MAX_PROBES = 120;
+const FRAME_WIDTH = 640;
+const FRAME_QUALITY = 0.7;
+
+export interface SampledFrame {
+  time: number; // Seconds
+  image: string; // JPEG data URI
+}
+
+const readLuma = (ctx: CanvasRenderingContext2D) => {
+  const { data } = ctx.getImageData(0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+  const luma = new Float32Array(PROBE_WIDTH * PROBE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return luma;
+};
+
+const meanDifference = (a: Float32Array, b: Float32Array) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+/**
+ * Picks `count` representative frames across a recording.
+ * The timeline is split into equal buckets and each bucket contributes its biggest scene change,
+ * so the whole video is covered but cuts between screens are preferred over arbitrary moments.
+ */
+export const sampleFrames = async (source: Blob, count: number, duration?: number): Promise<SampledFrame[]> => {
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+    const length = duration ?? (Number.isFinite(video.duration) ? video.duration : NaN);
+    if (!(length > 0)) throw new Error("Recording duration is unknown");
+
+    // 1. Probe the timeline and score how much each probe differs from the one before
+    const probeCanvas = document.createElement('canvas');
+    probeCanvas.width = PROBE_WIDTH;
+    probeCanvas.height = PROBE_HEIGHT;
+    const probeCtx = probeCanvas.getContext('2d', { willReadFrequently: true });
+    if (!probeCtx) throw new Error("Could not create a canvas for frame sampling");
+
+    const probeCount = Math.max(count, Math.min(MAX_PROBES, Math.ceil(length)));
+    const probes: { time: number; change: number }[] = [];
+    let previous: Float32Array | null = null;
+    for (let i = 0; i < probeCount; i++) {
+      const time = ((i + 0.5) / probeCount) * length;
+      await seekTo(video, time);
+      probeCtx.drawImage(video, 0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+      const luma = readLuma(probeCtx);
+      // The very first frame always opens a scene
+      probes.push({ time, change: previous ? meanDifference(previous, luma) : Infinity });
+      previous = luma;
+    }
+
+    // 2. Best scene change per bucket
+    const bucketCount = Math.min(count, probes.length);
+    const picked: number[] = [];
+    for (let bucket = 0; bucket < bucketCount; bucket++) {
+      const from = Math.floor((bucket / bucketCount) * probes.length);
+      const to = Math.floor(((bucket + 1) / bucketCount) * probes.length);
+      let best = probes[from];
+      for (let i = from + 1; i < to; i++) {
+        if (probes[i].change > best.change) best = probes[i];
+      }
+      picked.push(best.time);
+    }
+
+    // 3. Grab the picked frames at a size the model can read
+    const scale = Math.min(1, FRAME_WIDTH / video.videoWidth);
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = Math.round(video.videoWidth * scale);
+    frameCanvas.height = Math.round(video.videoHeight * scale);
+    const frameCtx = frameCanvas.getContext('2d');
+    if (!frameCtx) throw new Error("Could not create a canvas for frame sampling");
+
+    const frames: SampledFrame[] = [];
+    for (const time of picked) {
+      await seekTo(video, time);
+      frameCtx.drawImage(video, 0, 0, frameCanvas.width, frameCanvas.height);
+      frames.push({ time, image: frameCanvas.toDataURL('image/jpeg', FRAME_QUALITY) });
+    }
+    return frames;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,86 @@
+import type { FrameClockRequest, FrameClockResponse } from '../workers/frameClock';
+
+export interface FrameStats {
+  fps: number; // Frames rendered over the last second
+  rendered: number;
+  dropped: number; // Frame slots since the start that produced no frame
+}
+
+export interface FrameScheduler {
+  getStats: () => FrameStats;
+  /** Starts counting afresh, e.g. once the countdown is over and recording begins. */
+  resetStats: () => void;
+  stop: () => void;
+}
+
+// Ticks that reach a busy page late arrive in a clump; render at most one frame per clump
+const MIN_FRAME_SPACING = 0.5; // Of the frame interval
+
+/**
+ * Calls `render` at a steady `fps`, in the foreground and in background tabs alike.
+ * The clock runs in a worker; if no worker can be started it falls back to a page timer,
+ * which keeps going in the background too, only throttled.
+ */
+export const createFrameScheduler = (fps: number, render: () => void): FrameScheduler => {
+  const interval = 1000 / fps;
+  let startedAt = performance.now();
+  let lastRenderAt = -Infinity;
+  let rendered = 0;
+  let windowStart = startedAt;
+  let windowFrames = 0;
+  let currentFps = 0;
+  let stopped = false;
+
+  const onTick = () => {
+    if (stopped) return;
+    const now = performance.now();
+    if (now - lastRenderAt < interval * MIN_FRAME_SPACING) return;
+    lastRenderAt = now;
+
+    render();
+    rendered++;
+    windowFrames++;
+
+    if (now - windowStart >= 1000) {
+      currentFps = (windowFrames * 1000) / (now - windowStart);
+      windowStart = now;
+      windowFrames = 0;
+    }
+  };
+
+  let worker: Worker | null = null;
+  let fallbackTimer: number | null = null;
+  try {
+    worker = new Worker(new URL('../workers/frameClock.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<FrameClockResponse>) => {
+      if (event.data.type === 'tick') onTick();
+    };
+    worker.postMessage({ type: 'start', fps } satisfies FrameClockRequest);
+  } catch (err) {
+    console.warn("Frame clock worker unavailable, falling back to a page timer", err);
+    fallbackTimer = window.setInterval(onTick, interval);
+  }
+
+  const getStats = (): FrameStats => {
+    const expected = Math.floor((performance.now() - startedAt) / interval);
+    return { fps: currentFps, rendered, dropped: Math.max(0, expected - rendered) };
+  };
+
+  const resetStats = () => {
+    startedAt = performance.now();
+    rendered = 0;
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (worker) {
+      worker.postMessage({ type: 'stop' } satisfies FrameClockRequest);
+      worker.terminate();
+      worker = null;
+    }
+    if (fallbackTimer !== null) clearInterval(fallbackTimer);
+    fallbackTimer = null;
+  };
+
+  return { getStats, resetStats, stop };
+};
@@ -0,0 +1,21 @@
+import { Language } from '../types';
+import { detectLanguage, isLanguage } from '../utils/i18n';
+
+const STORAGE_KEY = 'recordi.language';
+
+/**
+ * The language picked last time, or the browser's if none was picked yet.
+ */
+export const loadLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(saved)) return saved;
+  } catch (err) {
+    console.warn("Could not read language setting", err);
+  }
+  return detectLanguage();
+};
+
+export const saveLanguage = (language: Language) => {
+  localStorage.setItem(STORAGE_KEY, language);
+};
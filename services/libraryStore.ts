@@ -0,0 +1,34 @@
+import { LibraryEntry } from '../types';
+import { STORES, withStore } from './db';
+
+export const saveRecording = (entry: LibraryEntry) =>
+  withStore<IDBValidKey>(STORES.recordings, 'readwrite', store => store.put(entry));
+
+export const getRecording = (id: string) =>
+  withStore<LibraryEntry | undefined>(STORES.recordings, 'readonly', store => store.get(id));
+
+/**
+ * All saved recordings, newest first.
+ */
+export const listRecordings = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore<LibraryEntry[]>(STORES.recordings, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const updateRecording = async (id: string, patch: Partial<Omit<LibraryEntry, 'id'>>) => {
+  const existing = await getRecording(id);
+  if (!existing) return;
+  await saveRecording({ ...existing, ...patch });
+};
+
+export const deleteRecording = (id: string) =>
+  withStore<undefined>(STORES.recordings, 'readwrite', store => store.delete(id));
+
+/**
+ * How much of the origin's storage quota is in use. Null where the API is unavailable.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
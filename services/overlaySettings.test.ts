@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadOverlays } from './overlaySettings';
+
+describe('loadOverlays', () => {
+  const stored = new Map<string, string>();
+  const store = (value: unknown) => stored.set('recordi.overlays', JSON.stringify(value));
+
+  beforeEach(() => {
+    stored.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+      removeItem: (key: string) => stored.delete(key),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('fills in fields missing from older saves', () => {
+    store([{ id: 'a', kind: 'lowerThird', title: 'Ada' }]);
+
+    expect(loadOverlays()).toEqual([expect.objectContaining({ id: 'a', kind: 'lowerThird', title: 'Ada', subtitle: '', duration: 8 })]);
+  });
+
+  it('drops entries that cannot be drawn', () => {
+    store([
+      { id: 'a', kind: 'text', text: 'Hello' },
+      { id: 'b', kind: 'watermark' },
+      { id: 'c', kind: 'watermark', image: 'data:image/png;base64,AAAA', aspect: 0 },
+      { id: 'd', kind: 'sticker' },
+      { kind: 'text' },
+      'text',
+      null,
+    ]);
+
+    expect(loadOverlays().map(overlay => overlay.id)).toEqual(['a']);
+  });
+
+  it('gives nothing when the stored value is not a list', () => {
+    store({ id: 'a', kind: 'text' });
+
+    expect(loadOverlays()).toEqual([]);
+  });
+
+  it('gives nothing when the stored text is not JSON', () => {
+    stored.set('recordi.overlays', '[');
+
+    expect(loadOverlays()).toEqual([]);
+  });
+});
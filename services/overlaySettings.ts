@@ -0,0 +1,93 @@
+import { BrandingOverlay, BrandingOverlayKind, LowerThirdOverlay, TextOverlay, WatermarkOverlay } from '../types';
+
+const STORAGE_KEY = 'recordi.overlays';
+
+// Watermarks are stored with the rest of the overlays, so they are shrunk before being kept
+export const MAX_WATERMARK_SIZE = 512;
+
+export const createWatermark = (image: string, aspect: number): WatermarkOverlay => ({
+  id: crypto.randomUUID(),
+  kind: 'watermark',
+  visible: true,
+  image,
+  aspect,
+  // Top-right corner, clear of the default camera bubble
+  position: { x: 0.86, y: 0.04 },
+  size: 0.1,
+  opacity: 0.8,
+});
+
+export const createLowerThird = (accentColor: string): LowerThirdOverlay => ({
+  id: crypto.randomUUID(),
+  kind: 'lowerThird',
+  visible: false,
+  position: { x: 0.05, y: 0.78 },
+  title: '',
+  subtitle: '',
+  accentColor,
+  duration: 8,
+});
+
+export const createTextOverlay = (color: string): TextOverlay => ({
+  id: crypto.randomUUID(),
+  kind: 'text',
+  visible: true,
+  position: { x: 0.05, y: 0.05 },
+  text: '',
+  color,
+  size: 0.05,
+  background: true,
+});
+
+const KINDS: BrandingOverlayKind[] = ['watermark', 'lowerThird', 'text'];
+
+// A stored overlay as far as isUsable has checked it
+type StoredOverlay =
+  | (Partial<WatermarkOverlay> & Pick<WatermarkOverlay, 'id' | 'kind' | 'image' | 'aspect'>)
+  | (Partial<LowerThirdOverlay> & Pick<LowerThirdOverlay, 'id' | 'kind'>)
+  | (Partial<TextOverlay> & Pick<TextOverlay, 'id' | 'kind'>);
+
+// Only what each kind needs to be drawn; every other field falls back to the defaults above
+const isUsable = (entry: unknown): entry is StoredOverlay => {
+  if (typeof entry !== 'object' || entry === null) return false;
+  const { id, kind, image, aspect } = entry as Record<string, unknown>;
+  return typeof id === 'string'
+    && KINDS.includes(kind as BrandingOverlayKind)
+    && (kind !== 'watermark' || (typeof image === 'string' && typeof aspect === 'number' && aspect > 0));
+};
+
+const withDefaults = (entry: StoredOverlay): BrandingOverlay => {
+  switch (entry.kind) {
+    case 'watermark':
+      return { ...createWatermark(entry.image, entry.aspect), ...entry };
+    case 'lowerThird':
+      return { ...createLowerThird('#6366f1'), ...entry };
+    case 'text':
+      return { ...createTextOverlay('#ffffff'), ...entry };
+  }
+};
+
+/**
+ * Reads the overlays set up in earlier sessions, so a presenter's name card and logo carry over.
+ */
+export const loadOverlays = (): BrandingOverlay[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) return parsed.filter(isUsable).map(withDefaults);
+  } catch (err) {
+    console.warn("Could not read overlay settings", err);
+  }
+  return [];
+};
+
+export const saveOverlays = (overlays: BrandingOverlay[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overlays));
+    return true;
+  } catch (err) {
+    // Large watermarks can exceed the storage quota; the overlays still work for this session
+    console.warn("Could not save overlay settings", err);
+    return false;
+  }
+};
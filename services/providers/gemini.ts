@@ -0,0 +1,90 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { AiProviderConfig, TranscriptSegment } from '../../types';
+import { AiProvider, blobToBase64 } from '../aiProvider';
+import { AiConfigurationError, AiRequestError, AiResponseError } from '../aiErrors';
+import { JsonSchema, validateSchema } from '../../utils/jsonSchema';
+import { getLanguageName } from '../../utils/i18n';
+
+// One client per key, created on first use rather than at import time
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (apiKey: string) => {
+  if (!apiKey) throw new AiConfigurationError("Add a Gemini API key in the AI settings");
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
+};
+
+const TRANSCRIPT_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      start: { type: 'number' },
+      end: { type: 'number' },
+      text: { type: 'string' },
+    },
+    required: ['start', 'end', 'text'],
+  },
+};
+
+// SDK failures carry an HTTP status when there was a response at all
+const call = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (err: any) {
+    if (err instanceof AiConfigurationError) throw err;
+    throw new AiRequestError(err?.message || "Gemini request failed", typeof err?.status === 'number' ? err.status : undefined);
+  }
+};
+
+export const createGeminiProvider = (config: AiProviderConfig): AiProvider => {
+  const provider: AiProvider = {
+    id: 'gemini',
+
+    generate: async ({ parts, temperature, jsonSchema }) => {
+      const response = await call(() => getClient(config.apiKey).models.generateContent({
+        model: config.model,
+        contents: { parts },
+        config: jsonSchema
+          ? { responseMimeType: 'application/json', responseJsonSchema: jsonSchema, temperature }
+          : { responseModalities: [Modality.TEXT], temperature },
+      }));
+      return response.text || '';
+    },
+
+    // Gemini takes audio inline, so transcription is just another prompt
+    transcribe: async (audio, language) => {
+      const langName = getLanguageName(language);
+      const response = await call(async () => getClient(config.apiKey).models.generateContent({
+        model: config.transcriptionModel,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'audio/wav', data: await blobToBase64(audio) } },
+            {
+              text: `Transcribe the speech in this screen recording's audio verbatim, in the language it is spoken (most likely ${langName}).
+              Split it into short caption segments of one sentence or at most about 7 seconds each.
+              Give start and end times in seconds from the beginning of the audio. Return an empty list if nobody speaks.`,
+            },
+          ],
+        },
+        config: { responseMimeType: 'application/json', responseJsonSchema: TRANSCRIPT_SCHEMA, temperature: 0 },
+      }));
+
+      const raw = response.text || '[]';
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        throw new AiResponseError("Transcription was not valid JSON", ['$ is not JSON'], raw);
+      }
+      const issues = validateSchema(parsed, TRANSCRIPT_SCHEMA);
+      if (issues.length > 0) throw new AiResponseError("Transcription did not match the expected format", issues, raw);
+      return parsed as TranscriptSegment[];
+    },
+  };
+  return provider;
+};
@@ -0,0 +1,29 @@
+import { AiProvider } from '../aiProvider';
+import { sampleFromSchema } from '../../utils/jsonSchema';
+import { translate } from '../../utils/i18n';
+
+// 16-bit mono WAV: 2 bytes per sample after the 44-byte header
+const wavDuration = (audio: Blob, sampleRate = 16000) => Math.max(0, (audio.size - 44) / 2 / sampleRate);
+
+/**
+ * Deterministic offline stand-in: no network, same answer every time.
+ */
+export const createMockProvider = (): AiProvider => ({
+  id: 'mock',
+
+  // Structured requests get the smallest valid answer for their schema
+  generate: async ({ jsonSchema }) => jsonSchema ? JSON.stringify(sampleFromSchema(jsonSchema)) : 'Mock response',
+
+  transcribe: async (audio, language) => {
+    const seconds = wavDuration(audio);
+    const segments = [];
+    for (let start = 0, index = 1; start < seconds; start += 4, index++) {
+      segments.push({
+        start,
+        end: Math.min(seconds, start + 4),
+        text: translate(language, 'transcript.sampleSentence', { index }),
+      });
+    }
+    return segments;
+  },
+});
@@ -0,0 +1,72 @@
+import { AiProviderConfig, AiProviderId, TranscriptSegment } from '../../types';
+import { AiProvider } from '../aiProvider';
+import { AiConfigurationError, AiRequestError } from '../aiErrors';
+
+// Works against OpenAI itself and anything speaking its API (Ollama, LM Studio, vLLM, Whisper servers...)
+export const createOpenAiCompatibleProvider = (id: AiProviderId, config: AiProviderConfig): AiProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit) => {
+    if (!baseUrl) throw new AiConfigurationError("Set the server URL in the AI settings");
+    // Local servers usually run without a key
+    if (id === 'openai' && !config.apiKey) throw new AiConfigurationError("Add an OpenAI API key in the AI settings");
+
+    const headers = new Headers(init.headers);
+    if (config.apiKey) headers.set('Authorization', `Bearer ${config.apiKey}`);
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+    } catch (err: any) {
+      // Network errors and CORS rejections look the same from here
+      throw new AiRequestError(`Could not reach ${baseUrl}: ${err?.message || err}`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new AiRequestError(`AI request failed (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`, response.status);
+    }
+    return response.json();
+  };
+
+  return {
+    id,
+
+    generate: async ({ parts, temperature, jsonSchema }) => {
+      const content = parts.map(part => 'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+
+      const body = await request('/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content }],
+          temperature,
+          ...(jsonSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } } } : {}),
+        }),
+      });
+      return body.choices?.[0]?.message?.content || '';
+    },
+
+    transcribe: async (audio, language) => {
+      const form = new FormData();
+      form.append('file', audio, 'audio.wav');
+      form.append('model', config.transcriptionModel);
+      form.append('language', language);
+      // verbose_json is what carries per-segment timestamps
+      form.append('response_format', 'verbose_json');
+
+      const body = await request('/audio/transcriptions', { method: 'POST', body: form });
+      const segments: TranscriptSegment[] = (body.segments ?? []).map((segment: any) => ({
+        start: Number(segment.start),
+        end: Number(segment.end),
+        text: String(segment.text ?? ''),
+      }));
+      // Servers that ignore verbose_json still return the plain text
+      if (segments.length === 0 && body.text && typeof body.duration === 'number') {
+        return [{ start: 0, end: body.duration, text: body.text }];
+      }
+      return segments;
+    },
+  };
+};
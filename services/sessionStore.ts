@@ -0,0 +1,83 @@
+import { SessionManifest } from '../types';
+import { STORES, openDatabase, requestToPromise, withStore } from './db';
+
+// Recording sessions are written to IndexedDB chunk by chunk while recording,
+// so a crash or reload loses at most the last second. A finished recording
+// moves to the library and its session is discarded.
+
+interface StoredChunk {
+  sessionId: string;
+  index: number;
+  blob: Blob;
+}
+
+export const createSession = (manifest: SessionManifest) =>
+  withStore<IDBValidKey>(STORES.sessions, 'readwrite', store => store.put(manifest));
+
+/**
+ * Stores one MediaRecorder chunk and bumps the manifest in the same transaction,
+ * so the manifest never claims chunks that are not on disk.
+ */
+export const appendChunk = async (sessionId: string, index: number, blob: Blob, duration: number) => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.sessions, STORES.sessionChunks], 'readwrite');
+  const sessions = tx.objectStore(STORES.sessions);
+
+  const chunk: StoredChunk = { sessionId, index, blob };
+  tx.objectStore(STORES.sessionChunks).add(chunk);
+
+  const manifest = await requestToPromise<SessionManifest | undefined>(sessions.get(sessionId));
+  if (manifest) {
+    sessions.put({ ...manifest, chunkCount: index + 1, duration });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const discardSession = async (sessionId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.sessions, STORES.sessionChunks], 'readwrite');
+  tx.objectStore(STORES.sessions).delete(sessionId);
+
+  const cursorRequest = tx.objectStore(STORES.sessionChunks).index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      tx.objectStore(STORES.sessionChunks).delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Sessions left behind by a crash or reload. Sessions that never got a chunk are cleaned up.
+ */
+export const listUnfinishedSessions = async (): Promise<SessionManifest[]> => {
+  const sessions = await withStore<SessionManifest[]>(STORES.sessions, 'readonly', store => store.getAll());
+  const empty = sessions.filter(session => session.chunkCount === 0);
+  await Promise.all(empty.map(session => discardSession(session.id)));
+  return sessions
+    .filter(session => session.chunkCount > 0)
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * Reassembles a session's chunks, in recording order, into a single blob.
+ */
+export const loadSessionBlob = async (session: SessionManifest): Promise<Blob> => {
+  const chunks = await withStore<StoredChunk[]>(STORES.sessionChunks, 'readonly', store =>
+    store.index('sessionId').getAll(IDBKeyRange.only(session.id))
+  );
+  chunks.sort((a, b) => a.index - b.index);
+  return new Blob(chunks.map(chunk => chunk.blob), { type: session.mimeType });
+};
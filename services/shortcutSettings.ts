@@ -0,0 +1,39 @@
+import { ShortcutAction, ShortcutBindings } from '../types';
+import { findConflicts } from '../utils/shortcuts';
+
+const STORAGE_KEY = 'recordi.shortcuts';
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = ['start', 'togglePause', 'stop', 'toggleCamera', 'cycleShape', 'addMarker', 'annotate'];
+
+// Alt+Shift keeps clear of the shortcuts of the apps being recorded
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  start: 'Alt+Shift+R',
+  togglePause: 'Alt+Shift+P',
+  stop: 'Alt+Shift+S',
+  toggleCamera: 'Alt+Shift+C',
+  cycleShape: 'Alt+Shift+H',
+  addMarker: 'Alt+Shift+M',
+  annotate: 'Alt+Shift+A',
+};
+
+export const loadShortcuts = (): ShortcutBindings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      const bindings = { ...DEFAULT_SHORTCUTS };
+      for (const action of SHORTCUT_ACTIONS) {
+        if (typeof parsed[action] === 'string') bindings[action] = parsed[action];
+      }
+      // A hand-edited or outdated entry must not leave two actions on one key
+      if (findConflicts(bindings).length === 0) return bindings;
+    }
+  } catch (err) {
+    console.warn("Could not read shortcut settings", err);
+  }
+  return DEFAULT_SHORTCUTS;
+};
+
+export const saveShortcuts = (bindings: ShortcutBindings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
@@ -0,0 +1,92 @@
+import { Language, TranscriptSegment } from '../types';
+import { decodeAudioTrack } from './videoExport';
+import { getAiProvider } from './aiProvider';
+import { encodeWav } from '../utils/wav';
+import { translate } from '../utils/i18n';
+
+// Speech models work at 16 kHz; it also keeps the upload around 2 MB per minute
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+// About 9.6 MB of WAV per request: under Whisper's 25 MB upload and Gemini's 20 MB inline limit after base64
+const WINDOW_SECONDS = 5 * 60;
+// Each window ends at the quietest moment in its last few seconds, so words are not cut in half
+const SPLIT_SEARCH_SECONDS = 10;
+const SPLIT_STEP_SECONDS = 0.05;
+
+interface AudioWindow {
+  start: number; // Samples
+  end: number;
+}
+
+// Models occasionally return overlapping, unordered or out-of-range times
+const normalizeSegments = (segments: TranscriptSegment[], duration: number): TranscriptSegment[] =>
+  segments
+    .filter(segment => Number.isFinite(segment.start) && Number.isFinite(segment.end) && typeof segment.text === 'string' && segment.text.trim())
+    .map(segment => ({
+      start: Math.max(0, Math.min(duration, segment.start)),
+      end: Math.max(0, Math.min(duration, segment.end)),
+      text: segment.text.trim()
+    }))
+    .sort((a, b) => a.start - b.start)
+    .map((segment, index, all) => {
+      const next = all[index + 1];
+      const end = next ? Math.min(segment.end, next.start) : segment.end;
+      return { ...segment, end: Math.max(end, segment.start + 0.1) };
+    });
+
+// Mean energy of all channels over [start, end)
+const energy = (channels: Float32Array[], start: number, end: number) => {
+  let sum = 0;
+  for (const channel of channels) {
+    for (let i = start; i < end; i++) sum += channel[i] * channel[i];
+  }
+  return sum / Math.max(1, end - start);
+};
+
+const splitIntoWindows = (audio: AudioBuffer): AudioWindow[] => {
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c));
+  const windowLength = WINDOW_SECONDS * audio.sampleRate;
+  const searchLength = SPLIT_SEARCH_SECONDS * audio.sampleRate;
+  const step = Math.round(SPLIT_STEP_SECONDS * audio.sampleRate);
+  const windows: AudioWindow[] = [];
+
+  let start = 0;
+  while (audio.length - start > windowLength) {
+    let split = start + windowLength;
+    let quietest = Infinity;
+    for (let candidate = start + windowLength - searchLength; candidate + step <= start + windowLength; candidate += step) {
+      const level = energy(channels, candidate, candidate + step);
+      if (level < quietest) {
+        quietest = level;
+        split = candidate + Math.round(step / 2);
+      }
+    }
+    windows.push({ start, end: split });
+    start = split;
+  }
+  windows.push({ start, end: audio.length });
+  return windows;
+};
+
+/**
+ * Pulls the audio out of a recording and transcribes it with the provider picked in the AI settings.
+ * Long recordings go up a few minutes at a time and the segments are stitched back together.
+ */
+export const transcribeRecording = async (source: Blob, language: Language): Promise<TranscriptSegment[]> => {
+  const audio = await decodeAudioTrack(source, TRANSCRIPTION_SAMPLE_RATE);
+  if (!audio) throw new Error(translate(language, 'transcript.noAudio'));
+
+  const provider = getAiProvider();
+  const segments: TranscriptSegment[] = [];
+  for (const window of splitIntoWindows(audio)) {
+    const offset = window.start / audio.sampleRate;
+    const duration = (window.end - window.start) / audio.sampleRate;
+    const part = await provider.transcribe(encodeWav(audio, window.start, window.end), language);
+    // Times come back relative to the window
+    segments.push(...normalizeSegments(part, duration).map(segment => ({
+      ...segment,
+      start: segment.start + offset,
+      end: segment.end + offset,
+    })));
+  }
+  return normalizeSegments(segments, audio.duration);
+};
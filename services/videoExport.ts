@@ -0,0 +1,566 @@
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { EditDecision, ExportFormat, TimeRange } from '../types';
+import { createLoudnessMeter, getNormalizationGain } from '../utils/loudness';
+import { TranslatableError } from '../utils/i18n';
+import { createWebmSlicer } from '../utils/webm';
+
+const EXPORT_FPS = 30;
+const KEYFRAME_INTERVAL = EXPORT_FPS * 2; // One keyframe every 2 seconds keeps seeking snappy
+const VIDEO_BITRATE = 3000000;
+const AUDIO_BITRATE = 128000;
+const AUDIO_SAMPLE_RATE = 48000; // Opus only accepts a few rates; 48k is the native one
+const AUDIO_CHUNK_FRAMES = 4800; // 100ms per AudioData
+const AUDIO_DECODE_SECONDS = 60; // WebM audio is decoded a minute at a time, so memory stays flat
+const MAX_ENCODE_QUEUE = 8;
+
+export interface RenderResult {
+  blob: Blob;
+  thumbnail: string;
+  duration: number;
+}
+
+interface RenderOptions {
+  source: Blob;
+  segments: TimeRange[];
+  format?: ExportFormat; // Defaults to WebM
+  onProgress?: (progress: number) => void; // 0 to 1
+  signal?: AbortSignal;
+  loudnessTarget?: number | null; // Integrated LUFS to normalize the kept audio to
+}
+
+interface AudioTrack {
+  sampleRate: number;
+  numberOfChannels: number;
+  // Decoded audio of [start, end) of the source, silent where the file has none
+  read: (range: TimeRange) => Promise<AudioBuffer>;
+}
+
+interface CodecCandidate {
+  codec: string; // WebCodecs codec string
+  muxerCodec: string; // What the container muxer calls it
+}
+
+// Preferred codecs per container, best first. H.264 levels cover 1080p (4.0), 4K (5.1), then baseline.
+const FORMATS: Record<ExportFormat, { mimeType: string; video: CodecCandidate[]; audio: CodecCandidate[] }> = {
+  webm: {
+    mimeType: 'video/webm',
+    video: [
+      { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+      { codec: 'vp8', muxerCodec: 'V_VP8' },
+    ],
+    audio: [
+      { codec: 'opus', muxerCodec: 'A_OPUS' },
+    ],
+  },
+  mp4: {
+    mimeType: 'video/mp4',
+    video: [
+      { codec: 'avc1.640028', muxerCodec: 'avc' },
+      { codec: 'avc1.640033', muxerCodec: 'avc' },
+      { codec: 'avc1.42001f', muxerCodec: 'avc' },
+    ],
+    audio: [
+      { codec: 'mp4a.40.2', muxerCodec: 'aac' },
+      // Not every platform ships an AAC encoder; Opus in MP4 still plays in modern players
+      { codec: 'opus', muxerCodec: 'opus' },
+    ],
+  },
+};
+
+interface ContainerWriter {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => ArrayBuffer;
+}
+
+const createWriter = (
+  format: ExportFormat,
+  video: { codec: string; width: number; height: number },
+  audio: { codec: string; numberOfChannels: number; sampleRate: number } | null
+): ContainerWriter => {
+  if (format === 'mp4') {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: video.codec as 'avc', width: video.width, height: video.height, frameRate: EXPORT_FPS },
+      audio: audio ? { codec: audio.codec as 'aac' | 'opus', numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate } : undefined,
+      // moov up front so players (and Slack/iOS previews) can start before the whole file arrives
+      fastStart: 'in-memory',
+      firstTimestampBehavior: 'offset'
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return muxer.target.buffer;
+      }
+    };
+  }
+
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    video: { codec: video.codec, width: video.width, height: video.height, frameRate: EXPORT_FPS },
+    audio: audio ? { codec: audio.codec, numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate } : undefined,
+    firstTimestampBehavior: 'offset'
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return muxer.target.buffer;
+    }
+  };
+};
+
+/**
+ * Turns in/out points and cuts into the ordered list of ranges that survive the edit.
+ */
+export const getKeptSegments = (edit: EditDecision): TimeRange[] => {
+  const cuts = [...edit.cuts].sort((a, b) => a.start - b.start);
+  const segments: TimeRange[] = [];
+  let cursor = edit.inPoint;
+
+  for (const cut of cuts) {
+    if (cut.end <= cursor) continue;
+    if (cut.start >= edit.outPoint) break;
+    if (cut.start > cursor) segments.push({ start: cursor, end: cut.start });
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (cursor < edit.outPoint) segments.push({ start: cursor, end: edit.outPoint });
+
+  // Anything shorter than a frame would encode to nothing
+  return segments.filter(segment => segment.end - segment.start >= 1 / EXPORT_FPS);
+};
+
+export const getSegmentsDuration = (segments: TimeRange[]) =>
+  segments.reduce((total, segment) => total + (segment.end - segment.start), 0);
+
+/**
+ * Where a moment of the source ends up once only `segments` are kept, or null if it was cut.
+ */
+export const mapTimeToSegments = (segments: TimeRange[], time: number): number | null => {
+  let offset = 0;
+  for (const segment of segments) {
+    if (time >= segment.start && time <= segment.end) return offset + (time - segment.start);
+    offset += segment.end - segment.start;
+  }
+  return null;
+};
+
+export const waitForEvent = (target: EventTarget, event: string) => new Promise<void>((resolve, reject) => {
+  const onEvent = () => {
+    target.removeEventListener('error', onError);
+    resolve();
+  };
+  const onError = () => {
+    target.removeEventListener(event, onEvent);
+    reject(new Error(`Media failed while waiting for "${event}"`));
+  };
+  target.addEventListener(event, onEvent, { once: true });
+  target.addEventListener('error', onError, { once: true });
+});
+
+export const seekTo = async (video: HTMLVideoElement, time: number) => {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
+
+// Keeps memory flat: don't queue more frames than the encoder can chew through
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+  }
+};
+
+const decodeAudio = async (source: Blob, sampleRate: number) => {
+  // decodeAudioData resamples to the context rate, which is exactly what the encoder needs
+  const context = new OfflineAudioContext({ numberOfChannels: 2, length: 1, sampleRate });
+  return context.decodeAudioData(await source.arrayBuffer());
+};
+
+/**
+ * Decodes the audio track of a recording. Returns null for recordings without audio.
+ */
+export const decodeAudioTrack = async (source: Blob, sampleRate = AUDIO_SAMPLE_RATE): Promise<AudioBuffer | null> => {
+  try {
+    return await decodeAudio(source, sampleRate);
+  } catch (err) {
+    console.warn("No decodable audio track, exporting video only", err);
+    return null;
+  }
+};
+
+// Copies `decoded` (which starts at `decodedStart` seconds) into a buffer for exactly [range.start, range.end)
+const cropAudio = (decoded: AudioBuffer | null, decodedStart: number, range: TimeRange, numberOfChannels: number, sampleRate: number) => {
+  const from = Math.floor(range.start * sampleRate);
+  const length = Math.max(1, Math.floor(range.end * sampleRate) - from);
+  const buffer = new AudioBuffer({ length, numberOfChannels, sampleRate });
+  if (!decoded) return buffer;
+
+  const offset = from - Math.round(decodedStart * sampleRate);
+  const skip = Math.max(0, -offset);
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const samples = decoded.getChannelData(Math.min(channel, decoded.numberOfChannels - 1));
+    buffer.copyToChannel(samples.subarray(Math.max(0, offset), Math.max(0, offset + length)), channel, skip);
+  }
+  return buffer;
+};
+
+/**
+ * Opens the audio track of a recording for reading range by range. WebM recordings are cut
+ * into pieces and decoded one at a time; other containers are decoded whole once.
+ * Returns null for recordings without audio.
+ */
+const openAudioTrack = async (source: Blob, sampleRate = AUDIO_SAMPLE_RATE): Promise<AudioTrack | null> => {
+  const slicer = await createWebmSlicer(source).catch(() => null);
+
+  if (!slicer) {
+    const audio = await decodeAudioTrack(source, sampleRate);
+    if (!audio) return null;
+    return {
+      sampleRate,
+      numberOfChannels: audio.numberOfChannels,
+      read: async (range) => cropAudio(audio, 0, range, audio.numberOfChannels, sampleRate)
+    };
+  }
+  if (!slicer.hasAudio) return null;
+
+  // The first piece tells whether the track decodes at all, and how many channels it has
+  const first = slicer.slice(0, 1);
+  let numberOfChannels: number;
+  try {
+    numberOfChannels = first ? (await decodeAudio(first.blob, sampleRate)).numberOfChannels : 1;
+  } catch (err) {
+    console.warn("No decodable audio track, exporting video only", err);
+    return null;
+  }
+
+  return {
+    sampleRate,
+    numberOfChannels,
+    read: async (range) => {
+      const piece = slicer.slice(range.start, range.end);
+      const decoded = piece ? await decodeAudio(piece.blob, sampleRate) : null;
+      return cropAudio(decoded, piece?.start ?? 0, range, numberOfChannels, sampleRate);
+    }
+  };
+};
+
+// Splits a range into pieces short enough to decode on their own
+const splitForDecoding = (range: TimeRange): TimeRange[] => {
+  const pieces: TimeRange[] = [];
+  for (let start = range.start; start < range.end; start += AUDIO_DECODE_SECONDS) {
+    pieces.push({ start, end: Math.min(range.end, start + AUDIO_DECODE_SECONDS) });
+  }
+  return pieces;
+};
+
+const channelsOf = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+/**
+ * Plays `video` through [start, end), calling `onFrame` with the media time of the frame it starts
+ * on and of every frame it presents after that. The next frame is only waited for once `onFrame` settles.
+ */
+const playRange = async (video: HTMLVideoElement, range: TimeRange, onFrame: (mediaTime: number) => Promise<void>, signal?: AbortSignal) => {
+  await seekTo(video, range.start);
+  await onFrame(video.currentTime);
+
+  await new Promise<void>((resolve, reject) => {
+    let done = false;
+    const finish = (err?: unknown) => {
+      if (done) return;
+      done = true;
+      video.pause();
+      video.removeEventListener('ended', onEnded);
+      signal?.removeEventListener('abort', onAbort);
+      if (err === undefined) resolve();
+      else reject(err);
+    };
+    const onEnded = () => finish();
+    const onAbort = () => finish(signal!.reason);
+
+    const onVideoFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      if (done) return;
+      if (metadata.mediaTime >= range.end) return finish();
+      onFrame(metadata.mediaTime).then(() => {
+        if (done) return;
+        video.requestVideoFrameCallback(onVideoFrame);
+        // onFrame pauses playback while the encoder catches up
+        if (video.paused) video.play().catch(finish);
+      }, finish);
+    };
+
+    video.addEventListener('ended', onEnded);
+    signal?.addEventListener('abort', onAbort);
+    video.requestVideoFrameCallback(onVideoFrame);
+    video.play().catch(finish);
+  });
+};
+
+const pickVideoCodec = async (format: ExportFormat, width: number, height: number) => {
+  for (const candidate of FORMATS[format].video) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec: candidate.codec, width, height, bitrate: VIDEO_BITRATE, framerate: EXPORT_FPS
+    });
+    if (supported) return candidate;
+  }
+  throw new TranslatableError('error.noVideoEncoder', { format: format.toUpperCase() });
+};
+
+const pickAudioCodec = async (format: ExportFormat, audio: AudioTrack) => {
+  for (const candidate of FORMATS[format].audio) {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: candidate.codec, sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels, bitrate: AUDIO_BITRATE
+    });
+    if (supported) return candidate;
+  }
+  throw new TranslatableError('error.noAudioEncoder', { format: format.toUpperCase() });
+};
+
+/**
+ * Re-encodes the given ranges of a recording back to back into a new WebM or MP4, entirely in the browser.
+ * Frames come from playing a hidden <video> through each range; audio is decoded piece by piece.
+ */
+export const renderSegments = async ({ source, segments, format = 'webm', onProgress, signal, loudnessTarget = null }: RenderOptions): Promise<RenderResult> => {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+    throw new TranslatableError('error.noWebCodecs');
+  }
+  if (segments.length === 0) throw new TranslatableError('error.nothingToExport');
+
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  let videoEncoder: VideoEncoder | null = null;
+  let audioEncoder: AudioEncoder | null = null;
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+    signal?.throwIfAborted();
+
+    // 4:2:0 encoders need even dimensions
+    const width = video.videoWidth & ~1;
+    const height = video.videoHeight & ~1;
+
+    const audio = await openAudioTrack(source);
+    const videoCodec = await pickVideoCodec(format, width, height);
+    const audioCodec = audio ? await pickAudioCodec(format, audio) : null;
+    signal?.throwIfAborted();
+
+    const muxer = createWriter(
+      format,
+      { codec: videoCodec.muxerCodec, width, height },
+      audio && audioCodec ? { codec: audioCodec.muxerCodec, numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate } : null
+    );
+
+    let encodeError: Error | null = null;
+    const onEncodeError = (err: Error) => { encodeError = err; };
+
+    const encoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: onEncodeError
+    });
+    videoEncoder = encoder;
+    encoder.configure({ codec: videoCodec.codec, width, height, bitrate: VIDEO_BITRATE, framerate: EXPORT_FPS });
+
+    // 1. Video: play through every kept range and put what is on screen onto a fixed frame grid
+    const frameDuration = 1 / EXPORT_FPS;
+    const totalFrames = Math.max(1, Math.round(getSegmentsDuration(segments) * EXPORT_FPS));
+    let frameIndex = 0;
+
+    for (const segment of segments) {
+      const segmentFrames = Math.max(1, Math.round((segment.end - segment.start) * EXPORT_FPS));
+      let written = 0;
+      let shown: VideoFrame | null = null;
+
+      // Every grid slot before `time` gets the frame that was on screen at that moment
+      const fillUntil = async (time: number) => {
+        while (shown && written < segmentFrames && segment.start + written * frameDuration < time) {
+          signal?.throwIfAborted();
+          if (encodeError) throw encodeError;
+
+          const frame = new VideoFrame(shown, {
+            timestamp: Math.round(frameIndex * frameDuration * 1e6),
+            duration: Math.round(frameDuration * 1e6)
+          });
+          encoder.encode(frame, { keyFrame: frameIndex % KEYFRAME_INTERVAL === 0 });
+          frame.close();
+          frameIndex++;
+          written++;
+
+          onProgress?.(Math.min(0.95, (frameIndex / totalFrames) * 0.95));
+          if (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+            video.pause();
+            await waitForQueue(encoder);
+          }
+        }
+      };
+
+      try {
+        await playRange(video, segment, async (mediaTime) => {
+          // Grab the frame before waiting on the encoder, while it is still the one on screen
+          const next = new VideoFrame(video);
+          try {
+            await fillUntil(mediaTime);
+          } finally {
+            shown?.close();
+            shown = next;
+          }
+        }, signal);
+        await fillUntil(Infinity);
+      } finally {
+        shown?.close();
+      }
+    }
+
+    // The playhead now sits on the last exported frame: use it as the thumbnail, like the recorder does
+    const snapshot = document.createElement('canvas');
+    snapshot.width = width;
+    snapshot.height = height;
+    snapshot.getContext('2d')?.drawImage(video, 0, 0, width, height);
+    const thumbnail = snapshot.toDataURL('image/png');
+
+    // 2. Audio: the same ranges, decoded a piece at a time
+    if (audio && audioCodec) {
+      audioEncoder = new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: onEncodeError
+      });
+      audioEncoder.configure({
+        codec: audioCodec.codec,
+        sampleRate: audio.sampleRate,
+        numberOfChannels: audio.numberOfChannels,
+        bitrate: AUDIO_BITRATE
+      });
+
+      // Measured on what is kept, so a loud intro that was cut does not skew the result
+      let gain = 1;
+      if (loudnessTarget !== null) {
+        const meter = createLoudnessMeter(audio.sampleRate);
+        for (const segment of segments) {
+          meter.startRange();
+          for (const piece of splitForDecoding(segment)) {
+            signal?.throwIfAborted();
+            meter.push(channelsOf(await audio.read(piece)));
+          }
+        }
+        gain = getNormalizationGain(meter.result(), loudnessTarget);
+      }
+
+      let writtenFrames = 0;
+      for (const piece of segments.flatMap(splitForDecoding)) {
+        signal?.throwIfAborted();
+        const channels = channelsOf(await audio.read(piece));
+        const length = channels[0].length;
+
+        for (let offset = 0; offset < length; offset += AUDIO_CHUNK_FRAMES) {
+          signal?.throwIfAborted();
+          if (encodeError) throw encodeError;
+
+          const frames = Math.min(AUDIO_CHUNK_FRAMES, length - offset);
+          // f32-planar: all of channel 0, then all of channel 1, ...
+          const planar = new Float32Array(frames * channels.length);
+          channels.forEach((samples, channel) => planar.set(samples.subarray(offset, offset + frames), channel * frames));
+          if (gain !== 1) {
+            for (let i = 0; i < planar.length; i++) planar[i] *= gain;
+          }
+
+          const data = new AudioData({
+            format: 'f32-planar',
+            sampleRate: audio.sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: channels.length,
+            timestamp: Math.round((writtenFrames / audio.sampleRate) * 1e6),
+            data: planar
+          });
+          audioEncoder.encode(data);
+          data.close();
+          writtenFrames += frames;
+
+          await waitForQueue(audioEncoder);
+        }
+      }
+    }
+
+    // 3. Flush and mux
+    await encoder.flush();
+    if (audioEncoder) await audioEncoder.flush();
+    if (encodeError) throw encodeError;
+    const buffer = muxer.finalize();
+    onProgress?.(1);
+
+    return {
+      blob: new Blob([buffer], { type: FORMATS[format].mimeType }),
+      thumbnail,
+      duration: frameIndex * frameDuration
+    };
+  } finally {
+    if (videoEncoder && videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Grabs a PNG data URI of the frame at `time` (clamped to the media), e.g. to rebuild a lost thumbnail.
+ */
+export const captureThumbnail = async (source: Blob, time: number): Promise<string | undefined> => {
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+    if (time > 0) await seekTo(video, time);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    return canvas.toDataURL('image/png');
+  } catch (err) {
+    console.warn("Could not capture thumbnail", err);
+    return undefined;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Reads the length of a recording in seconds. MediaRecorder WebM reports an Infinite
+ * duration until the player has seen the end, so seek far past it to make it look.
+ */
+export const probeDuration = async (source: Blob): Promise<number> => {
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'metadata';
+  video.src = url;
+
+  let duration = NaN;
+  try {
+    await waitForEvent(video, 'loadedmetadata');
+    if (!Number.isFinite(video.duration)) await seekTo(video, Number.MAX_SAFE_INTEGER);
+    duration = video.duration;
+  } catch (err) {
+    console.warn("Could not probe duration", err);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+  if (!Number.isFinite(duration) || duration <= 0) throw new TranslatableError('error.unknownDuration');
+  return duration;
+};
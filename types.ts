@@ -3,11 +3,23 @@ export enum AppState {
   IDLE = 'IDLE',
   RECORDING = 'RECORDING',
   REVIEW = 'REVIEW',
+  LIBRARY = 'LIBRARY',
 }
 
 export type CameraShape = 'circle' | 'square' | 'rect';
 
-export type Language = 'it' | 'en';
+export type Language = 'en' | 'it' | 'de' | 'fr' | 'es';
+
+export type CameraBackgroundMode = 'none' | 'blur' | 'color' | 'image' | 'chroma';
+
+export interface CameraBackground {
+  mode: CameraBackgroundMode;
+  color: string; // Fill behind the presenter in 'color' mode
+  image: string | null; // Data URI shown behind the presenter in 'image' mode
+  keyColor: string; // Green-screen color removed in 'chroma' mode
+  tolerance: number; // 0.0 to 1.0, how far from the key color still counts as screen
+  spill: number; // 0.0 to 1.0, how much key-colored fringe is neutralized on the presenter
+}
 
 export interface CameraConfig {
   size: number; // 0.1 to 0.5 (percentage of canvas min dimension)
@@ -15,16 +27,231 @@ export interface CameraConfig {
   borderWidth: number;
   shape: CameraShape;
   position: { x: number; y: number }; // 0.0 to 1.0 (percentage of canvas width/height)
+  background: CameraBackground;
+  visible: boolean; // The bubble can be hidden mid-recording without dropping the camera
+}
+
+// The look of the bubble that presets and brand profiles carry; background and visibility stay per session
+export type CameraStyle = Pick<CameraConfig, 'shape' | 'size' | 'position' | 'borderColor' | 'borderWidth'>;
+
+export interface CameraPreset {
+  id: string;
+  name: string;
+  style: CameraStyle;
+}
+
+// Shared across a team as a JSON file, so everyone records with the same styling
+export interface BrandProfile {
+  name: string;
+  colors: string[]; // Hex swatches offered for the border and annotations
+  logo: string | null; // Data URI
+  layout: {
+    sceneId: string; // Scene each recording starts in
+    camera: CameraStyle;
+  };
+}
+
+export interface CaptureRegion {
+  x: number; // 0.0 to 1.0 (percentage of the shared screen width/height)
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type VideoCodec = 'vp9' | 'vp8' | 'av1' | 'h264';
+
+export type QualityPresetId = 'draft' | 'standard' | 'crisp' | 'smooth' | 'custom';
+
+export interface RecordingQuality {
+  preset: QualityPresetId; // 'custom' once any value is changed by hand
+  width: number; // Largest recorded frame; smaller regions are recorded at their own size
+  height: number;
+  frameRate: number;
+  codec: VideoCodec; // Preferred; falls back to what the browser can record
+  videoBitrate: number; // Bits per second
 }
 
 export interface RecorderConfig {
   showCamera: boolean;
   showScreen: boolean;
   audioEnabled: boolean;
+  captureRegion: CaptureRegion; // Part of the shared screen that becomes the recorded frame
+  audioPreset: AudioPreset; // Processing applied to the microphone
+  quality: RecordingQuality;
+}
+
+export interface ScreenViewport {
+  zoom: number; // 1 = the whole capture region
+  center: { x: number; y: number }; // 0.0 to 1.0 within the capture region
+}
+
+// Microphone processing: 'raw' leaves the signal as the browser delivers it
+export type AudioPreset = 'voice' | 'podcast' | 'raw';
+
+export type AudioSource = 'microphone' | 'system';
+
+export interface AudioChannel {
+  gain: number; // 1 = unchanged, up to 2
+  muted: boolean;
+}
+
+export type AudioMix = Record<AudioSource, AudioChannel>;
+
+export type ShortcutAction = 'start' | 'togglePause' | 'stop' | 'toggleCamera' | 'cycleShape' | 'addMarker' | 'annotate';
+
+// Key combos like "Alt+Shift+R": modifiers in a fixed order, then the key
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export type AnnotationTool = 'pen' | 'arrow' | 'rect' | 'highlighter' | 'spotlight';
+
+export interface Annotation {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  points: { x: number; y: number }[]; // 0.0 to 1.0, same space as CameraConfig.position
+  createdAt: number; // performance.now() ms; highlighter strokes fade from here
+}
+
+interface OverlayBase {
+  id: string;
+  visible: boolean; // Toggled live; hidden elements keep their settings
+  position: { x: number; y: number }; // Top-left corner, 0.0 to 1.0, same space as CameraConfig.position
+}
+
+export interface WatermarkOverlay extends OverlayBase {
+  kind: 'watermark';
+  image: string; // Data URI
+  aspect: number; // Width / height of the image, so the layout is known before it decodes
+  size: number; // Width as a fraction of the frame width
+  opacity: number; // 0.0 to 1.0
+}
+
+export interface LowerThirdOverlay extends OverlayBase {
+  kind: 'lowerThird';
+  title: string; // Presenter name
+  subtitle: string; // Role or company
+  accentColor: string;
+  duration: number; // Seconds on screen after showing; 0 keeps it until hidden
 }
 
+export interface TextOverlay extends OverlayBase {
+  kind: 'text';
+  text: string; // May span several lines
+  color: string;
+  size: number; // Font size as a fraction of the frame height
+  background: boolean; // Dark plate behind the text, for legibility over busy screens
+}
+
+// Branding drawn on top of everything else in the recorded frame
+export type BrandingOverlay = WatermarkOverlay | LowerThirdOverlay | TextOverlay;
+
+export type BrandingOverlayKind = BrandingOverlay['kind'];
+
 export interface RecordingData {
   blob: Blob;
   url: string;
   thumbnail?: string; // Base64 data URI
+  duration?: number; // Seconds of recorded media (pauses excluded)
+  id?: string; // Library entry this recording is saved as
+  createdAt?: number; // Epoch ms
+  title?: string; // Already known metadata (e.g. reopened from the library)
+  description?: string;
+  transcript?: TranscriptSegment[];
+  chapters?: Chapter[];
+  tags?: string[];
+  markers?: Marker[];
+}
+
+export interface LibraryEntry {
+  id: string;
+  blob: Blob;
+  thumbnail?: string;
+  title: string; // Empty until the AI summary or a rename fills it in
+  description: string;
+  duration?: number;
+  createdAt: number; // Epoch ms
+  transcript?: TranscriptSegment[];
+  chapters?: Chapter[];
+  tags?: string[];
+  markers?: Marker[];
+}
+
+export interface TimeRange {
+  start: number; // Seconds
+  end: number;
+}
+
+export interface TranscriptSegment {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+export interface Marker {
+  id: string;
+  time: number; // Seconds of recorded media (pauses excluded)
+  label: string;
+}
+
+export interface Chapter {
+  start: number; // Seconds
+  title: string;
+}
+
+export interface VideoMetadata {
+  title: string;
+  description: string; // May span several paragraphs
+  chapters: Chapter[];
+  tags: string[];
+  language: string; // Language the recording is in, as reported by the model (ISO 639-1)
+  confidence: number; // 0 to 1, the model's own estimate
+}
+
+export type AiProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface AiProviderConfig {
+  apiKey: string;
+  baseUrl: string; // Unused by Gemini and the mock
+  model: string; // Vision/text model for summaries
+  transcriptionModel: string;
+}
+
+export interface AiSettings {
+  provider: AiProviderId;
+  // Kept per provider so switching back and forth doesn't lose keys
+  providers: Record<AiProviderId, AiProviderConfig>;
+}
+
+export type ExportFormat = 'webm' | 'mp4';
+
+export type ClipFormat = 'gif' | 'webp';
+
+export interface ClipOptions {
+  format: ClipFormat;
+  range: TimeRange;
+  fps: number;
+  width: number; // Output width in px; height follows the aspect ratio
+  colors: number; // Palette size, 2-256
+  dither: boolean;
+}
+
+export interface EditDecision {
+  inPoint: number; // Seconds
+  outPoint: number;
+  cuts: TimeRange[]; // Sections removed between in and out
+}
+
+export interface DeviceSelection {
+  cameraId: string | null; // null = browser default
+  microphoneId: string | null;
+}
+
+export interface SessionManifest {
+  id: string; // Becomes the library id once the recording is finished
+  mimeType: string;
+  startedAt: number; // Epoch ms
+  cameraConfig: CameraConfig;
+  recorderConfig: RecorderConfig;
+  chunkCount: number;
+  duration: number; // Seconds recorded so far (pauses excluded)
 }
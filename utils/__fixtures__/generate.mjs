@@ -0,0 +1,69 @@
+// Regenerates the WebM fixtures used by utils/webm.test.ts:
+//   node utils/__fixtures__/generate.mjs
+//
+// The files mimic MediaRecorder output: written in streaming mode, so the Segment and
+// Clusters have unknown sizes, Info has no Duration and there is no Cues or SeekHead.
+// Frame payloads are placeholder bytes; only the container layout matters here.
+import { writeFileSync } from 'node:fs';
+import { Muxer, StreamTarget } from 'webm-muxer';
+
+const FRAME_RATE = 30;
+const AUDIO_FRAME_US = 20000; // 20ms Opus frames
+const DURATION_US = 2000000;
+const KEYFRAME_INTERVAL = FRAME_RATE; // One keyframe per second
+const CUES_ID = [0x1C, 0x53, 0xBB, 0x6B];
+
+const payload = (seed, length) => {
+  const data = new Uint8Array(length);
+  for (let i = 0; i < length; i++) data[i] = (seed * 31 + i * 7) & 0xFF;
+  return data;
+};
+
+const mux = ({ video, audio }) => {
+  const parts = [];
+  const muxer = new Muxer({
+    target: new StreamTarget({ onData: (data, position) => parts.push({ data: data.slice(), position }) }),
+    streaming: true,
+    video: video ? { codec: 'V_VP8', width: 320, height: 180, frameRate: FRAME_RATE } : undefined,
+    audio: audio ? { codec: 'A_OPUS', numberOfChannels: 1, sampleRate: 48000 } : undefined,
+  });
+
+  // Interleave in timestamp order like a live recorder would
+  const chunks = [];
+  if (video) {
+    for (let frame = 0; frame * 1e6 / FRAME_RATE < DURATION_US; frame++) {
+      const timestamp = Math.round(frame * 1e6 / FRAME_RATE);
+      chunks.push({ kind: 'video', timestamp, key: frame % KEYFRAME_INTERVAL === 0, data: payload(frame, 64) });
+    }
+  }
+  if (audio) {
+    for (let timestamp = 0; timestamp < DURATION_US; timestamp += AUDIO_FRAME_US) {
+      chunks.push({ kind: 'audio', timestamp, key: true, data: payload(timestamp / AUDIO_FRAME_US, 16) });
+    }
+  }
+  chunks.sort((a, b) => a.timestamp - b.timestamp || (a.kind === 'video' ? -1 : 1));
+
+  for (const chunk of chunks) {
+    if (chunk.kind === 'video') muxer.addVideoChunkRaw(chunk.data, chunk.key ? 'key' : 'delta', chunk.timestamp);
+    else muxer.addAudioChunkRaw(chunk.data, 'key', chunk.timestamp);
+  }
+  muxer.finalize();
+
+  const total = parts.reduce((max, part) => Math.max(max, part.position + part.data.length), 0);
+  const out = new Uint8Array(total);
+  for (const part of parts) out.set(part.data, part.position);
+
+  // The muxer still appends Cues on finalize, which MediaRecorder never writes. Placeholder
+  // payloads step by 7 per byte, so the Cues ID can't turn up inside a frame.
+  for (let cues = out.length - CUES_ID.length; cues >= 0; cues--) {
+    if (CUES_ID.every((byte, i) => out[cues + i] === byte)) return out.subarray(0, cues);
+  }
+  return out;
+};
+
+const dir = new URL('.', import.meta.url);
+const live = mux({ video: true, audio: true });
+writeFileSync(new URL('live.webm', dir), live);
+writeFileSync(new URL('audio-only.webm', dir), mux({ video: false, audio: true }));
+// A tab that crashed mid-write: the file stops part-way through a block in the last cluster
+writeFileSync(new URL('truncated.webm', dir), live.subarray(0, live.length - 37));
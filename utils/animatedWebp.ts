@@ -0,0 +1,109 @@
+// Assembles still WebP images (as produced by canvas encoders) into one animated WebP.
+// Layout: RIFF/WEBP > VP8X > ANIM > ANMF per frame, where each ANMF wraps the still's image chunks.
+
+export class WebpParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebpParseError';
+  }
+}
+
+const readFourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const writeUint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+const writeUint32 = (target: Uint8Array, offset: number, value: number) => {
+  writeUint24(target, offset, value);
+  target[offset + 3] = (value >>> 24) & 0xff;
+};
+
+const chunk = (fourCC: string, payload: Uint8Array) => {
+  // Chunks are padded to an even size; the padding is not counted in the size field
+  const padded = payload.length + (payload.length & 1);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) out[i] = fourCC.charCodeAt(i);
+  writeUint32(out, 4, payload.length);
+  out.set(payload, 8);
+  return out;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * Returns the image-data chunks (ALPH, VP8 or VP8L, with headers) of a still WebP, dropping metadata.
+ */
+const extractImageChunks = (still: Uint8Array): { data: Uint8Array; hasAlpha: boolean } => {
+  if (readFourCC(still, 0) !== 'RIFF' || readFourCC(still, 8) !== 'WEBP') {
+    throw new WebpParseError("Frame is not a WebP image");
+  }
+
+  const parts: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+  while (offset + 8 <= still.length) {
+    const fourCC = readFourCC(still, offset);
+    const size = readUint32(still, offset + 4);
+    const end = offset + 8 + size + (size & 1);
+    if (fourCC === 'ALPH' || fourCC === 'VP8 ' || fourCC === 'VP8L') {
+      parts.push(still.subarray(offset, Math.min(end, still.length)));
+      if (fourCC === 'ALPH') hasAlpha = true;
+    }
+    offset = end;
+  }
+
+  if (parts.length === 0) throw new WebpParseError("WebP frame has no image data");
+  return { data: concat(parts), hasAlpha };
+};
+
+/**
+ * Builds an endlessly looping animated WebP. `durations` are per frame, in milliseconds.
+ */
+export const assembleAnimatedWebp = (stills: Uint8Array[], width: number, height: number, durations: number[]): Blob => {
+  const frames = stills.map(extractImageChunks);
+  const hasAlpha = frames.some(frame => frame.hasAlpha);
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0); // Animation (+ alpha) flags
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  const anim = new Uint8Array(6); // Transparent background, loop count 0 (forever)
+
+  const anmfs = frames.map((frame, index) => {
+    const header = new Uint8Array(16);
+    // X and Y offsets stay 0: every frame covers the whole canvas
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.max(1, Math.round(durations[index] ?? 100)));
+    header[15] = 0x02; // Do not blend, do not dispose
+    return chunk('ANMF', concat([header, frame.data]));
+  });
+
+  const body = concat([
+    new TextEncoder().encode('WEBP'),
+    chunk('VP8X', vp8x),
+    chunk('ANIM', anim),
+    ...anmfs
+  ]);
+
+  const riff = new Uint8Array(8);
+  riff.set(new TextEncoder().encode('RIFF'));
+  writeUint32(riff, 4, body.length);
+  return new Blob([riff, body], { type: 'image/webp' });
+};
@@ -0,0 +1,122 @@
+import { Annotation } from '../types';
+
+// Highlighter strokes stay solid for a moment, then fade out
+export const HIGHLIGHTER_HOLD_MS = 1500;
+export const HIGHLIGHTER_FADE_MS = 1000;
+
+// Stroke widths as a fraction of the canvas' smaller side, so they look the same at any resolution
+const PEN_WIDTH = 0.006;
+const HIGHLIGHTER_WIDTH = 0.03;
+const SPOTLIGHT_DIM = 'rgba(0, 0, 0, 0.6)';
+
+export const isAnnotationExpired = (annotation: Annotation, now: number) =>
+  annotation.tool === 'highlighter' && now - annotation.createdAt > HIGHLIGHTER_HOLD_MS + HIGHLIGHTER_FADE_MS;
+
+const highlighterAlpha = (annotation: Annotation, now: number) => {
+  const age = now - annotation.createdAt - HIGHLIGHTER_HOLD_MS;
+  return age <= 0 ? 1 : Math.max(0, 1 - age / HIGHLIGHTER_FADE_MS);
+};
+
+// Normalized corner points -> pixel rectangle, whichever way the drag went
+const toRect = (annotation: Annotation, w: number, h: number) => {
+  const a = annotation.points[0];
+  const b = annotation.points[annotation.points.length - 1];
+  return {
+    x: Math.min(a.x, b.x) * w,
+    y: Math.min(a.y, b.y) * h,
+    width: Math.abs(b.x - a.x) * w,
+    height: Math.abs(b.y - a.y) * h,
+  };
+};
+
+const strokePath = (ctx: CanvasRenderingContext2D, annotation: Annotation, w: number, h: number) => {
+  ctx.beginPath();
+  annotation.points.forEach((point, index) => {
+    if (index === 0) ctx.moveTo(point.x * w, point.y * h);
+    else ctx.lineTo(point.x * w, point.y * h);
+  });
+  ctx.stroke();
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, annotation: Annotation, w: number, h: number, lineWidth: number) => {
+  const from = annotation.points[0];
+  const to = annotation.points[annotation.points.length - 1];
+  const x1 = from.x * w, y1 = from.y * h, x2 = to.x * w, y2 = to.y * h;
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const head = lineWidth * 4;
+
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  // Stop the shaft inside the head so the tip stays sharp
+  ctx.lineTo(x2 - Math.cos(angle) * head * 0.8, y2 - Math.sin(angle) * head * 0.8);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(x2, y2);
+  ctx.lineTo(x2 - head * Math.cos(angle - Math.PI / 7), y2 - head * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(x2 - head * Math.cos(angle + Math.PI / 7), y2 - head * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawSpotlight = (ctx: CanvasRenderingContext2D, annotation: Annotation, w: number, h: number) => {
+  const rect = toRect(annotation, w, h);
+  const radius = Math.min(rect.width, rect.height, Math.min(w, h) * 0.03);
+  ctx.beginPath();
+  ctx.rect(0, 0, w, h);
+  ctx.roundRect(rect.x, rect.y, rect.width, rect.height, radius);
+  ctx.fillStyle = SPOTLIGHT_DIM;
+  ctx.fill('evenodd');
+};
+
+/**
+ * Renders annotations onto the recorded canvas. Only the most recent spotlight is shown:
+ * one lit region at a time is what reads well on video.
+ */
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], w: number, h: number, now: number) => {
+  if (annotations.length === 0) return;
+  const minDim = Math.min(w, h);
+
+  const spotlight = [...annotations].reverse().find(annotation => annotation.tool === 'spotlight');
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (spotlight && spotlight.points.length > 1) drawSpotlight(ctx, spotlight, w, h);
+
+  for (const annotation of annotations) {
+    if (annotation.points.length === 0 || annotation.tool === 'spotlight') continue;
+
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineWidth = minDim * PEN_WIDTH;
+
+    switch (annotation.tool) {
+      case 'pen':
+        strokePath(ctx, annotation, w, h);
+        break;
+      case 'arrow':
+        drawArrow(ctx, annotation, w, h, ctx.lineWidth);
+        break;
+      case 'rect': {
+        const rect = toRect(annotation, w, h);
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+        break;
+      }
+      case 'highlighter': {
+        const alpha = highlighterAlpha(annotation, now);
+        if (alpha <= 0) break;
+        // Flat caps and translucency, like a real marker
+        ctx.globalAlpha = 0.4 * alpha;
+        ctx.lineCap = 'butt';
+        ctx.lineWidth = minDim * HIGHLIGHTER_WIDTH;
+        strokePath(ctx, annotation, w, h);
+        ctx.lineCap = 'round';
+        break;
+      }
+    }
+  }
+  ctx.restore();
+};
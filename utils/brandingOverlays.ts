@@ -0,0 +1,205 @@
+import { BrandingOverlay, LowerThirdOverlay, TextOverlay } from '../types';
+import { Rect } from './compositor';
+
+// Lower third wipes in, holds for its duration, then fades out
+export const LOWER_THIRD_ENTER_MS = 600;
+export const LOWER_THIRD_EXIT_MS = 400;
+
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+// Lower third metrics as a fraction of the frame height, so it reads the same at any resolution
+const LOWER_THIRD = {
+  title: 0.042,
+  subtitle: 0.028,
+  padX: 0.025,
+  padY: 0.018,
+  gap: 0.008,
+  accent: 0.008,
+  radius: 0.008,
+};
+
+const PLATE_COLOR = 'rgba(15, 23, 42, 0.85)'; // Slate-900
+const TEXT_PLATE_COLOR = 'rgba(2, 6, 23, 0.6)'; // Slate-950
+const SUBTITLE_COLOR = '#cbd5e1'; // Slate-300
+const TEXT_LINE_HEIGHT = 1.25;
+
+const lowerThirdFonts = (height: number) => ({
+  title: `700 ${Math.round(height * LOWER_THIRD.title)}px ${FONT_FAMILY}`,
+  subtitle: `500 ${Math.round(height * LOWER_THIRD.subtitle)}px ${FONT_FAMILY}`,
+});
+
+const textFont = (overlay: TextOverlay, height: number) => `600 ${Math.round(height * overlay.size)}px ${FONT_FAMILY}`;
+
+const textPadding = (overlay: TextOverlay, height: number) => overlay.background ? height * overlay.size * 0.4 : 0;
+
+const measure = (ctx: CanvasRenderingContext2D, font: string, text: string) => {
+  ctx.font = font;
+  return ctx.measureText(text).width;
+};
+
+/**
+ * Where an overlay lands in a frame of the given size, in pixels. Text is measured with `ctx`,
+ * so the overlay UI can size its drag handles with any 2D context.
+ */
+export const getOverlayRect = (ctx: CanvasRenderingContext2D, overlay: BrandingOverlay, width: number, height: number): Rect => {
+  const x = overlay.position.x * width;
+  const y = overlay.position.y * height;
+  ctx.save();
+  try {
+    switch (overlay.kind) {
+      case 'watermark': {
+        const w = overlay.size * width;
+        return { x, y, width: w, height: w / overlay.aspect };
+      }
+      case 'lowerThird': {
+        const fonts = lowerThirdFonts(height);
+        const textWidth = Math.max(measure(ctx, fonts.title, overlay.title), overlay.subtitle ? measure(ctx, fonts.subtitle, overlay.subtitle) : 0);
+        const textHeight = height * (LOWER_THIRD.title + (overlay.subtitle ? LOWER_THIRD.gap + LOWER_THIRD.subtitle : 0));
+        return {
+          x,
+          y,
+          width: textWidth + height * (LOWER_THIRD.accent + LOWER_THIRD.padX * 2),
+          height: textHeight + height * LOWER_THIRD.padY * 2,
+        };
+      }
+      case 'text': {
+        const font = textFont(overlay, height);
+        const lines = overlay.text.split('\n');
+        const padding = textPadding(overlay, height);
+        return {
+          x,
+          y,
+          width: Math.max(...lines.map(line => measure(ctx, font, line))) + padding * 2,
+          height: lines.length * height * overlay.size * TEXT_LINE_HEIGHT + padding * 2,
+        };
+      }
+    }
+  } finally {
+    ctx.restore();
+  }
+};
+
+const ease = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// How far into its appearance a lower third is: `reveal` wipes it in, `opacity` fades it out; null once it is over
+const lowerThirdPhase = (overlay: LowerThirdOverlay, age: number) => {
+  const reveal = ease(Math.max(0, Math.min(1, age / LOWER_THIRD_ENTER_MS)));
+  if (overlay.duration <= 0) return { reveal, opacity: 1 };
+  const remaining = overlay.duration * 1000 - age;
+  if (remaining <= 0) return null;
+  return { reveal, opacity: Math.min(1, remaining / LOWER_THIRD_EXIT_MS) };
+};
+
+const drawLowerThird = (ctx: CanvasRenderingContext2D, overlay: LowerThirdOverlay, box: Rect, height: number, reveal: number) => {
+  const fonts = lowerThirdFonts(height);
+  const accent = height * LOWER_THIRD.accent;
+
+  // Wipe in from the accent bar
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, accent + (box.width - accent) * reveal, box.height);
+  ctx.clip();
+
+  ctx.beginPath();
+  ctx.roundRect(box.x, box.y, box.width, box.height, height * LOWER_THIRD.radius);
+  ctx.fillStyle = PLATE_COLOR;
+  ctx.fill();
+  ctx.clip();
+  ctx.fillStyle = overlay.accentColor;
+  ctx.fillRect(box.x, box.y, accent, box.height);
+
+  const textX = box.x + accent + height * LOWER_THIRD.padX;
+  const textY = box.y + height * LOWER_THIRD.padY;
+  ctx.textBaseline = 'top';
+  ctx.font = fonts.title;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(overlay.title, textX, textY);
+  if (overlay.subtitle) {
+    ctx.font = fonts.subtitle;
+    ctx.fillStyle = SUBTITLE_COLOR;
+    ctx.fillText(overlay.subtitle, textX, textY + height * (LOWER_THIRD.title + LOWER_THIRD.gap));
+  }
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, box: Rect, height: number) => {
+  const fontSize = height * overlay.size;
+  const padding = textPadding(overlay, height);
+
+  if (overlay.background) {
+    ctx.beginPath();
+    ctx.roundRect(box.x, box.y, box.width, box.height, fontSize * 0.3);
+    ctx.fillStyle = TEXT_PLATE_COLOR;
+    ctx.fill();
+  } else {
+    // Without a plate, a soft shadow keeps light text readable on light screens
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize * 0.15;
+  }
+
+  ctx.font = textFont(overlay, height);
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = overlay.color;
+  overlay.text.split('\n').forEach((line, index) => {
+    ctx.fillText(line, box.x + padding, box.y + padding + index * fontSize * TEXT_LINE_HEIGHT + fontSize * (TEXT_LINE_HEIGHT - 1) / 2);
+  });
+};
+
+export interface OverlayRenderer {
+  /**
+   * Draws the visible overlays on top of the frame. Lower thirds only start their
+   * animation once `running` is true, so the countdown does not use up their time.
+   */
+  draw: (ctx: CanvasRenderingContext2D, overlays: BrandingOverlay[], width: number, height: number, now: number, running: boolean) => void;
+}
+
+export const createOverlayRenderer = (): OverlayRenderer => {
+  const images = new Map<string, HTMLImageElement>();
+  // When each visible lower third appeared; hiding one clears it, so showing it again replays the animation
+  const shownAt = new Map<string, number>();
+
+  // Decodes in the background; the watermark appears from the first frame after it is ready
+  const getImage = (src: string) => {
+    let image = images.get(src);
+    if (!image) {
+      image = new Image();
+      image.src = src;
+      images.set(src, image);
+    }
+    return image.complete && image.naturalWidth > 0 ? image : null;
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, overlays: BrandingOverlay[], width: number, height: number, now: number, running: boolean) => {
+    for (const overlay of overlays) {
+      if (!overlay.visible) {
+        shownAt.delete(overlay.id);
+        continue;
+      }
+
+      const box = getOverlayRect(ctx, overlay, width, height);
+      ctx.save();
+      switch (overlay.kind) {
+        case 'watermark': {
+          const image = getImage(overlay.image);
+          if (!image) break;
+          ctx.globalAlpha = overlay.opacity;
+          ctx.drawImage(image, box.x, box.y, box.width, box.height);
+          break;
+        }
+        case 'lowerThird': {
+          if (!running || !(overlay.title || overlay.subtitle)) break;
+          if (!shownAt.has(overlay.id)) shownAt.set(overlay.id, now);
+          const phase = lowerThirdPhase(overlay, now - shownAt.get(overlay.id)!);
+          if (!phase) break;
+          ctx.globalAlpha = phase.opacity;
+          drawLowerThird(ctx, overlay, box, height, phase.reveal);
+          break;
+        }
+        case 'text':
+          if (overlay.text.trim()) drawText(ctx, overlay, box, height);
+          break;
+      }
+      ctx.restore();
+    }
+  };
+
+  return { draw };
+};
@@ -0,0 +1,53 @@
+import { Chapter, Marker, TranscriptSegment } from '../types';
+
+// 00:01:02.345 (WebVTT) or 00:01:02,345 (SRT)
+const formatCueTime = (seconds: number, separator: '.' | ',') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+// Blank lines end a cue in both formats, and "-->" would confuse WebVTT parsers
+const cleanCueText = (text: string) => text.replace(/-->/g, '→').replace(/\n\s*\n/g, '\n').trim();
+
+export const toWebVtt = (segments: TranscriptSegment[]) =>
+  'WEBVTT\n\n' + segments
+    .map(segment => `${formatCueTime(segment.start, '.')} --> ${formatCueTime(segment.end, '.')}\n${cleanCueText(segment.text)}`)
+    .join('\n\n') + '\n';
+
+export const toSrt = (segments: TranscriptSegment[]) =>
+  segments
+    .map((segment, index) => `${index + 1}\n${formatCueTime(segment.start, ',')} --> ${formatCueTime(segment.end, ',')}\n${cleanCueText(segment.text)}`)
+    .join('\n\n') + '\n';
+
+/**
+ * WebVTT chapters track: each chapter runs until the next one starts, the last until the end.
+ */
+export const toChapterVtt = (chapters: Chapter[], duration: number) =>
+  'WEBVTT\n\n' + chapters
+    .map((chapter, index) => {
+      const end = chapters[index + 1]?.start ?? duration;
+      return `${formatCueTime(chapter.start, '.')} --> ${formatCueTime(end, '.')}\n${cleanCueText(chapter.title)}`;
+    })
+    .join('\n\n') + '\n';
+
+// "0:00 Intro" lines, the format video platforms pick up from descriptions
+export const toChapterTimestamps = (chapters: Chapter[]) =>
+  chapters
+    .map(chapter => {
+      const total = Math.round(chapter.start);
+      const hours = Math.floor(total / 3600);
+      const mins = Math.floor((total % 3600) / 60);
+      const secs = (total % 60).toString().padStart(2, '0');
+      const stamp = hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}` : `${mins}:${secs}`;
+      return `${stamp} ${chapter.title}`;
+    })
+    .join('\n');
+
+// Markers double as chapters, in timeline order whatever order they were dropped in
+export const markersToChapters = (markers: Marker[]): Chapter[] =>
+  [...markers].sort((a, b) => a.time - b.time).map(marker => ({ start: marker.time, title: marker.label }));
@@ -0,0 +1,47 @@
+// Green-screen keying on raw RGBA pixels, in place
+
+// Tolerance 1.0 reaches this far from the key color in the CbCr plane (the plane spans about ±128)
+const MAX_DISTANCE = 120;
+// Width of the soft edge between keyed and kept pixels, so hair does not look cut out with scissors
+const SOFTNESS = 18;
+
+export const parseHexColor = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Chrominance only: shadows and creases on the screen change brightness, not hue
+const chromaB = (r: number, g: number, b: number) => -0.168736 * r - 0.331264 * g + 0.5 * b;
+const chromaR = (r: number, g: number, b: number) => 0.5 * r - 0.418688 * g - 0.081312 * b;
+
+/**
+ * Makes pixels close to `keyColor` transparent and pulls the key color out of the edges that remain.
+ */
+export const applyChromaKey = (pixels: Uint8ClampedArray, keyColor: string, tolerance: number, spill: number) => {
+  const [kr, kg, kb] = parseHexColor(keyColor);
+  const keyCb = chromaB(kr, kg, kb);
+  const keyCr = chromaR(kr, kg, kb);
+  const inner = tolerance * MAX_DISTANCE;
+  const outer = inner + SOFTNESS;
+  // The channel that dominates the key is the one that bleeds onto the presenter
+  const keyChannel = kg >= kr && kg >= kb ? 1 : kb >= kr ? 2 : 0;
+  const otherA = (keyChannel + 1) % 3;
+  const otherB = (keyChannel + 2) % 3;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i], g = pixels[i + 1], b = pixels[i + 2];
+    const distance = Math.hypot(chromaB(r, g, b) - keyCb, chromaR(r, g, b) - keyCr);
+
+    if (distance <= inner) {
+      pixels[i + 3] = 0;
+      continue;
+    }
+    if (distance < outer) pixels[i + 3] = (pixels[i + 3] * (distance - inner)) / SOFTNESS;
+
+    if (spill > 0) {
+      const value = pixels[i + keyChannel];
+      const limit = Math.max(pixels[i + otherA], pixels[i + otherB]);
+      if (value > limit) pixels[i + keyChannel] = value - (value - limit) * spill;
+    }
+  }
+};
@@ -0,0 +1,161 @@
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A live video, or a camera frame that already went through background removal
+export type FrameSource = HTMLVideoElement | ImageBitmap;
+
+/**
+ * Draws a video into the target rect using "object-fit: cover" semantics (center crop).
+ */
+export const drawVideoCover = (
+  ctx: CanvasRenderingContext2D,
+  video: FrameSource,
+  target: Rect
+) => {
+  const vw = video instanceof HTMLVideoElement ? video.videoWidth : video.width;
+  const vh = video instanceof HTMLVideoElement ? video.videoHeight : video.height;
+  if (!vw || !vh) return;
+
+  const sourceAspect = vw / vh;
+  const targetAspect = target.width / target.height;
+
+  let sx = 0;
+  let sy = 0;
+  let sw = vw;
+  let sh = vh;
+
+  if (sourceAspect > targetAspect) {
+    // Source is wider: crop left and right
+    sw = vh * targetAspect;
+    sx = (vw - sw) / 2;
+  } else {
+    // Source is taller: crop top and bottom
+    sh = vw / targetAspect;
+    sy = (vh - sh) / 2;
+  }
+
+  ctx.drawImage(video, sx, sy, sw, sh, target.x, target.y, target.width, target.height);
+};
+
+// A layer's place in the frame, in canvas pixels
+export interface LayerBox extends Rect {
+  radius: number; // Corner radius; half the side of a square box makes a circle
+  opacity: number; // 0 to 1
+  border: number; // 0 to 1, share of the camera border drawn (so it can fade with a scene change)
+}
+
+const traceRoundedRect = (ctx: CanvasRenderingContext2D, rect: Rect, radius: number) => {
+  ctx.beginPath();
+  if (radius > 0 && ctx.roundRect) {
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, Math.min(radius, rect.width / 2, rect.height / 2));
+  } else {
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  }
+  ctx.closePath();
+};
+
+/**
+ * Draws the `source` part of the screen inside the box, "object-fit: contain", so nothing on screen is cropped.
+ */
+export const drawScreenLayer = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  source: Rect,
+  box: LayerBox
+) => {
+  if (box.opacity <= 0 || !source.width || !source.height) return;
+
+  const scale = Math.min(box.width / source.width, box.height / source.height);
+  const target = {
+    x: box.x + (box.width - source.width * scale) / 2,
+    y: box.y + (box.height - source.height * scale) / 2,
+    width: source.width * scale,
+    height: source.height * scale,
+  };
+
+  ctx.save();
+  ctx.globalAlpha = box.opacity;
+  if (box.radius > 0) {
+    traceRoundedRect(ctx, target, box.radius);
+    ctx.clip();
+  }
+  ctx.drawImage(video, source.x, source.y, source.width, source.height, target.x, target.y, target.width, target.height);
+  ctx.restore();
+};
+
+/**
+ * Draws the camera inside the box (center crop), clipped to its rounded outline, with an inner border.
+ */
+export const drawCameraLayer = (
+  ctx: CanvasRenderingContext2D,
+  video: FrameSource,
+  box: LayerBox,
+  borderColor: string,
+  borderWidth: number
+) => {
+  if (box.opacity <= 0) return;
+
+  ctx.save();
+  ctx.globalAlpha = box.opacity;
+  traceRoundedRect(ctx, box, box.radius);
+  ctx.clip();
+
+  drawVideoCover(ctx, video, box);
+
+  // Stroked at double width: the clip cuts the outer half, leaving exactly `borderWidth` inside
+  const width = borderWidth * box.border;
+  if (width > 0) {
+    ctx.strokeStyle = borderColor;
+    ctx.lineWidth = width * 2;
+    ctx.stroke();
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Draws the audio-only placeholder frame: a dark backdrop with a live waveform from the analyser.
+ */
+export const drawWaveform = (
+  ctx: CanvasRenderingContext2D,
+  analyser: AnalyserNode | null,
+  samples: Uint8Array,
+  canvasWidth: number,
+  canvasHeight: number,
+  accentColor: string
+) => {
+  ctx.fillStyle = '#020617'; // Slate-950
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+  const midY = canvasHeight / 2;
+  ctx.save();
+  ctx.lineWidth = Math.max(2, canvasHeight / 180);
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = accentColor;
+  ctx.beginPath();
+
+  if (analyser) {
+    analyser.getByteTimeDomainData(samples);
+    const step = canvasWidth / samples.length;
+    for (let i = 0; i < samples.length; i++) {
+      // Samples are centered on 128; scale to a third of the canvas height
+      const offset = ((samples[i] - 128) / 128) * (canvasHeight / 3);
+      if (i === 0) {
+        ctx.moveTo(0, midY + offset);
+      } else {
+        ctx.lineTo(i * step, midY + offset);
+      }
+    }
+  } else {
+    // No audio graph yet: flat line placeholder
+    ctx.moveTo(0, midY);
+    ctx.lineTo(canvasWidth, midY);
+  }
+
+  ctx.stroke();
+  ctx.restore();
+};
@@ -0,0 +1,27 @@
+import { Language } from '../types';
+
+const BYTE_UNITS: { unit: string; size: number; digits: number }[] = [
+  { unit: 'gigabyte', size: 1024 * 1024 * 1024, digits: 2 },
+  { unit: 'megabyte', size: 1024 * 1024, digits: 1 },
+  { unit: 'kilobyte', size: 1024, digits: 0 },
+];
+
+// Sizes in the language's number format ("1,5 MB" in Italian), with the same units as before
+export const formatBytes = (bytes: number, language: Language) => {
+  const { unit, size, digits } = BYTE_UNITS.find(entry => bytes >= entry.size) ?? BYTE_UNITS[BYTE_UNITS.length - 1];
+  return new Intl.NumberFormat(language, { style: 'unit', unit, maximumFractionDigits: digits }).format(bytes / size);
+};
+
+export const formatDate = (timestamp: number, language: Language) =>
+  new Intl.DateTimeFormat(language, { dateStyle: 'medium' }).format(timestamp);
+
+export const formatDateTime = (timestamp: number, language: Language) =>
+  new Intl.DateTimeFormat(language, { dateStyle: 'medium', timeStyle: 'short' }).format(timestamp);
+
+export const formatDuration = (seconds?: number) => {
+  if (seconds === undefined) return '–';
+  const total = Math.round(seconds);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
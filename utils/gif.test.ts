@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { GifWriter } from './gif';
+
+// Delay of every graphic control extension, in hundredths of a second
+const readDelays = (bytes: Uint8Array) => {
+  const delays: number[] = [];
+  for (let i = 0; i + 5 < bytes.length; i++) {
+    if (bytes[i] === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 0x04) delays.push(bytes[i + 4] | bytes[i + 5] << 8);
+  }
+  return delays;
+};
+
+const encode = (durations: number[]) => {
+  const gif = new GifWriter(1, 1);
+  const palette = new Uint8Array([0, 0, 0, 255, 255, 255]);
+  for (const duration of durations) gif.addFrame(new Uint8Array([0]), palette, duration);
+  return readDelays(gif.finish());
+};
+
+// Whole-millisecond durations as clipExport sends them
+const frameDurations = (fps: number, count: number) =>
+  Array.from({ length: count }, (_, i) => Math.round(((i + 1) * 1000) / fps) - Math.round((i * 1000) / fps));
+
+describe('GifWriter', () => {
+  it.each([10, 20, 25])('keeps exact delays at %i fps', (fps) => {
+    expect(new Set(encode(frameDurations(fps, fps)))).toEqual(new Set([100 / fps]));
+  });
+
+  it.each([15, 30])('carries the rounding so %i fps clips keep their length', (fps) => {
+    const delays = encode(frameDurations(fps, fps * 10));
+
+    expect(delays.reduce((sum, delay) => sum + delay, 0)).toBe(1000);
+    expect(Math.max(...delays) - Math.min(...delays)).toBe(1);
+  });
+
+  it('never writes a delay browsers would slow down', () => {
+    // 60 fps asks for 1.67 hundredths per frame, under the 2 browsers honour
+    expect(Math.min(...encode(frameDurations(60, 60)))).toBe(2);
+  });
+});
@@ -0,0 +1,176 @@
+// Minimal animated GIF (GIF89a) writer: one local palette per frame, looping forever.
+
+class ByteWriter {
+  private buffer = new Uint8Array(64 * 1024);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  uint16(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  result() {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const MAX_CODE = 4096;
+
+// Variable-width LZW as the GIF spec wants it, packed LSB-first into 255-byte sub-blocks
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      if (blockLength === 255) flushBlock();
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const symbol = indices[i];
+    const key = (prefix << 8) | symbol;
+    const known = table.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full: start over rather than keep encoding with a stale dictionary
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = symbol;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bits & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0); // Block terminator
+};
+
+// Browsers play shorter delays as 1/10 s
+const MIN_DELAY = 2;
+
+export class GifWriter {
+  private out = new ByteWriter();
+  private elapsed = 0; // Milliseconds of animation added so far
+  private written = 0; // Hundredths of a second of delay written so far
+
+  constructor(private width: number, private height: number) {
+    this.out.ascii('GIF89a');
+    this.out.uint16(width);
+    this.out.uint16(height);
+    this.out.byte(0); // No global colour table; every frame brings its own
+    this.out.byte(0); // Background colour index
+    this.out.byte(0); // Square pixels
+
+    // NETSCAPE2.0 application extension: loop forever
+    this.out.bytes([0x21, 0xff, 0x0b]);
+    this.out.ascii('NETSCAPE2.0');
+    this.out.bytes([0x03, 0x01]);
+    this.out.uint16(0);
+    this.out.byte(0);
+  }
+
+  get size() {
+    return this.out.length;
+  }
+
+  /**
+   * Appends a frame of palette indices. `palette` is packed RGB; `duration` is in milliseconds.
+   */
+  addFrame(indices: Uint8Array, palette: Uint8Array, duration: number) {
+    // Delays are whole hundredths: round the running total rather than each frame, so 15 or 30 fps clips do not drift
+    this.elapsed += duration;
+    const delay = Math.max(MIN_DELAY, Math.round(this.elapsed / 10) - this.written);
+    this.written += delay;
+
+    // Colour tables come in powers of two, at least 2 entries
+    const colorBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.length / 3))));
+    const tableSize = 1 << colorBits;
+
+    // Graphic control extension: frame delay, no transparency
+    this.out.bytes([0x21, 0xf9, 0x04, 0x00]);
+    this.out.uint16(delay);
+    this.out.bytes([0x00, 0x00]);
+
+    // Image descriptor with a local colour table
+    this.out.byte(0x2c);
+    this.out.uint16(0);
+    this.out.uint16(0);
+    this.out.uint16(this.width);
+    this.out.uint16(this.height);
+    this.out.byte(0x80 | (colorBits - 1));
+
+    const table = new Uint8Array(tableSize * 3);
+    table.set(palette.subarray(0, tableSize * 3));
+    this.out.bytes(table);
+
+    writeLzw(this.out, indices, Math.max(2, colorBits));
+  }
+
+  finish(): Uint8Array {
+    this.out.byte(0x3b); // Trailer
+    return this.out.result();
+  }
+}
@@ -0,0 +1,99 @@
+import { Language } from '../types';
+import en, { MessageKey } from '../locales/en';
+import it from '../locales/it';
+import de from '../locales/de';
+import fr from '../locales/fr';
+import es from '../locales/es';
+
+// A message that changes with a count, one form per CLDR plural category the language uses
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+// Every language has every key; the compiler points out what a new message is still missing
+export type Catalog = Record<MessageKey, Message>;
+
+// Values for the {placeholders} in a message; numbers are formatted for the language
+export type MessageParams = Record<string, string | number>;
+
+export const LANGUAGES: { id: Language; name: string; englishName: string }[] = [
+  { id: 'en', name: 'English', englishName: 'English' },
+  { id: 'it', name: 'Italiano', englishName: 'Italian' },
+  { id: 'de', name: 'Deutsch', englishName: 'German' },
+  { id: 'fr', name: 'Français', englishName: 'French' },
+  { id: 'es', name: 'Español', englishName: 'Spanish' },
+];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const CATALOGS: Record<Language, Catalog> = { en, it, de, fr, es };
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+const numberFormats = new Map<Language, Intl.NumberFormat>();
+
+const getPluralRules = (language: Language) => {
+  if (!pluralRules.has(language)) pluralRules.set(language, new Intl.PluralRules(language));
+  return pluralRules.get(language)!;
+};
+
+const getNumberFormat = (language: Language) => {
+  if (!numberFormats.has(language)) numberFormats.set(language, new Intl.NumberFormat(language));
+  return numberFormats.get(language)!;
+};
+
+/**
+ * Looks up `key` for `language` and fills in its {placeholders}. Plural messages pick their
+ * form from `params.count`.
+ */
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[language][key];
+  const text = typeof message === 'string'
+    ? message
+    : message[getPluralRules(language).select(Number(params?.count ?? 0))] ?? message.other;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? getNumberFormat(language).format(value) : value;
+  });
+};
+
+/**
+ * A failure the user should read in their own language. The message is the English text, for
+ * logs; the UI looks up `key` again with `describeError`.
+ */
+export class TranslatableError extends Error {
+  constructor(readonly key: MessageKey, readonly params?: MessageParams) {
+    super(translate(DEFAULT_LANGUAGE, key, params));
+    this.name = 'TranslatableError';
+  }
+}
+
+/**
+ * Text to show for a caught error: catalog errors in `language`, anything else as thrown
+ * (browser errors are already localized), or `fallback` when there is no message at all.
+ */
+export const describeError = (language: Language, err: unknown, fallback: MessageKey): string => {
+  if (err instanceof TranslatableError) return translate(language, err.key, err.params);
+  if (err instanceof Error && err.message) return err.message;
+  return translate(language, fallback);
+};
+
+// Name of the language in English, for prompts sent to AI models
+export const getLanguageName = (language: Language) =>
+  LANGUAGES.find(entry => entry.id === language)?.englishName ?? 'English';
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(entry => entry.id === value);
+
+/**
+ * The first of the browser's preferred languages the app speaks, matched on the base
+ * language so "de-AT" gets German.
+ */
+export const detectLanguage = (preferred: readonly string[] = navigator.languages ?? [navigator.language]): Language => {
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return DEFAULT_LANGUAGE;
+};
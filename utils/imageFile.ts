@@ -0,0 +1,40 @@
+import { TranslatableError } from './i18n';
+
+export interface LoadedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads an image file into a PNG data URI, scaled down to `maxSize` on its longer side.
+ * PNG keeps the transparency logos usually rely on.
+ */
+export const readImageFile = (file: File, maxSize: number) => new Promise<LoadedImage>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve({ dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height });
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new TranslatableError('error.readImage'));
+  };
+  image.src = url;
+});
+
+/**
+ * Natural size of an image that is already a data URI, e.g. the brand profile logo.
+ */
+export const getImageSize = (src: string) => new Promise<{ width: number; height: number }>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+  image.onerror = () => reject(new TranslatableError('error.readImage'));
+  image.src = src;
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchema, sampleFromSchema, validateSchema } from './jsonSchema';
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 10 },
+    language: { type: 'string', minLength: 2, maxLength: 5 },
+    kind: { type: 'string', enum: ['talk', 'demo'] },
+    code: { type: 'string', pattern: '^[a-z]+$' },
+    score: { type: 'number', minimum: 0, maximum: 1 },
+    count: { type: 'integer', minimum: 1 },
+    draft: { type: 'boolean' },
+    tags: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 2 },
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { start: { type: 'number' }, title: { type: 'string' } },
+        required: ['start', 'title'],
+      },
+    },
+  },
+  required: ['title', 'score'],
+};
+
+const VALID = {
+  title: 'Intro',
+  language: 'en',
+  kind: 'demo',
+  code: 'abc',
+  score: 0.5,
+  count: 3,
+  draft: false,
+  tags: ['a'],
+  chapters: [{ start: 0, title: 'Start' }],
+};
+
+describe('validateSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateSchema(VALID, SCHEMA)).toEqual([]);
+  });
+
+  it('accepts missing optional properties', () => {
+    expect(validateSchema({ title: 'Intro', score: 1 }, SCHEMA)).toEqual([]);
+  });
+
+  it.each([
+    ['a list', []],
+    ['null', null],
+    ['a string', 'Intro'],
+  ])('rejects %s where an object is expected', (_, value) => {
+    expect(validateSchema(value, SCHEMA)).toEqual(['$ should be an object']);
+  });
+
+  it('lists every missing required property', () => {
+    expect(validateSchema({}, SCHEMA)).toEqual(['$.title is missing', '$.score is missing']);
+  });
+
+  it.each([
+    ['title', '   ', '$.title is too short'],
+    ['title', 'A much longer title', '$.title is too long'],
+    ['title', 42, '$.title should be a string'],
+    ['kind', 'podcast', '$.kind should be one of talk, demo'],
+    ['code', 'ABC', '$.code has an unexpected format'],
+    ['score', 2, '$.score should be at most 1'],
+    ['score', -1, '$.score should be at least 0'],
+    ['score', Number.NaN, '$.score should be a number'],
+    ['score', '0.5', '$.score should be a number'],
+    ['count', 1.5, '$.count should be an integer'],
+    ['draft', 'no', '$.draft should be a boolean'],
+    ['tags', 'a', '$.tags should be an array'],
+    ['tags', [], '$.tags needs at least 1 items'],
+    ['tags', ['a', 'b', 'c'], '$.tags allows at most 2 items'],
+    ['tags', ['a', 1], '$.tags[1] should be a string'],
+  ])('rejects %s = %j', (key, value, issue) => {
+    expect(validateSchema({ ...VALID, [key]: value }, SCHEMA)).toEqual([issue]);
+  });
+
+  it('reports the path of problems in nested objects', () => {
+    const issues = validateSchema({ ...VALID, chapters: [{ start: 0, title: 'Start' }, { start: 'soon' }] }, SCHEMA);
+
+    expect(issues).toEqual(['$.chapters[1].title is missing', '$.chapters[1].start should be a number']);
+  });
+});
+
+describe('sampleFromSchema', () => {
+  it('builds a value that passes its own schema', () => {
+    // Patterns are not sampled; the AI schemas the mock answers do not use them
+    const { code: _, ...properties } = SCHEMA.properties!;
+    const schema = { ...SCHEMA, properties };
+
+    expect(validateSchema(sampleFromSchema(schema), schema)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+// Just enough JSON Schema to validate model output at runtime: the same object is sent to the provider
+// as the response schema, so what we ask for and what we accept cannot drift apart.
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Returns a list of human-readable problems; an empty list means `value` matches `schema`.
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const issues = (schema.required ?? [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} is missing`);
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) issues.push(...validateSchema(record[key], child, `${path}.${key}`));
+      }
+      return issues;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) issues.push(`${path} needs at least ${schema.minItems} items`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push(`${path} allows at most ${schema.maxItems} items`);
+      if (schema.items) value.forEach((item, index) => issues.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+      return issues;
+    }
+    case 'string': {
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')}`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${path} is too short`];
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) return [`${path} is too long`];
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) return [`${path} has an unexpected format`];
+      return [];
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} should be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} should be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} should be at least ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} should be at most ${schema.maximum}`];
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+  }
+};
+
+/**
+ * A simple value that satisfies `schema`; used by the offline mock provider.
+ */
+export const sampleFromSchema = (schema: JsonSchema, name = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, child]) => [key, sampleFromSchema(child, key)]));
+    case 'array':
+      return schema.items ? Array.from({ length: Math.max(1, schema.minItems ?? 1) }, () => sampleFromSchema(schema.items!, name)) : [];
+    case 'string':
+      return schema.enum ? schema.enum[0] : `Mock ${name}`.slice(0, schema.maxLength);
+    case 'number':
+    case 'integer':
+      return schema.maximum ?? schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+  }
+};
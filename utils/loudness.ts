@@ -0,0 +1,167 @@
+import { TimeRange } from '../types';
+
+// ITU-R BS.1770: 400ms gating blocks overlapping by 75%, built from 100ms steps
+const STEP_SECONDS = 0.1;
+const STEPS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// Keeps normalized exports clear of clipping after lossy encoding
+export const DEFAULT_PEAK_CEILING_DB = -1;
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS; -Infinity for silence
+  peak: number; // Highest absolute sample value, 1 = full scale
+}
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+// K-weighting (a high shelf for the head, then a high-pass), derived for any sample rate
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const gainDb = 3.99984385397;
+    const q = 0.7071752369554193;
+    const w0 = 2 * Math.PI * 1681.9744509555319 / sampleRate;
+    const a = Math.pow(10, gainDb / 40);
+    const alpha = Math.sin(w0) / (2 * q);
+    const cos = Math.cos(w0);
+    const sqrtA = Math.sqrt(a);
+    const a0 = (a + 1) - (a - 1) * cos + 2 * sqrtA * alpha;
+    return {
+      b0: a * ((a + 1) + (a - 1) * cos + 2 * sqrtA * alpha) / a0,
+      b1: -2 * a * ((a - 1) + (a + 1) * cos) / a0,
+      b2: a * ((a + 1) + (a - 1) * cos - 2 * sqrtA * alpha) / a0,
+      a1: 2 * ((a - 1) - (a + 1) * cos) / a0,
+      a2: ((a + 1) - (a - 1) * cos - 2 * sqrtA * alpha) / a0
+    };
+  })();
+
+  const highPass = (() => {
+    const q = 0.5003270373253953;
+    const w0 = 2 * Math.PI * 38.13547087613982 / sampleRate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+    return {
+      b0: (1 + cos) / 2 / a0,
+      b1: -(1 + cos) / a0,
+      b2: (1 + cos) / 2 / a0,
+      a1: -2 * cos / a0,
+      a2: (1 - alpha) / a0
+    };
+  })();
+
+  return [shelf, highPass];
+};
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+export interface LoudnessMeter {
+  // Starts a separate piece of audio: filter state restarts and no block spans the join
+  startRange: () => void;
+  // Feeds the next samples of the current piece, one array per channel
+  push: (channels: Float32Array[]) => void;
+  result: () => LoudnessMeasurement;
+}
+
+/**
+ * Integrated loudness (BS.1770 / EBU R128) and sample peak of audio fed in pieces.
+ * Only the energy of each 100ms step is kept, so hour-long recordings stay cheap on memory.
+ */
+export const createLoudnessMeter = (sampleRate: number): LoudnessMeter => {
+  const filters = kWeightingFilters(sampleRate);
+  const stepFrames = Math.round(STEP_SECONDS * sampleRate);
+  const blocks: number[] = []; // Mean square of each 400ms block, summed over channels
+  let peak = 0;
+
+  let states: { x1: number; x2: number; y1: number; y2: number }[][] = [];
+  let recentSteps: number[] = [];
+  let stepEnergy = 0;
+  let stepFill = 0;
+
+  // K-weighted energy of samples[from, to) on one channel
+  const filterEnergy = (channel: number, samples: Float32Array, from: number, to: number) => {
+    states[channel] ??= filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+    const state = states[channel];
+    let energy = 0;
+    for (let i = from; i < to; i++) {
+      let value = samples[i];
+      const magnitude = Math.abs(value);
+      if (magnitude > peak) peak = magnitude;
+      for (let f = 0; f < filters.length; f++) {
+        const { b0, b1, b2, a1, a2 } = filters[f];
+        const s = state[f];
+        const out = b0 * value + b1 * s.x1 + b2 * s.x2 - a1 * s.y1 - a2 * s.y2;
+        s.x2 = s.x1; s.x1 = value;
+        s.y2 = s.y1; s.y1 = out;
+        value = out;
+      }
+      energy += value * value;
+    }
+    return energy;
+  };
+
+  return {
+    startRange: () => {
+      states = [];
+      recentSteps = [];
+      stepEnergy = 0;
+      stepFill = 0;
+    },
+    push: (channels) => {
+      const frames = channels[0]?.length ?? 0;
+      for (let offset = 0; offset < frames;) {
+        const count = Math.min(frames - offset, stepFrames - stepFill);
+        // Front channels all weigh 1
+        channels.forEach((samples, channel) => { stepEnergy += filterEnergy(channel, samples, offset, offset + count); });
+        stepFill += count;
+        offset += count;
+        if (stepFill < stepFrames) continue;
+
+        recentSteps.push(stepEnergy);
+        if (recentSteps.length > STEPS_PER_BLOCK) recentSteps.shift();
+        if (recentSteps.length === STEPS_PER_BLOCK) {
+          blocks.push(recentSteps.reduce((sum, energy) => sum + energy, 0) / (stepFrames * STEPS_PER_BLOCK));
+        }
+        stepEnergy = 0;
+        stepFill = 0;
+      }
+    },
+    result: () => {
+      // Absolute gate drops silence, the relative gate drops pauses relative to the programme itself
+      const audible = blocks.filter(block => toLufs(block) > ABSOLUTE_GATE_LUFS);
+      if (audible.length === 0) return { integrated: -Infinity, peak };
+      const relativeGate = toLufs(audible.reduce((sum, block) => sum + block, 0) / audible.length) + RELATIVE_GATE_LU;
+      const gated = audible.filter(block => toLufs(block) > relativeGate);
+      const integrated = toLufs(gated.reduce((sum, block) => sum + block, 0) / gated.length);
+      return { integrated, peak };
+    }
+  };
+};
+
+/**
+ * Integrated loudness and sample peak of the given ranges of `buffer`.
+ */
+export const measureLoudness = (buffer: AudioBuffer, ranges: TimeRange[]): LoudnessMeasurement => {
+  const meter = createLoudnessMeter(buffer.sampleRate);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (const range of ranges) {
+    const from = Math.max(0, Math.floor(range.start * buffer.sampleRate));
+    const to = Math.min(buffer.length, Math.floor(range.end * buffer.sampleRate));
+    if (to <= from) continue;
+    meter.startRange();
+    meter.push(channels.map(samples => samples.subarray(from, to)));
+  }
+  return meter.result();
+};
+
+/**
+ * Linear gain that brings `measurement` to `targetLufs`, reduced if needed so the peak stays under the ceiling.
+ * Silence is left alone rather than amplified into noise.
+ */
+export const getNormalizationGain = (measurement: LoudnessMeasurement, targetLufs: number, ceilingDb = DEFAULT_PEAK_CEILING_DB) => {
+  if (!Number.isFinite(measurement.integrated) || measurement.peak === 0) return 1;
+  const gain = Math.pow(10, (targetLufs - measurement.integrated) / 20);
+  const maxGain = Math.pow(10, ceilingDb / 20) / measurement.peak;
+  return Math.min(gain, maxGain);
+};
@@ -0,0 +1,27 @@
+import { CaptureRegion, RecordingQuality } from '../types';
+
+/**
+ * Camera constraints for the bubble. A chosen device wins over the front-facing default.
+ */
+export const buildCameraConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  width: { ideal: 640 },
+  height: { ideal: 480 },
+  ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' })
+});
+
+export const buildMicrophoneConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {})
+});
+
+/**
+ * Screen capture constraints. With a capture region the whole screen has to be captured larger,
+ * so the cropped part still reaches the quality's resolution.
+ */
+export const buildDisplayConstraints = (quality: RecordingQuality, region: CaptureRegion): MediaTrackConstraints => ({
+  width: { ideal: Math.round(quality.width / region.width) },
+  height: { ideal: Math.round(quality.height / region.height) },
+  frameRate: quality.frameRate
+});
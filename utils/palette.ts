@@ -0,0 +1,169 @@
+// Colour quantization for paletted exports (GIF, and WebP frames that should compress like GIFs).
+// Colours are bucketed to 5 bits per channel, which is plenty for screen content and keeps tables small.
+
+const BITS = 5;
+const LEVELS = 1 << BITS;
+const SHIFT = 8 - BITS;
+
+const keyOf = (r: number, g: number, b: number) => ((r >> SHIFT) << (BITS * 2)) | ((g >> SHIFT) << BITS) | (b >> SHIFT);
+
+interface Box {
+  keys: number[];
+  count: number;
+}
+
+const channelOf = (key: number, channel: number) => (key >> (BITS * (2 - channel))) & (LEVELS - 1);
+
+const splitBox = (box: Box, histogram: Uint32Array): [Box, Box] | null => {
+  if (box.keys.length < 2) return null;
+
+  // Cut along the channel with the widest spread, at the pixel-weighted median
+  let axis = 0;
+  let widest = -1;
+  for (let channel = 0; channel < 3; channel++) {
+    let min = LEVELS;
+    let max = -1;
+    for (const key of box.keys) {
+      const value = channelOf(key, channel);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > widest) {
+      widest = max - min;
+      axis = channel;
+    }
+  }
+  if (widest <= 0) return null;
+
+  const sorted = [...box.keys].sort((a, b) => channelOf(a, axis) - channelOf(b, axis));
+  let running = 0;
+  let cut = 1;
+  for (; cut < sorted.length; cut++) {
+    running += histogram[sorted[cut - 1]];
+    if (running >= box.count / 2) break;
+  }
+  cut = Math.min(Math.max(cut, 1), sorted.length - 1);
+
+  const left = sorted.slice(0, cut);
+  const right = sorted.slice(cut);
+  const weigh = (keys: number[]) => keys.reduce((total, key) => total + histogram[key], 0);
+  return [{ keys: left, count: weigh(left) }, { keys: right, count: weigh(right) }];
+};
+
+/**
+ * Median-cut palette for an RGBA frame. Returns packed RGB triplets, at most `maxColors` of them.
+ */
+export const buildPalette = (pixels: Uint8ClampedArray, maxColors: number): Uint8Array => {
+  const histogram = new Uint32Array(LEVELS * LEVELS * LEVELS);
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[keyOf(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+  }
+
+  const keys: number[] = [];
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] > 0) keys.push(key);
+  }
+
+  let boxes: Box[] = [{ keys, count: pixels.length / 4 }];
+  while (boxes.length < maxColors) {
+    // Always split the most populated box that still can be split
+    const candidates = boxes.filter(box => box.keys.length > 1).sort((a, b) => b.count - a.count);
+    let split: [Box, Box] | null = null;
+    let target: Box | null = null;
+    for (const candidate of candidates) {
+      split = splitBox(candidate, histogram);
+      if (split) {
+        target = candidate;
+        break;
+      }
+    }
+    if (!split || !target) break;
+    boxes = [...boxes.filter(box => box !== target), ...split];
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0;
+    for (const key of box.keys) {
+      const weight = histogram[key];
+      r += channelOf(key, 0) * weight;
+      g += channelOf(key, 1) * weight;
+      b += channelOf(key, 2) * weight;
+    }
+    const count = Math.max(1, box.count);
+    // Map bucket centres back to 8 bits
+    palette[index * 3] = Math.min(255, Math.round((r / count) * (1 << SHIFT) + (1 << (SHIFT - 1))));
+    palette[index * 3 + 1] = Math.min(255, Math.round((g / count) * (1 << SHIFT) + (1 << (SHIFT - 1))));
+    palette[index * 3 + 2] = Math.min(255, Math.round((b / count) * (1 << SHIFT) + (1 << (SHIFT - 1))));
+  });
+  return palette;
+};
+
+const nearestIndex = (palette: Uint8Array, r: number, g: number, b: number) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i += 3) {
+    const dr = palette[i] - r;
+    const dg = palette[i + 1] - g;
+    const db = palette[i + 2] - b;
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i / 3;
+    }
+  }
+  return best;
+};
+
+/**
+ * Maps every pixel to its closest palette entry, optionally with Floyd–Steinberg dithering.
+ * Returns one palette index per pixel.
+ */
+export const applyPalette = (pixels: Uint8ClampedArray, width: number, height: number, palette: Uint8Array, dither: boolean): Uint8Array => {
+  const indices = new Uint8Array(width * height);
+  // Nearest-colour lookups are cached per bucket; this is what makes quantizing a frame fast
+  const cache = new Int16Array(LEVELS * LEVELS * LEVELS).fill(-1);
+  const lookup = (r: number, g: number, b: number) => {
+    const key = keyOf(r, g, b);
+    if (cache[key] < 0) cache[key] = nearestIndex(palette, r, g, b);
+    return cache[key];
+  };
+
+  if (!dither) {
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = lookup(pixels[p], pixels[p + 1], pixels[p + 2]);
+    }
+    return indices;
+  }
+
+  // Error for the current and next row, 3 channels per pixel
+  let current = new Float32Array(width * 3);
+  let next = new Float32Array(width * 3);
+  const clamp = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const p = i * 4;
+      const e = x * 3;
+      const r = clamp(pixels[p] + current[e]);
+      const g = clamp(pixels[p + 1] + current[e + 1]);
+      const b = clamp(pixels[p + 2] + current[e + 2]);
+
+      const index = lookup(r, g, b);
+      indices[i] = index;
+
+      const errors = [r - palette[index * 3], g - palette[index * 3 + 1], b - palette[index * 3 + 2]];
+      for (let c = 0; c < 3; c++) {
+        const error = errors[c];
+        if (x + 1 < width) current[e + 3 + c] += error * 7 / 16;
+        if (x > 0) next[e - 3 + c] += error * 3 / 16;
+        next[e + c] += error * 5 / 16;
+        if (x + 1 < width) next[e + 3 + c] += error * 1 / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return indices;
+};
@@ -0,0 +1,61 @@
+import { QualityPresetId, RecordingQuality, VideoCodec } from '../types';
+
+export const AUDIO_BITRATE = 128000;
+
+export const QUALITY_PRESET_IDS: QualityPresetId[] = ['draft', 'standard', 'crisp', 'smooth', 'custom'];
+
+export const QUALITY_PRESETS: Record<Exclude<QualityPresetId, 'custom'>, RecordingQuality> = {
+  draft: { preset: 'draft', width: 1280, height: 720, frameRate: 30, codec: 'vp8', videoBitrate: 1500000 },
+  standard: { preset: 'standard', width: 1920, height: 1080, frameRate: 30, codec: 'vp9', videoBitrate: 3000000 },
+  crisp: { preset: 'crisp', width: 2560, height: 1440, frameRate: 30, codec: 'vp9', videoBitrate: 8000000 },
+  smooth: { preset: 'smooth', width: 1920, height: 1080, frameRate: 60, codec: 'vp9', videoBitrate: 6000000 },
+};
+
+export const VIDEO_CODECS: VideoCodec[] = ['vp9', 'vp8', 'av1', 'h264'];
+
+// MediaRecorder MIME types per codec, with and without an audio track, most compatible container first
+const CODEC_MIME_TYPES: Record<VideoCodec, { audio: string[]; video: string[] }> = {
+  vp9: { audio: ['video/webm;codecs=vp9,opus'], video: ['video/webm;codecs=vp9'] },
+  vp8: { audio: ['video/webm;codecs=vp8,opus'], video: ['video/webm;codecs=vp8'] },
+  av1: { audio: ['video/webm;codecs=av01,opus', 'video/webm;codecs=av1,opus'], video: ['video/webm;codecs=av01', 'video/webm;codecs=av1'] },
+  h264: {
+    audio: ['video/mp4;codecs=avc1,mp4a.40.2', 'video/webm;codecs=h264,opus'],
+    video: ['video/mp4;codecs=avc1', 'video/webm;codecs=h264']
+  },
+};
+
+const isTypeSupported = (type: string) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type);
+
+export const isCodecSupported = (codec: VideoCodec, hasAudio = true) =>
+  CODEC_MIME_TYPES[codec][hasAudio ? 'audio' : 'video'].some(isTypeSupported);
+
+/**
+ * MIME type for MediaRecorder: the preferred codec if the browser can record it,
+ * otherwise the other codecs in their usual order, then whatever the container defaults to.
+ */
+export const getSupportedMimeType = (codec: VideoCodec, hasAudio: boolean) => {
+  const codecs = [codec, ...VIDEO_CODECS.filter(c => c !== codec)];
+  const types = [
+    ...codecs.flatMap(c => CODEC_MIME_TYPES[c][hasAudio ? 'audio' : 'video']),
+    'video/webm',
+    'video/mp4',
+  ];
+  return types.find(isTypeSupported) || '';
+};
+
+// Upper bound from the bitrates; screen recordings of static content usually come in well below it
+export const estimateMegabytesPerMinute = (quality: RecordingQuality, hasAudio: boolean) =>
+  ((quality.videoBitrate + (hasAudio ? AUDIO_BITRATE : 0)) * 60) / 8 / 1000000;
+
+/**
+ * Scales a frame down (never up) to fit the quality's resolution, whatever the orientation, keeping even dimensions.
+ */
+export const fitToQuality = (size: { width: number; height: number }, quality: RecordingQuality) => {
+  const long = Math.max(size.width, size.height);
+  const short = Math.min(size.width, size.height);
+  const scale = Math.min(1, Math.max(quality.width, quality.height) / long, Math.min(quality.width, quality.height) / short);
+  return {
+    width: Math.max(2, Math.round((size.width * scale) / 2) * 2),
+    height: Math.max(2, Math.round((size.height * scale) / 2) * 2),
+  };
+};
@@ -0,0 +1,148 @@
+import { CameraConfig, CameraShape } from '../types';
+import { LayerBox } from './compositor';
+import { MessageKey } from '../locales/en';
+
+/**
+ * Where a layer sits in a scene, as fractions of the recorded frame.
+ */
+export interface SceneSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius?: number; // Corner radius as a fraction of the slot's shorter side
+  border?: boolean; // Camera only: draw the CameraConfig border
+}
+
+export interface SceneDefinition {
+  id: string;
+  label: MessageKey;
+  screen: SceneSlot | null; // Fitted inside the slot without cropping; null hides the screen
+  camera: SceneSlot | 'bubble' | null; // 'bubble' follows CameraConfig and can be dragged in the overlay
+  screenOnTop?: boolean; // For screen insets over a full-frame camera
+  backdrop?: string; // Fills what the layers leave uncovered
+}
+
+const FULL_FRAME: SceneSlot = { x: 0, y: 0, width: 1, height: 1 };
+
+// Add a scene here and it shows up in the overlay's scene switcher
+export const SCENES: SceneDefinition[] = [
+  {
+    id: 'bubble',
+    label: 'scene.bubble',
+    screen: FULL_FRAME,
+    camera: 'bubble',
+  },
+  {
+    id: 'side-by-side',
+    label: 'scene.side-by-side',
+    screen: { x: 0.03, y: 0.05, width: 0.62, height: 0.9, radius: 0.02 },
+    camera: { x: 0.68, y: 0.05, width: 0.29, height: 0.9, radius: 0.06, border: true },
+    backdrop: '#0f172a', // Slate-900
+  },
+  {
+    id: 'camera-inset',
+    label: 'scene.camera-inset',
+    screen: { x: 0.66, y: 0.64, width: 0.31, height: 0.31, radius: 0.04 },
+    camera: FULL_FRAME,
+    screenOnTop: true,
+  },
+  {
+    // Meant for a camera with its background removed: the presenter stands in front of the slides
+    id: 'presenter',
+    label: 'scene.presenter',
+    screen: FULL_FRAME,
+    camera: { x: 0.55, y: 0.25, width: 0.45, height: 0.75 },
+  },
+  {
+    id: 'screen-only',
+    label: 'scene.screen-only',
+    screen: FULL_FRAME,
+    camera: null,
+  },
+  {
+    id: 'camera-only',
+    label: 'scene.camera-only',
+    screen: null,
+    camera: FULL_FRAME,
+  },
+];
+
+export const DEFAULT_SCENE_ID = SCENES[0].id;
+
+export const SCENE_TRANSITION_MS = 450;
+
+const DEFAULT_BACKDROP = '#000';
+
+export const getScene = (id: string) => SCENES.find(scene => scene.id === id) ?? SCENES[0];
+
+export interface SceneLayout {
+  screen: LayerBox;
+  camera: LayerBox;
+  screenOnTop: boolean;
+  backdrop: string;
+}
+
+// Same proportional corners as the overlay's bubble outline
+const BUBBLE_RADIUS: Record<CameraShape, number> = { circle: 0.5, square: 0.15, rect: 0.35 };
+
+const bubbleBox = (config: CameraConfig, width: number, height: number): LayerBox => {
+  const size = Math.min(width, height) * config.size;
+  return {
+    x: config.position.x * width,
+    y: config.position.y * height,
+    width: size,
+    height: size,
+    radius: size * BUBBLE_RADIUS[config.shape],
+    opacity: 1,
+    border: 1,
+  };
+};
+
+const slotBox = (slot: SceneSlot, width: number, height: number): LayerBox => {
+  const box = { x: slot.x * width, y: slot.y * height, width: slot.width * width, height: slot.height * height };
+  return { ...box, radius: (slot.radius ?? 0) * Math.min(box.width, box.height), opacity: 1, border: slot.border ? 1 : 0 };
+};
+
+/**
+ * Pixel layout of a scene. Hidden layers keep a sensible box with zero opacity,
+ * so a transition fades them in place instead of flying in from a corner.
+ */
+export const resolveScene = (scene: SceneDefinition, config: CameraConfig, width: number, height: number): SceneLayout => {
+  const screen = slotBox(scene.screen ?? FULL_FRAME, width, height);
+  const camera = scene.camera === 'bubble' || scene.camera === null
+    ? bubbleBox(config, width, height)
+    : slotBox(scene.camera, width, height);
+  return {
+    screen: { ...screen, opacity: scene.screen ? 1 : 0 },
+    camera: { ...camera, opacity: scene.camera ? 1 : 0 },
+    screenOnTop: !!scene.screenOnTop,
+    backdrop: scene.backdrop ?? DEFAULT_BACKDROP,
+  };
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpBox = (a: LayerBox, b: LayerBox, t: number): LayerBox => ({
+  x: lerp(a.x, b.x, t),
+  y: lerp(a.y, b.y, t),
+  width: lerp(a.width, b.width, t),
+  height: lerp(a.height, b.height, t),
+  radius: lerp(a.radius, b.radius, t),
+  opacity: lerp(a.opacity, b.opacity, t),
+  border: lerp(a.border, b.border, t),
+});
+
+// Ease in-out cubic: 0 to 1 over a transition's progress
+const ease = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+export const blendLayouts = (from: SceneLayout, to: SceneLayout, progress: number): SceneLayout => {
+  const t = ease(Math.max(0, Math.min(1, progress)));
+  return {
+    screen: lerpBox(from.screen, to.screen, t),
+    camera: lerpBox(from.camera, to.camera, t),
+    // Stacking order and backdrop cannot blend; switch halfway, when the layers move fastest
+    screenOnTop: t < 0.5 ? from.screenOnTop : to.screenOnTop,
+    backdrop: t < 0.5 ? from.backdrop : to.backdrop,
+  };
+};
@@ -0,0 +1,58 @@
+import { ShortcutAction, ShortcutBindings } from '../types';
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock'];
+
+// Combos the browser or the OS keeps for itself; a page never sees them, or should not steal them
+const RESERVED_COMBOS = ['Ctrl+W', 'Ctrl+T', 'Ctrl+N', 'Ctrl+Shift+T', 'Ctrl+Shift+N', 'Ctrl+Tab', 'Alt+F4', 'Meta+W', 'Meta+Q', 'Meta+T', 'Meta+N'];
+
+/**
+ * Turns a key press into a combo string, or null for a bare modifier.
+ * Letters and digits come from the physical key, so Alt/Option combos work on every layout.
+ */
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+
+  let key: string;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit[0-9]$/.test(e.code)) key = e.code.slice(5);
+  else if (e.key === ' ') key = 'Space';
+  else key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  parts.push(key);
+  return parts.join('+');
+};
+
+/**
+ * Plain keys would fire while the presenter types in the recorded app, so a modifier (or a function key) is required.
+ */
+export const isUsableCombo = (combo: string) =>
+  !RESERVED_COMBOS.includes(combo) && (combo.includes('+') || /^F\d{1,2}$/.test(combo));
+
+/**
+ * Actions that share a combo with an earlier action. An empty combo means unbound and never conflicts.
+ */
+export const findConflicts = (bindings: ShortcutBindings): ShortcutAction[] => {
+  const seen = new Set<string>();
+  const conflicts: ShortcutAction[] = [];
+  for (const [action, combo] of Object.entries(bindings) as [ShortcutAction, string][]) {
+    if (!combo) continue;
+    if (seen.has(combo)) conflicts.push(action);
+    seen.add(combo);
+  }
+  return conflicts;
+};
+
+/**
+ * Appends the combo to a tooltip, e.g. "Pause (Alt+Shift+P)".
+ */
+export const withShortcut = (label: string, combo: string) => (combo ? `${label} (${combo})` : label);
+
+// Typing into a field must never pause or stop the recording
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
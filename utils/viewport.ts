@@ -0,0 +1,109 @@
+import { CaptureRegion, ScreenViewport } from '../types';
+import { Rect } from './compositor';
+
+export const FULL_REGION: CaptureRegion = { x: 0, y: 0, width: 1, height: 1 };
+export const DEFAULT_VIEWPORT: ScreenViewport = { zoom: 1, center: { x: 0.5, y: 0.5 } };
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+// Smallest region that still makes a usable recording, as a fraction of the screen
+export const MIN_REGION_SIZE = 0.1;
+// Time constant of the zoom/pan easing: ~95% of the way there after three of these
+const EASE_MS = 120;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const isFullRegion = (region: CaptureRegion) =>
+  region.x === 0 && region.y === 0 && region.width === 1 && region.height === 1;
+
+/**
+ * Keeps the visible window inside the capture region at any zoom.
+ */
+export const clampViewport = (viewport: ScreenViewport): ScreenViewport => {
+  const zoom = clamp(viewport.zoom, MIN_ZOOM, MAX_ZOOM);
+  const half = 0.5 / zoom;
+  return {
+    zoom,
+    center: {
+      x: clamp(viewport.center.x, half, 1 - half),
+      y: clamp(viewport.center.y, half, 1 - half),
+    },
+  };
+};
+
+/**
+ * Zooms by `factor` while keeping the point under the cursor (`anchor`, 0.0 to 1.0 of the frame) still.
+ */
+export const zoomViewportAt = (viewport: ScreenViewport, factor: number, anchor: { x: number; y: number }): ScreenViewport => {
+  const zoom = clamp(viewport.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+  const span = 1 / viewport.zoom;
+  const nextSpan = 1 / zoom;
+  // Where the anchor sits in region space stays put
+  const fixedX = viewport.center.x - span / 2 + anchor.x * span;
+  const fixedY = viewport.center.y - span / 2 + anchor.y * span;
+  return clampViewport({
+    zoom,
+    center: {
+      x: fixedX - anchor.x * nextSpan + nextSpan / 2,
+      y: fixedY - anchor.y * nextSpan + nextSpan / 2,
+    },
+  });
+};
+
+/**
+ * Moves the view by a drag of `delta` (fraction of the frame); dragging right reveals what is on the left.
+ */
+export const panViewport = (viewport: ScreenViewport, delta: { x: number; y: number }): ScreenViewport =>
+  clampViewport({
+    zoom: viewport.zoom,
+    center: {
+      x: viewport.center.x - delta.x / viewport.zoom,
+      y: viewport.center.y - delta.y / viewport.zoom,
+    },
+  });
+
+/**
+ * One animation step from `current` towards `target`, frame-rate independent.
+ */
+export const easeViewport = (current: ScreenViewport, target: ScreenViewport, elapsedMs: number): ScreenViewport => {
+  const t = 1 - Math.exp(-elapsedMs / EASE_MS);
+  const step = (from: number, to: number) => (Math.abs(to - from) < 1e-4 ? to : from + (to - from) * t);
+  return {
+    zoom: step(current.zoom, target.zoom),
+    center: { x: step(current.center.x, target.center.x), y: step(current.center.y, target.center.y) },
+  };
+};
+
+/**
+ * The visible window as a normalized rect of the whole screen (what the minimap outlines).
+ */
+export const getViewportRegion = (region: CaptureRegion, viewport: ScreenViewport): CaptureRegion => {
+  const span = 1 / viewport.zoom;
+  return {
+    x: region.x + (viewport.center.x - span / 2) * region.width,
+    y: region.y + (viewport.center.y - span / 2) * region.height,
+    width: region.width * span,
+    height: region.height * span,
+  };
+};
+
+/**
+ * Source rectangle in screen pixels for `drawImage`.
+ */
+export const getSourceRect = (region: CaptureRegion, viewport: ScreenViewport, screenWidth: number, screenHeight: number): Rect => {
+  const visible = getViewportRegion(region, viewport);
+  return {
+    x: visible.x * screenWidth,
+    y: visible.y * screenHeight,
+    width: visible.width * screenWidth,
+    height: visible.height * screenHeight,
+  };
+};
+
+/**
+ * Recorded frame size for a region of the screen. Encoders want even dimensions.
+ */
+export const getRegionSize = (region: CaptureRegion, screenWidth: number, screenHeight: number) => ({
+  width: Math.max(2, Math.round((region.width * screenWidth) / 2) * 2),
+  height: Math.max(2, Math.round((region.height * screenHeight) / 2) * 2),
+});
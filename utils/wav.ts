@@ -0,0 +1,37 @@
+/**
+ * Encodes an AudioBuffer as 16-bit PCM mono WAV. Channels are averaged, which is all speech models need.
+ * `start` and `end` (in samples) pick a part of the buffer.
+ */
+export const encodeWav = (audio: AudioBuffer, start = 0, end = audio.length): Blob => {
+  const samples = end - start;
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, samples * 2, true);
+
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c));
+  for (let i = 0; i < samples; i++) {
+    let sum = 0;
+    for (const channel of channels) sum += channel[start + i];
+    const sample = Math.max(-1, Math.min(1, sum / channels.length));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
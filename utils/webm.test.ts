@@ -0,0 +1,225 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { createWebmSlicer, repairWebm, WebmParseError } from './webm';
+
+// Fixtures are streamed recordings laid out like MediaRecorder output; see __fixtures__/generate.mjs
+const fixture = (name: string) => new Blob([readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))], { type: 'video/webm' });
+
+const ID = {
+  EBML: 0x1A45DFA3,
+  Segment: 0x18538067,
+  SeekHead: 0x114D9B74,
+  Seek: 0x4DBB,
+  SeekID: 0x53AB,
+  SeekPosition: 0x53AC,
+  Info: 0x1549A966,
+  Duration: 0x4489,
+  Tracks: 0x1654AE6B,
+  Cluster: 0x1F43B675,
+  Cues: 0x1C53BB6B,
+  CuePoint: 0xBB,
+  CueTime: 0xB3,
+  CueTrackPositions: 0xB7,
+  CueTrack: 0xF7,
+  CueClusterPosition: 0xF1,
+};
+
+interface Element {
+  id: number;
+  start: number;
+  dataStart: number;
+  size: number | null;
+}
+
+// Minimal EBML reader for checking the output; unknown sizes come back as null
+const vintLength = (byte: number) => {
+  for (let length = 1; length <= 8; length++) if (byte & (0x80 >> (length - 1))) return length;
+  return 0;
+};
+
+const readElement = (bytes: Uint8Array, start: number): Element => {
+  const idLength = vintLength(bytes[start]);
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + bytes[start + i];
+  const sizeStart = start + idLength;
+  const sizeLength = vintLength(bytes[sizeStart]);
+  let size = bytes[sizeStart] & (0xFF >> sizeLength);
+  let unknown = size === 0xFF >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    if (bytes[sizeStart + i] !== 0xFF) unknown = false;
+    size = size * 256 + bytes[sizeStart + i];
+  }
+  return { id, start, dataStart: sizeStart + sizeLength, size: unknown ? null : size };
+};
+
+const children = (bytes: Uint8Array, parent: Element) => {
+  const list: Element[] = [];
+  const end = parent.dataStart + parent.size!;
+  for (let offset = parent.dataStart; offset < end;) {
+    const child = readElement(bytes, offset);
+    list.push(child);
+    offset = child.dataStart + child.size!;
+  }
+  return list;
+};
+
+// Master elements the checks below need to look inside
+const MASTER_IDS = new Set([ID.SeekHead, ID.Seek, ID.Info, ID.Cues, ID.CuePoint, ID.CueTrackPositions]);
+
+// Depth-first search for every element with the given ID
+const findAll = (bytes: Uint8Array, parent: Element, id: number): Element[] =>
+  children(bytes, parent).flatMap(child => {
+    if (child.id === id) return [child];
+    return MASTER_IDS.has(child.id) ? findAll(bytes, child, id) : [];
+  });
+
+const readUint = (bytes: Uint8Array, element: Element) => {
+  let value = 0;
+  for (let i = 0; i < element.size!; i++) value = value * 256 + bytes[element.dataStart + i];
+  return value;
+};
+
+const readDuration = (bytes: Uint8Array, segment: Element) => {
+  const [duration] = findAll(bytes, segment, ID.Duration);
+  return new DataView(bytes.buffer, duration.dataStart, duration.size!).getFloat64(0);
+};
+
+const repair = async (name: string) => {
+  const blob = await repairWebm(fixture(name));
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const ebml = readElement(bytes, 0);
+  const segment = readElement(bytes, ebml.dataStart + ebml.size!);
+  return { blob, bytes, segment };
+};
+
+describe('repairWebm', () => {
+  it.each(['live.webm', 'audio-only.webm'])('gives %s a known Segment size and a Duration', async (name) => {
+    const { bytes, segment } = await repair(name);
+
+    expect(segment.id).toBe(ID.Segment);
+    expect(segment.size).toBe(bytes.length - segment.dataStart);
+    // Two seconds of media at the default 1ms timecode scale
+    expect(readDuration(bytes, segment)).toBeGreaterThanOrEqual(1980);
+    expect(readDuration(bytes, segment)).toBeLessThan(2100);
+  });
+
+  it.each(['live.webm', 'audio-only.webm'])('points every Cue in %s at a Cluster', async (name) => {
+    const { bytes, segment } = await repair(name);
+    const positions = findAll(bytes, segment, ID.CueClusterPosition).map(position => readUint(bytes, position));
+    const clusters = children(bytes, segment).filter(child => child.id === ID.Cluster);
+
+    expect(positions.length).toBeGreaterThan(0);
+    expect(positions.length).toBeLessThanOrEqual(clusters.length);
+    for (const position of positions) {
+      expect(readElement(bytes, segment.dataStart + position).id).toBe(ID.Cluster);
+    }
+    expect(findAll(bytes, segment, ID.CueTime).map(time => readUint(bytes, time))[0]).toBe(0);
+  });
+
+  it('cues the video track when there is one', async () => {
+    const { bytes, segment } = await repair('live.webm');
+    const tracks = findAll(bytes, segment, ID.CueTrack).map(track => readUint(bytes, track));
+
+    // webm-muxer numbers video 1 and audio 2
+    expect(new Set(tracks)).toEqual(new Set([1]));
+  });
+
+  it('points the SeekHead at Info, Tracks and Cues', async () => {
+    const { bytes, segment } = await repair('live.webm');
+    const [seekHead] = children(bytes, segment);
+    expect(seekHead.id).toBe(ID.SeekHead);
+
+    const targets = children(bytes, seekHead).map(seek => {
+      const [seekId, seekPosition] = children(bytes, seek);
+      expect(seekId.id).toBe(ID.SeekID);
+      expect(seekPosition.id).toBe(ID.SeekPosition);
+      const id = readUint(bytes, seekId);
+      expect(readElement(bytes, segment.dataStart + readUint(bytes, seekPosition)).id).toBe(id);
+      return id;
+    });
+    expect(targets).toEqual([ID.Info, ID.Tracks, ID.Cues]);
+  });
+
+  it('gives the same bytes when run twice', async () => {
+    const { blob, bytes } = await repair('live.webm');
+    const again = new Uint8Array(await (await repairWebm(blob)).arrayBuffer());
+
+    expect(again).toEqual(bytes);
+  });
+
+  it('keeps the type of the source blob', async () => {
+    const { blob } = await repair('live.webm');
+
+    expect(blob.type).toBe('video/webm');
+  });
+
+  it('drops the cut-off block of a truncated recording', async () => {
+    const live = await repair('live.webm');
+    const truncated = await repair('truncated.webm');
+
+    expect(truncated.segment.size).toBe(truncated.bytes.length - truncated.segment.dataStart);
+    expect(truncated.bytes.length).toBeLessThan(live.bytes.length);
+    expect(readDuration(truncated.bytes, truncated.segment)).toBeGreaterThan(1000);
+    expect(readDuration(truncated.bytes, truncated.segment)).toBeLessThanOrEqual(readDuration(live.bytes, live.segment));
+    // Every Cluster still parses with a known size
+    for (const cluster of children(truncated.bytes, truncated.segment).filter(child => child.id === ID.Cluster)) {
+      expect(cluster.size).not.toBeNull();
+      expect(children(truncated.bytes, cluster).length).toBeGreaterThan(0);
+    }
+  });
+
+  it('uses the fallback duration when there are no blocks', async () => {
+    // A recording stopped before the first Cluster was written
+    const source = new Uint8Array(await fixture('live.webm').arrayBuffer());
+    const ebml = readElement(source, 0);
+    const segment = readElement(source, ebml.dataStart + ebml.size!);
+    let end = segment.dataStart;
+    for (let child = readElement(source, end); child.id !== ID.Cluster; child = readElement(source, end)) {
+      end = child.dataStart + child.size!;
+    }
+    const headerOnly = source.subarray(0, end);
+
+    const repaired = new Uint8Array(await (await repairWebm(new Blob([headerOnly]), 3)).arrayBuffer());
+    const repairedSegment = readElement(repaired, ebml.dataStart + ebml.size!);
+
+    expect(readDuration(repaired, repairedSegment)).toBe(3000);
+    expect(findAll(repaired, repairedSegment, ID.CueClusterPosition)).toHaveLength(0);
+  });
+
+  it('rejects files that are not WebM', async () => {
+    await expect(repairWebm(new Blob([new Uint8Array([1, 2, 3, 4])]))).rejects.toBeInstanceOf(WebmParseError);
+  });
+});
+
+describe('createWebmSlicer', () => {
+  const slice = async (name: string, start: number, end: number) => {
+    const slicer = await createWebmSlicer(fixture(name));
+    const piece = slicer.slice(start, end);
+    if (!piece) return null;
+    const bytes = new Uint8Array(await piece.blob.arrayBuffer());
+    const ebml = readElement(bytes, 0);
+    const segment = readElement(bytes, ebml.dataStart + ebml.size!);
+    return { start: piece.start, bytes, segment };
+  };
+
+  it('keeps only the clusters covering the range', async () => {
+    // live.webm starts a cluster on every keyframe, once a second
+    const piece = (await slice('live.webm', 1.2, 1.5))!;
+
+    expect(piece.segment.size).toBe(piece.bytes.length - piece.segment.dataStart);
+    expect(children(piece.bytes, piece.segment).map(child => child.id)).toEqual([ID.Info, ID.Tracks, ID.Cluster]);
+    expect(piece.start).toBe(1);
+  });
+
+  it('starts at the cluster holding the start of the range', async () => {
+    const piece = (await slice('audio-only.webm', 0.5, 1.5))!;
+    const clusters = children(piece.bytes, piece.segment).filter(child => child.id === ID.Cluster);
+
+    expect(clusters.length).toBeGreaterThan(0);
+    expect(piece.start).toBe(0);
+  });
+
+  it('gives nothing past the end of the recording', async () => {
+    expect(await slice('live.webm', 5, 6)).toBeNull();
+  });
+});
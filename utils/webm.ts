@@ -0,0 +1,502 @@
+// Post-processing for MediaRecorder WebM output.
+//
+// Browsers write WebM as a live stream: the Segment and Clusters have "unknown" sizes,
+// Info has no Duration and there is no Cues index. Players then show an unknown length
+// and seeking has to scan the whole file. `repairWebm` rewrites the container with
+// known sizes, a Duration, a Cues entry per keyframe cluster and a SeekHead pointing at
+// everything. Frame data is copied through untouched.
+
+const ID = {
+  EBML: 0x1A45DFA3,
+  Segment: 0x18538067,
+  SeekHead: 0x114D9B74,
+  Seek: 0x4DBB,
+  SeekID: 0x53AB,
+  SeekPosition: 0x53AC,
+  Info: 0x1549A966,
+  TimecodeScale: 0x2AD7B1,
+  Duration: 0x4489,
+  Tracks: 0x1654AE6B,
+  TrackEntry: 0xAE,
+  TrackNumber: 0xD7,
+  TrackType: 0x83,
+  Cluster: 0x1F43B675,
+  Timecode: 0xE7,
+  SimpleBlock: 0xA3,
+  BlockGroup: 0xA0,
+  Block: 0xA1,
+  ReferenceBlock: 0xFB,
+  Cues: 0x1C53BB6B,
+  CuePoint: 0xBB,
+  CueTime: 0xB3,
+  CueTrackPositions: 0xB7,
+  CueTrack: 0xF7,
+  CueClusterPosition: 0xF1,
+  Void: 0xEC,
+  Tags: 0x1254C367,
+  Chapters: 0x1043A770,
+  Attachments: 0x1941A469,
+} as const;
+
+// Direct children of Segment. An unknown-size Cluster ends where one of these begins.
+const TOP_LEVEL_IDS = new Set<number>([
+  ID.SeekHead, ID.Info, ID.Tracks, ID.Cluster, ID.Cues, ID.Tags, ID.Chapters, ID.Attachments,
+]);
+
+const DEFAULT_TIMECODE_SCALE = 1000000; // 1ms per tick
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+
+// Offsets are written with a fixed width so element sizes don't depend on where things land
+const FIXED_UINT_WIDTH = 8;
+const FIXED_SIZE_WIDTH = 8;
+
+export class WebmParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebmParseError';
+  }
+}
+
+interface ElementHeader {
+  id: number;
+  size: number | null; // null = unknown size
+  headerLength: number;
+  dataStart: number;
+}
+
+interface ParsedCluster {
+  timecode: number;
+  children: Uint8Array; // Raw child elements, copied through unchanged
+  keyframeTime: number | null; // Absolute ticks of the first keyframe on the cue track
+  firstAudioTime: number | null; // Absolute ticks of the first block on the audio track
+  lastBlockTime: number;
+}
+
+interface ParsedWebm {
+  header: Uint8Array;
+  infoChildren: Uint8Array[];
+  timecodeScale: number;
+  tracks: Uint8Array | null;
+  cueTrack: number;
+  audioTrack: number | null;
+  extras: Uint8Array[]; // Tags, Chapters, Attachments
+  clusters: ParsedCluster[];
+  frameInterval: number; // Typical gap between cue-track frames, in ticks
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+const vintLength = (firstByte: number) => {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+};
+
+const readId = (bytes: Uint8Array, offset: number) => {
+  const length = vintLength(bytes[offset]);
+  if (length === 0 || length > 4 || offset + length > bytes.length) return null;
+  let id = 0;
+  for (let i = 0; i < length; i++) id = id * 256 + bytes[offset + i];
+  return { id, length };
+};
+
+const readSize = (bytes: Uint8Array, offset: number) => {
+  const length = vintLength(bytes[offset]);
+  if (length === 0 || offset + length > bytes.length) return null;
+  let value = bytes[offset] & (0xFF >> length);
+  let allOnes = value === (0xFF >> length);
+  for (let i = 1; i < length; i++) {
+    const byte = bytes[offset + i];
+    if (byte !== 0xFF) allOnes = false;
+    value = value * 256 + byte;
+  }
+  return { size: allOnes ? null : value, length };
+};
+
+const readHeader = (bytes: Uint8Array, offset: number): ElementHeader | null => {
+  const id = readId(bytes, offset);
+  if (!id) return null;
+  const size = readSize(bytes, offset + id.length);
+  if (!size) return null;
+  const headerLength = id.length + size.length;
+  return { id: id.id, size: size.size, headerLength, dataStart: offset + headerLength };
+};
+
+const readUint = (bytes: Uint8Array, start: number, length: number) => {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[start + i];
+  return value;
+};
+
+// Iterates the known-size children of a master element's payload
+const forEachChild = (
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  visit: (header: ElementHeader, end: number) => void
+) => {
+  let offset = start;
+  while (offset < end) {
+    const header = readHeader(bytes, offset);
+    if (!header || header.size === null) break;
+    const childEnd = header.dataStart + header.size;
+    if (childEnd > end) break;
+    visit(header, childEnd);
+    offset = childEnd;
+  }
+};
+
+const parseTracks = (bytes: Uint8Array, start: number, end: number) => {
+  let firstTrack: number | null = null;
+  let videoTrack: number | null = null;
+  let audioTrack: number | null = null;
+
+  forEachChild(bytes, start, end, (entry, entryEnd) => {
+    if (entry.id !== ID.TrackEntry) return;
+    let number: number | null = null;
+    let type: number | null = null;
+    forEachChild(bytes, entry.dataStart, entryEnd, (field) => {
+      if (field.id === ID.TrackNumber) number = readUint(bytes, field.dataStart, field.size!);
+      if (field.id === ID.TrackType) type = readUint(bytes, field.dataStart, field.size!);
+    });
+    if (number === null) return;
+    if (firstTrack === null) firstTrack = number;
+    if (type === TRACK_TYPE_VIDEO && videoTrack === null) videoTrack = number;
+    if (type === TRACK_TYPE_AUDIO && audioTrack === null) audioTrack = number;
+  });
+
+  // Seek on video keyframes; an audio-only file cues on its only track
+  return { cueTrack: videoTrack ?? firstTrack ?? 1, audioTrack };
+};
+
+// Block / SimpleBlock payload: track number (vint), int16 relative timecode, flags
+const readBlockHeader = (bytes: Uint8Array, start: number) => {
+  const track = readSize(bytes, start);
+  if (!track || track.size === null) return null;
+  const timecodeOffset = start + track.length;
+  const relative = (bytes[timecodeOffset] << 8 | bytes[timecodeOffset + 1]) << 16 >> 16; // sign-extend
+  const flags = bytes[timecodeOffset + 2];
+  return { track: track.size, relative, keyframe: (flags & 0x80) !== 0 };
+};
+
+/**
+ * Walks a cluster's children. Unknown-size clusters end at the next top-level element.
+ * Returns the cluster and the offset right after it.
+ */
+const parseCluster = (bytes: Uint8Array, header: ElementHeader, cueTrack: number, audioTrack: number | null, cueTimes: number[]) => {
+  const limit = header.size === null ? bytes.length : Math.min(bytes.length, header.dataStart + header.size);
+  let offset = header.dataStart;
+  let timecode = 0;
+  let keyframeTime: number | null = null;
+  let firstAudioTime: number | null = null;
+  let lastBlockTime = 0;
+
+  while (offset < limit) {
+    const child = readHeader(bytes, offset);
+    if (!child) break;
+    if (header.size === null && TOP_LEVEL_IDS.has(child.id)) break;
+    // A truncated trailing element (e.g. a crash-recovered file) is dropped
+    if (child.size === null || child.dataStart + child.size > limit) break;
+
+    const childEnd = child.dataStart + child.size;
+
+    if (child.id === ID.Timecode) {
+      timecode = readUint(bytes, child.dataStart, child.size);
+    } else if (child.id === ID.SimpleBlock || child.id === ID.BlockGroup) {
+      let block: ReturnType<typeof readBlockHeader> = null;
+      if (child.id === ID.SimpleBlock) {
+        block = readBlockHeader(bytes, child.dataStart);
+      } else {
+        // In a BlockGroup, a Block without a ReferenceBlock is a keyframe
+        let hasReference = false;
+        forEachChild(bytes, child.dataStart, childEnd, (inner) => {
+          if (inner.id === ID.Block) block = readBlockHeader(bytes, inner.dataStart);
+          if (inner.id === ID.ReferenceBlock) hasReference = true;
+        });
+        if (block) block = { ...block, keyframe: !hasReference };
+      }
+
+      if (block) {
+        const time = timecode + block.relative;
+        lastBlockTime = Math.max(lastBlockTime, time);
+        if (block.track === cueTrack) {
+          cueTimes.push(time);
+          if (block.keyframe && keyframeTime === null) keyframeTime = time;
+        }
+        if (block.track === audioTrack && firstAudioTime === null) firstAudioTime = time;
+      }
+    }
+
+    offset = childEnd;
+  }
+
+  const cluster: ParsedCluster = {
+    timecode,
+    children: bytes.subarray(header.dataStart, offset),
+    keyframeTime,
+    firstAudioTime,
+    lastBlockTime,
+  };
+  return { cluster, end: offset };
+};
+
+const parseWebm = (bytes: Uint8Array): ParsedWebm => {
+  const ebml = readHeader(bytes, 0);
+  if (!ebml || ebml.id !== ID.EBML || ebml.size === null) {
+    throw new WebmParseError("Not a WebM file: missing EBML header");
+  }
+  const headerEnd = ebml.dataStart + ebml.size;
+
+  const segment = readHeader(bytes, headerEnd);
+  if (!segment || segment.id !== ID.Segment) {
+    throw new WebmParseError("Not a WebM file: missing Segment");
+  }
+  const segmentEnd = segment.size === null ? bytes.length : Math.min(bytes.length, segment.dataStart + segment.size);
+
+  const parsed: ParsedWebm = {
+    header: bytes.subarray(0, headerEnd),
+    infoChildren: [],
+    timecodeScale: DEFAULT_TIMECODE_SCALE,
+    tracks: null,
+    cueTrack: 1,
+    audioTrack: null,
+    extras: [],
+    clusters: [],
+    frameInterval: 0,
+  };
+  const cueTimes: number[] = [];
+
+  let offset = segment.dataStart;
+  while (offset < segmentEnd) {
+    const header = readHeader(bytes, offset);
+    if (!header) break;
+
+    if (header.id === ID.Cluster) {
+      const { cluster, end } = parseCluster(bytes, header, parsed.cueTrack, parsed.audioTrack, cueTimes);
+      if (cluster.children.length > 0) parsed.clusters.push(cluster);
+      if (end === offset) break;
+      offset = end;
+      continue;
+    }
+
+    // Everything else must have a known size and be complete
+    if (header.size === null || header.dataStart + header.size > segmentEnd) break;
+    const end = header.dataStart + header.size;
+
+    switch (header.id) {
+      case ID.Info:
+        forEachChild(bytes, header.dataStart, end, (child, childEnd) => {
+          if (child.id === ID.Duration) return; // Replaced with the real value
+          if (child.id === ID.TimecodeScale) parsed.timecodeScale = readUint(bytes, child.dataStart, child.size!);
+          parsed.infoChildren.push(bytes.subarray(child.dataStart - child.headerLength, childEnd));
+        });
+        break;
+      case ID.Tracks:
+        parsed.tracks = bytes.subarray(offset, end);
+        ({ cueTrack: parsed.cueTrack, audioTrack: parsed.audioTrack } = parseTracks(bytes, header.dataStart, end));
+        break;
+      case ID.Tags:
+      case ID.Chapters:
+      case ID.Attachments:
+        parsed.extras.push(bytes.subarray(offset, end));
+        break;
+      // Old SeekHead, Cues and Void padding are rebuilt or dropped
+      default:
+        break;
+    }
+    offset = end;
+  }
+
+  if (!parsed.tracks) throw new WebmParseError("WebM file has no Tracks");
+
+  // Median gap between frames, used to give the last frame a duration
+  if (cueTimes.length > 1) {
+    const gaps = cueTimes.slice(1).map((time, i) => time - cueTimes[i]).filter(gap => gap > 0).sort((a, b) => a - b);
+    parsed.frameInterval = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+  }
+
+  return parsed;
+};
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+const encodeId = (id: number) => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xFF);
+  return new Uint8Array(bytes);
+};
+
+const encodeSize = (size: number, width = FIXED_SIZE_WIDTH) => {
+  const bytes = new Uint8Array(width);
+  let value = size;
+  for (let i = width - 1; i >= 0; i--) {
+    bytes[i] = value & 0xFF;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (width - 1);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const element = (id: number, payload: Uint8Array[]) => {
+  const body = concat(payload);
+  return concat([encodeId(id), encodeSize(body.length), body]);
+};
+
+const uintElement = (id: number, value: number, width = FIXED_UINT_WIDTH) => {
+  const bytes = new Uint8Array(width);
+  let remaining = value;
+  for (let i = width - 1; i >= 0; i--) {
+    bytes[i] = remaining & 0xFF;
+    remaining = Math.floor(remaining / 256);
+  }
+  return element(id, [bytes]);
+};
+
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, [bytes]);
+};
+
+const buildCues = (cues: { time: number; position: number }[], track: number) =>
+  element(ID.Cues, cues.map(cue => element(ID.CuePoint, [
+    uintElement(ID.CueTime, cue.time),
+    element(ID.CueTrackPositions, [
+      uintElement(ID.CueTrack, track),
+      uintElement(ID.CueClusterPosition, cue.position),
+    ]),
+  ])));
+
+const buildSeekHead = (entries: { id: number; position: number }[]) =>
+  element(ID.SeekHead, entries.map(entry => element(ID.Seek, [
+    element(ID.SeekID, [encodeId(entry.id)]),
+    uintElement(ID.SeekPosition, entry.position),
+  ])));
+
+/**
+ * Rewrites a MediaRecorder WebM with a Duration, a Cues index and a SeekHead.
+ * `fallbackDuration` (seconds) is only used when the file has no blocks to measure.
+ */
+export const repairWebm = async (source: Blob, fallbackDuration?: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await source.arrayBuffer());
+  const parsed = parseWebm(bytes);
+
+  // Duration in ticks: last frame start plus one typical frame
+  const lastTime = parsed.clusters.reduce((max, cluster) => Math.max(max, cluster.lastBlockTime), 0);
+  const ticksPerSecond = 1e9 / parsed.timecodeScale;
+  const duration = parsed.clusters.length > 0
+    ? lastTime + parsed.frameInterval
+    : (fallbackDuration ?? 0) * ticksPerSecond;
+
+  const info = element(ID.Info, [...parsed.infoChildren, floatElement(ID.Duration, duration)]);
+  const tracks = parsed.tracks!;
+  const extras = concat(parsed.extras);
+  const clusterHeaders = parsed.clusters.map(cluster => concat([encodeId(ID.Cluster), encodeSize(cluster.children.length)]));
+  const cuedClusters = parsed.clusters
+    .map((cluster, index) => ({ cluster, index }))
+    .filter(({ cluster }) => cluster.keyframeTime !== null);
+
+  // Every size is fixed-width, so a dry run with zero positions gives the final layout
+  const seekHeadLength = buildSeekHead([
+    { id: ID.Info, position: 0 },
+    { id: ID.Tracks, position: 0 },
+    { id: ID.Cues, position: 0 },
+  ]).length;
+  const cuesLength = buildCues(cuedClusters.map(() => ({ time: 0, position: 0 })), parsed.cueTrack).length;
+
+  // Positions are relative to the start of the Segment payload
+  const infoPosition = seekHeadLength;
+  const tracksPosition = infoPosition + info.length;
+  const cuesPosition = tracksPosition + tracks.length + extras.length;
+  const clusterPositions: number[] = [];
+  let position = cuesPosition + cuesLength;
+  parsed.clusters.forEach((cluster, index) => {
+    clusterPositions.push(position);
+    position += clusterHeaders[index].length + cluster.children.length;
+  });
+  const segmentLength = position;
+
+  const seekHead = buildSeekHead([
+    { id: ID.Info, position: infoPosition },
+    { id: ID.Tracks, position: tracksPosition },
+    { id: ID.Cues, position: cuesPosition },
+  ]);
+  const cues = buildCues(
+    cuedClusters.map(({ cluster, index }) => ({ time: cluster.keyframeTime!, position: clusterPositions[index] })),
+    parsed.cueTrack
+  );
+
+  const parts: BlobPart[] = [
+    parsed.header,
+    encodeId(ID.Segment),
+    encodeSize(segmentLength),
+    seekHead,
+    info,
+    tracks,
+    extras,
+    cues,
+  ];
+  parsed.clusters.forEach((cluster, index) => {
+    parts.push(clusterHeaders[index], cluster.children);
+  });
+
+  return new Blob(parts, { type: source.type || 'video/webm' });
+};
+
+export interface WebmSlicer {
+  hasAudio: boolean;
+  /**
+   * A standalone WebM with the clusters covering [start, end) seconds, and the time (seconds) of its
+   * first audio block. The cluster holding `start` is included whole, which gives decoders their preroll.
+   */
+  slice: (start: number, end: number) => { blob: Blob; start: number } | null;
+}
+
+/**
+ * Parses a WebM once so pieces of it can be cut out cheaply, e.g. to decode a long recording a minute at a time.
+ */
+export const createWebmSlicer = async (source: Blob): Promise<WebmSlicer> => {
+  const parsed = parseWebm(new Uint8Array(await source.arrayBuffer()));
+  const ticksPerSecond = 1e9 / parsed.timecodeScale;
+  const info = element(ID.Info, parsed.infoChildren);
+  const tracks = parsed.tracks!;
+
+  return {
+    hasAudio: parsed.audioTrack !== null,
+    slice: (start, end) => {
+      const from = start * ticksPerSecond;
+      const to = end * ticksPerSecond;
+      // A cluster runs until the next one begins; the last one until its last frame ends
+      const clusters = parsed.clusters.filter((cluster, index) =>
+        cluster.timecode < to && (parsed.clusters[index + 1]?.timecode ?? cluster.lastBlockTime + parsed.frameInterval) > from);
+      const first = clusters.find(cluster => cluster.firstAudioTime !== null);
+      if (!first) return null;
+
+      const parts: Uint8Array[] = [info, tracks];
+      for (const cluster of clusters) parts.push(encodeId(ID.Cluster), encodeSize(cluster.children.length), cluster.children);
+      const segmentLength = parts.reduce((sum, part) => sum + part.length, 0);
+
+      return {
+        blob: new Blob([parsed.header, encodeId(ID.Segment), encodeSize(segmentLength), ...parts], { type: 'video/webm' }),
+        start: first.firstAudioTime! / ticksPerSecond
+      };
+    }
+  };
+};
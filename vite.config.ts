@@ -1,19 +1,21 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { viteStaticCopy } from 'vite-plugin-static-copy';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [
+        react(),
+        // MediaPipe runtime for camera background removal, served from /mediapipe/wasm
+        viteStaticCopy({
+          targets: [{ src: 'node_modules/@mediapipe/tasks-vision/wasm/vision_wasm_module_internal.*', dest: 'mediapipe/wasm' }],
+        }),
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
@@ -0,0 +1,163 @@
+// Replaces the camera background off the main thread.
+// Person segmentation runs a local TFLite model on the CPU through the MediaPipe WASM runtime,
+// both served from /mediapipe, so nothing leaves the machine and it works offline.
+
+import { FilesetResolver, ImageSegmenter } from '@mediapipe/tasks-vision';
+import { CameraBackground } from '../types';
+import { applyChromaKey } from '../utils/chromaKey';
+import { SEGMENTATION_MODEL_PATH, SEGMENTATION_WASM_PATH } from '../services/cameraBackground';
+
+export type CameraBackgroundRequest =
+  | { type: 'configure'; background: CameraBackground }
+  | { type: 'frame'; frame: ImageBitmap; timestamp: number }; // Timestamp in ms, increasing
+
+export type CameraBackgroundResponse =
+  | { type: 'frame'; frame: ImageBitmap }
+  | { type: 'error'; message: string };
+
+// Blur radius as a fraction of the frame width
+const BLUR_AMOUNT = 0.02;
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<CameraBackgroundRequest>) => void) | null;
+  postMessage: (message: CameraBackgroundResponse, transfer?: Transferable[]) => void;
+};
+
+let background: CameraBackground | null = null;
+let segmenter: Promise<ImageSegmenter> | null = null;
+let backdrop: { source: string; image: ImageBitmap } | null = null;
+let output: OffscreenCanvas | null = null;
+let person: OffscreenCanvas | null = null;
+let mask: OffscreenCanvas | null = null;
+
+// Loaded on first use: chroma key and plain recordings never pay for the model
+const getSegmenter = () => {
+  segmenter ??= FilesetResolver.forVisionTasks(SEGMENTATION_WASM_PATH, true).then(fileset =>
+    ImageSegmenter.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: SEGMENTATION_MODEL_PATH, delegate: 'CPU' },
+      runningMode: 'VIDEO',
+      outputConfidenceMasks: true,
+      outputCategoryMask: false
+    })
+  ).catch((err: any) => {
+    segmenter = null;
+    throw new Error(`Background removal model could not be loaded from ${SEGMENTATION_MODEL_PATH}: ${err?.message || err}`);
+  });
+  return segmenter;
+};
+
+const getBackdrop = async (source: string) => {
+  if (backdrop?.source !== source) {
+    const blob = await (await fetch(source)).blob();
+    backdrop?.image.close();
+    backdrop = { source, image: await createImageBitmap(blob) };
+  }
+  return backdrop.image;
+};
+
+const getCanvas = (canvas: OffscreenCanvas | null, width: number, height: number) => {
+  if (!canvas) return new OffscreenCanvas(width, height);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return canvas;
+};
+
+const get2d = (canvas: OffscreenCanvas) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a canvas for background removal");
+  return ctx;
+};
+
+const drawCover = (ctx: OffscreenCanvasRenderingContext2D, image: ImageBitmap, width: number, height: number) => {
+  const scale = Math.max(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const keyFrame = (frame: ImageBitmap, settings: CameraBackground) => {
+  const ctx = get2d(output!);
+  ctx.clearRect(0, 0, frame.width, frame.height);
+  ctx.drawImage(frame, 0, 0);
+  const pixels = ctx.getImageData(0, 0, frame.width, frame.height);
+  applyChromaKey(pixels.data, settings.keyColor, settings.tolerance, settings.spill);
+  ctx.putImageData(pixels, 0, 0);
+};
+
+const replaceBackground = async (frame: ImageBitmap, timestamp: number, settings: CameraBackground) => {
+  const result = (await getSegmenter()).segmentForVideo(frame, timestamp);
+  const masks = result.confidenceMasks ?? [];
+  // Single-class models output only the person; two-class models put it last
+  const confidence = masks[masks.length - 1];
+  if (!confidence) throw new Error("Background removal model returned no mask");
+
+  try {
+    // 1. Person confidence -> alpha channel at model resolution
+    const values = confidence.getAsFloat32Array();
+    mask = getCanvas(mask, confidence.width, confidence.height);
+    const alpha = new ImageData(confidence.width, confidence.height);
+    for (let i = 0; i < values.length; i++) alpha.data[i * 4 + 3] = values[i] * 255;
+    get2d(mask).putImageData(alpha, 0, 0);
+  } finally {
+    masks.forEach(m => m.close());
+  }
+
+  // 2. Cut the presenter out, letting the browser smooth the upscaled mask
+  person = getCanvas(person, frame.width, frame.height);
+  const personCtx = get2d(person);
+  personCtx.globalCompositeOperation = 'copy';
+  personCtx.drawImage(frame, 0, 0);
+  personCtx.globalCompositeOperation = 'destination-in';
+  personCtx.drawImage(mask, 0, 0, frame.width, frame.height);
+
+  // 3. New background, presenter on top
+  const ctx = get2d(output!);
+  ctx.filter = 'none';
+  if (settings.mode === 'blur') {
+    ctx.filter = `blur(${Math.round(frame.width * BLUR_AMOUNT)}px)`;
+    ctx.drawImage(frame, 0, 0);
+    ctx.filter = 'none';
+  } else if (settings.mode === 'image' && settings.image) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, frame.width, frame.height);
+    drawCover(ctx, await getBackdrop(settings.image), frame.width, frame.height);
+  } else {
+    ctx.fillStyle = settings.color;
+    ctx.fillRect(0, 0, frame.width, frame.height);
+  }
+  ctx.drawImage(person, 0, 0);
+};
+
+const handle = async (message: CameraBackgroundRequest) => {
+  if (message.type === 'configure') {
+    background = message.background;
+    return;
+  }
+
+  const { frame, timestamp } = message;
+  try {
+    if (!background || background.mode === 'none') return;
+    output = getCanvas(output, frame.width, frame.height);
+    if (background.mode === 'chroma') {
+      keyFrame(frame, background);
+    } else {
+      await replaceBackground(frame, timestamp, background);
+    }
+    const processed = output.transferToImageBitmap();
+    scope.postMessage({ type: 'frame', frame: processed }, [processed]);
+  } finally {
+    frame.close();
+  }
+};
+
+// Frames are handled strictly in order; the page sends the next one only after an answer
+let queue = Promise.resolve();
+scope.onmessage = (event) => {
+  queue = queue
+    .then(() => handle(event.data))
+    .catch((err: any) => {
+      scope.postMessage({ type: 'error', message: err?.message || "Background removal failed" });
+    });
+};
@@ -0,0 +1,117 @@
+// Encodes GIF / animated WebP clips off the main thread.
+// The page streams RGBA frames in one at a time and waits for each ack, so memory stays flat.
+
+import { ClipFormat } from '../types';
+import { buildPalette, applyPalette } from '../utils/palette';
+import { GifWriter } from '../utils/gif';
+import { assembleAnimatedWebp } from '../utils/animatedWebp';
+
+export type ClipEncoderRequest =
+  | { type: 'start'; format: ClipFormat; width: number; height: number; colors: number; dither: boolean }
+  | { type: 'frame'; pixels: ArrayBuffer; duration: number } // Duration in ms
+  | { type: 'finish' };
+
+export type ClipEncoderResponse =
+  | { type: 'frame'; encodedBytes: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+interface Job {
+  format: ClipFormat;
+  width: number;
+  height: number;
+  colors: number;
+  dither: boolean;
+  gif?: GifWriter;
+  webpFrames: Uint8Array[];
+  webpDurations: number[];
+  webpBytes: number;
+  canvas?: OffscreenCanvas;
+}
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ClipEncoderRequest>) => void) | null;
+  postMessage: (message: ClipEncoderResponse) => void;
+};
+
+let job: Job | null = null;
+
+const quantize = (job: Job, pixels: Uint8ClampedArray) => {
+  const palette = buildPalette(pixels, job.colors);
+  return { palette, indices: applyPalette(pixels, job.width, job.height, palette, job.dither) };
+};
+
+const encodeWebpFrame = async (job: Job, pixels: Uint8ClampedArray) => {
+  // Reduce to the palette first, then store losslessly: screen content compresses like a GIF but keeps 24-bit colours
+  const { palette, indices } = quantize(job, pixels);
+  const rgba = new Uint8ClampedArray(pixels.length);
+  for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+    const c = indices[i] * 3;
+    rgba[p] = palette[c];
+    rgba[p + 1] = palette[c + 1];
+    rgba[p + 2] = palette[c + 2];
+    rgba[p + 3] = 255;
+  }
+
+  job.canvas ??= new OffscreenCanvas(job.width, job.height);
+  const ctx = job.canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a canvas for WebP encoding");
+  ctx.putImageData(new ImageData(rgba, job.width, job.height), 0, 0);
+
+  const blob = await job.canvas.convertToBlob({ type: 'image/webp', quality: 1 });
+  // Browsers without a WebP encoder silently fall back to PNG
+  if (blob.type !== 'image/webp') throw new Error("This browser cannot encode WebP images");
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+const handle = async (message: ClipEncoderRequest) => {
+  if (message.type === 'start') {
+    job = {
+      format: message.format,
+      width: message.width,
+      height: message.height,
+      colors: message.colors,
+      dither: message.dither,
+      gif: message.format === 'gif' ? new GifWriter(message.width, message.height) : undefined,
+      webpFrames: [],
+      webpDurations: [],
+      webpBytes: 0
+    };
+    return;
+  }
+
+  if (!job) throw new Error("Encoder received data before start");
+
+  if (message.type === 'frame') {
+    const pixels = new Uint8ClampedArray(message.pixels);
+    if (job.gif) {
+      const { palette, indices } = quantize(job, pixels);
+      job.gif.addFrame(indices, palette, message.duration);
+      scope.postMessage({ type: 'frame', encodedBytes: job.gif.size });
+    } else {
+      const still = await encodeWebpFrame(job, pixels);
+      job.webpFrames.push(still);
+      job.webpDurations.push(message.duration);
+      job.webpBytes += still.length;
+      scope.postMessage({ type: 'frame', encodedBytes: job.webpBytes });
+    }
+    return;
+  }
+
+  const blob = job.gif
+    ? new Blob([job.gif.finish()], { type: 'image/gif' })
+    : assembleAnimatedWebp(job.webpFrames, job.width, job.height, job.webpDurations);
+  job = null;
+  scope.postMessage({ type: 'done', blob });
+};
+
+// Messages are handled strictly in order, even though WebP encoding is async
+let queue = Promise.resolve();
+scope.onmessage = (event) => {
+  queue = queue
+    .then(() => handle(event.data))
+    .catch((err: any) => {
+      job = null;
+      scope.postMessage({ type: 'error', message: err?.message || "Clip encoding failed" });
+    });
+};
@@ -0,0 +1,44 @@
+// Steady tick source for the recorder's compositing loop.
+// Timers in a dedicated worker are not throttled when the recording tab goes to the background,
+// unlike requestAnimationFrame (stopped) and page timers (clamped to once a second or less).
+
+export type FrameClockRequest =
+  | { type: 'start'; fps: number }
+  | { type: 'stop' };
+
+export type FrameClockResponse = { type: 'tick' };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<FrameClockRequest>) => void) | null;
+  postMessage: (message: FrameClockResponse) => void;
+};
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const stop = () => {
+  if (timer !== null) clearTimeout(timer);
+  timer = null;
+};
+
+const start = (fps: number) => {
+  stop();
+  const interval = 1000 / fps;
+  let next = performance.now();
+
+  const tick = () => {
+    scope.postMessage({ type: 'tick' });
+    const now = performance.now();
+    next += interval;
+    // Fell more than a frame behind: resync rather than firing a burst of catch-up ticks
+    if (now - next > interval) next = now + interval;
+    timer = setTimeout(tick, Math.max(0, next - now));
+  };
+
+  tick();
+};
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'start') start(message.fps);
+  else stop();
+};
@@ -0,0 +1,77 @@
+// Noise gate for the microphone path, run on the audio rendering thread.
+// Plain JS on purpose: audio worklets are loaded by URL, and Vite copies such files as they are.
+
+// The gate closes a few dB below where it opens, so a voice hovering at the threshold does not chatter
+const HYSTERESIS_DB = 6;
+// Kept open this long after the level drops, so word endings and short pauses are not clipped
+const HOLD_SECONDS = 0.12;
+// Envelope follower time constants
+const ENVELOPE_ATTACK_SECONDS = 0.002;
+const ENVELOPE_RELEASE_SECONDS = 0.05;
+
+const dbToGain = (db) => Math.pow(10, db / 20);
+const timeConstant = (seconds) => Math.exp(-1 / (seconds * sampleRate));
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'threshold', defaultValue: -50, minValue: -100, maxValue: 0, automationRate: 'k-rate' }, // dBFS
+      { name: 'attack', defaultValue: 0.005, minValue: 0.0001, maxValue: 1, automationRate: 'k-rate' }, // Seconds to open
+      { name: 'release', defaultValue: 0.15, minValue: 0.001, maxValue: 2, automationRate: 'k-rate' }, // Seconds to close
+      { name: 'floor', defaultValue: -40, minValue: -100, maxValue: 0, automationRate: 'k-rate' } // Attenuation when closed, dB
+    ];
+  }
+
+  constructor() {
+    super();
+    this.envelope = 0;
+    this.gain = 1;
+    this.holdSamples = 0;
+    this.open = true;
+    this.envelopeAttack = timeConstant(ENVELOPE_ATTACK_SECONDS);
+    this.envelopeRelease = timeConstant(ENVELOPE_RELEASE_SECONDS);
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    const openLevel = dbToGain(parameters.threshold[0]);
+    const closeLevel = dbToGain(parameters.threshold[0] - HYSTERESIS_DB);
+    const floor = dbToGain(parameters.floor[0]);
+    const attack = timeConstant(parameters.attack[0]);
+    const release = timeConstant(parameters.release[0]);
+    const holdLength = Math.round(HOLD_SECONDS * sampleRate);
+    const frames = input[0].length;
+
+    for (let i = 0; i < frames; i++) {
+      // Peak across channels drives a single gain, so the stereo image stays put
+      let peak = 0;
+      for (let channel = 0; channel < input.length; channel++) {
+        peak = Math.max(peak, Math.abs(input[channel][i]));
+      }
+      const coefficient = peak > this.envelope ? this.envelopeAttack : this.envelopeRelease;
+      this.envelope = coefficient * this.envelope + (1 - coefficient) * peak;
+
+      if (this.envelope >= openLevel) {
+        this.open = true;
+        this.holdSamples = holdLength;
+      } else if (this.envelope < closeLevel) {
+        if (this.holdSamples > 0) this.holdSamples--;
+        else this.open = false;
+      }
+
+      const target = this.open ? 1 : floor;
+      const smoothing = target > this.gain ? attack : release;
+      this.gain = smoothing * this.gain + (1 - smoothing) * target;
+
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = (input[channel] ?? input[0])[i] * this.gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('noise-gate', NoiseGateProcessor);